@@ -2,8 +2,10 @@ import { useState, useCallback } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { ImagePreview } from './components/ImagePreview';
 import { DownloadButton } from './components/DownloadButton';
-import { loadImage, processImage, ProcessingResult, Orientation, isHeicFile } from './processor';
-import { OutputFormat, OUTPUT_FORMATS } from './constants';
+import { loadImage, LoadOptions, ProcessingResult, Orientation, isHeicFile } from './processor';
+import { fitImage } from './utils/processing';
+import { OutputFormat } from './constants';
+import { getCanvasTarget } from './targets';
 
 function App() {
   const [originalFile, setOriginalFile] = useState<File | null>(null);
@@ -14,7 +16,7 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [outputFormat, setOutputFormat] = useState<OutputFormat>('whatsapp-dp');
 
-  const handleFileSelect = useCallback(async (file: File) => {
+  const handleFileSelect = useCallback(async (file: File, options: LoadOptions = {}) => {
     setIsProcessing(true);
     setError(null);
     setOriginalFile(file);
@@ -26,10 +28,10 @@ function App() {
     }
 
     try {
-      const image = await loadImage(file);
+      const image = await loadImage(file, options);
       setIsConvertingHeic(false);
       setOriginalImage(image);
-      const processed = processImage(image, { outputFormat });
+      const processed = await fitImage(image, { outputFormat });
       setResult(processed);
     } catch (err) {
       console.error('Processing error:', err);
@@ -42,12 +44,12 @@ function App() {
     }
   }, [outputFormat]);
 
-  const handleOrientationChange = useCallback((orientation: Orientation) => {
+  const handleOrientationChange = useCallback(async (orientation: Orientation) => {
     if (!originalImage) return;
 
     setIsProcessing(true);
     try {
-      const processed = processImage(originalImage, { outputFormat, orientation });
+      const processed = await fitImage(originalImage, { outputFormat, orientation });
       setResult(processed);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process image');
@@ -56,13 +58,13 @@ function App() {
     }
   }, [originalImage, outputFormat]);
 
-  const handleOutputFormatChange = useCallback((format: OutputFormat) => {
+  const handleOutputFormatChange = useCallback(async (format: OutputFormat) => {
     setOutputFormat(format);
     if (!originalImage) return;
 
     setIsProcessing(true);
     try {
-      const processed = processImage(originalImage, { outputFormat: format });
+      const processed = await fitImage(originalImage, { outputFormat: format });
       setResult(processed);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process image');
@@ -115,6 +117,7 @@ function App() {
                 <div className="output-format-selector">
                   <button
                     className={`output-format-btn ${outputFormat === 'whatsapp-dp' ? 'active' : ''}`}
+                    aria-pressed={outputFormat === 'whatsapp-dp'}
                     onClick={() => setOutputFormat('whatsapp-dp')}
                   >
                     <div className="format-icon">
@@ -125,12 +128,13 @@ function App() {
                       </svg>
                     </div>
                     <div className="format-info">
-                      <span className="format-name">{OUTPUT_FORMATS['whatsapp-dp'].name}</span>
-                      <span className="format-desc">{OUTPUT_FORMATS['whatsapp-dp'].description}</span>
+                      <span className="format-name">{getCanvasTarget('whatsapp-dp').name}</span>
+                      <span className="format-desc">{getCanvasTarget('whatsapp-dp').description}</span>
                     </div>
                   </button>
                   <button
                     className={`output-format-btn ${outputFormat === 'a4' ? 'active' : ''}`}
+                    aria-pressed={outputFormat === 'a4'}
                     onClick={() => setOutputFormat('a4')}
                   >
                     <div className="format-icon">
@@ -142,8 +146,8 @@ function App() {
                       </svg>
                     </div>
                     <div className="format-info">
-                      <span className="format-name">{OUTPUT_FORMATS['a4'].name}</span>
-                      <span className="format-desc">{OUTPUT_FORMATS['a4'].description}</span>
+                      <span className="format-name">{getCanvasTarget('a4').name}</span>
+                      <span className="format-desc">{getCanvasTarget('a4').description}</span>
                     </div>
                   </button>
                 </div>
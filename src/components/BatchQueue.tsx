@@ -0,0 +1,178 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { downloadBlob } from '../processor';
+import { formatFileSize } from '../utils/format';
+import { createZip, uniqueFileNames } from '../utils/zip';
+
+export interface BatchOutput {
+  blob: Blob;
+  filename: string;
+}
+
+interface BatchQueueProps {
+  files: File[];
+  // Applies the page's current settings to one file; `onProgress` takes 0-1
+  processFile: (file: File, onProgress: (progress: number) => void) => Promise<BatchOutput>;
+  archiveName: string;
+  onClear: () => void;
+}
+
+type BatchStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+interface BatchItem {
+  file: File;
+  status: BatchStatus;
+  progress: number;
+  output: BatchOutput | null;
+  error: string | null;
+}
+
+function createItems(files: File[]): BatchItem[] {
+  return files.map((file) => ({ file, status: 'queued', progress: 0, output: null, error: null }));
+}
+
+function formatSaving(before: number, after: number): string {
+  const change = Math.round((1 - after / before) * 100);
+  return change >= 0 ? `-${change}%` : `+${-change}%`;
+}
+
+/**
+ * Runs the current tool over many files one at a time (to keep memory bounded),
+ * with per-file progress, failures and savings, and a ZIP of all results
+ */
+export function BatchQueue({ files, processFile, archiveName, onClear }: BatchQueueProps) {
+  const [items, setItems] = useState<BatchItem[]>(() => createItems(files));
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const cancelRef = useRef(false);
+
+  useEffect(() => {
+    setItems(createItems(files));
+  }, [files]);
+
+  // Stop after the current file when leaving the page
+  useEffect(() => {
+    return () => {
+      cancelRef.current = true;
+    };
+  }, []);
+
+  const updateItem = useCallback((index: number, changes: Partial<BatchItem>) => {
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  }, []);
+
+  const handleRun = useCallback(async () => {
+    cancelRef.current = false;
+    setIsRunning(true);
+    setZipError(null);
+    setItems(createItems(files));
+
+    for (const [index, file] of files.entries()) {
+      if (cancelRef.current) break;
+      updateItem(index, { status: 'processing' });
+      try {
+        const output = await processFile(file, (progress) => updateItem(index, { progress }));
+        updateItem(index, { status: 'done', progress: 1, output });
+      } catch (err) {
+        console.error(`Batch error (${file.name}):`, err);
+        updateItem(index, { status: 'failed', error: err instanceof Error ? err.message : 'Failed to process' });
+      }
+    }
+
+    setIsRunning(false);
+  }, [files, processFile, updateItem]);
+
+  const handleCancel = useCallback(() => {
+    cancelRef.current = true;
+  }, []);
+
+  const done = items.filter((item) => item.status === 'done');
+  const failed = items.filter((item) => item.status === 'failed');
+  const hasRun = done.length > 0 || failed.length > 0;
+  const sizeBefore = done.reduce((sum, item) => sum + item.file.size, 0);
+  const sizeAfter = done.reduce((sum, item) => sum + item.output!.blob.size, 0);
+
+  const handleDownloadZip = useCallback(async () => {
+    setIsZipping(true);
+    setZipError(null);
+    try {
+      const names = uniqueFileNames(done.map((item) => item.output!.filename));
+      const zip = await createZip(done.map((item, i) => ({ name: names[i], data: item.output!.blob })));
+      downloadBlob(zip, archiveName);
+    } catch (err) {
+      setZipError(err instanceof Error ? err.message : 'Failed to create the ZIP');
+    } finally {
+      setIsZipping(false);
+    }
+  }, [done, archiveName]);
+
+  return (
+    <div className="resize-controls-simple batch-queue">
+      <p className="helper-text">Batch: {files.length} images</p>
+      <p className="format-hint">The settings above are applied to every image; the preview shows the first one.</p>
+
+      <ul className="batch-list">
+        {items.map((item, index) => (
+          <li key={index} className={`batch-item ${item.status}`}>
+            <div className="batch-item-row">
+              <span className="batch-item-name" title={item.file.name}>{item.file.name}</span>
+              {item.status === 'done' && item.output ? (
+                <button
+                  className="batch-item-download"
+                  onClick={() => downloadBlob(item.output!.blob, item.output!.filename)}
+                  aria-label={`Download ${item.output.filename}`}
+                >
+                  {formatFileSize(item.file.size)} → {formatFileSize(item.output.blob.size)} ({formatSaving(item.file.size, item.output.blob.size)})
+                </button>
+              ) : (
+                <span className="batch-item-status">
+                  {item.status === 'queued' && formatFileSize(item.file.size)}
+                  {item.status === 'processing' && `${Math.round(item.progress * 100)}%`}
+                  {item.status === 'failed' && 'Failed'}
+                </span>
+              )}
+            </div>
+            {item.status === 'processing' && (
+              <div className="batch-progress" role="progressbar" aria-valuenow={Math.round(item.progress * 100)} aria-valuemin={0} aria-valuemax={100}>
+                <div className="batch-progress-fill" style={{ width: `${item.progress * 100}%` }} />
+              </div>
+            )}
+            {item.error && <p className="batch-item-error">{item.error}</p>}
+          </li>
+        ))}
+      </ul>
+
+      {hasRun && !isRunning && (
+        <p className="format-hint" aria-live="polite">
+          {done.length} done{failed.length > 0 && ` · ${failed.length} failed`}
+          {done.length > 0 && ` · ${formatFileSize(sizeBefore)} → ${formatFileSize(sizeAfter)} (${formatSaving(sizeBefore, sizeAfter)})`}
+        </p>
+      )}
+      {zipError && <p className="batch-item-error" role="alert">{zipError}</p>}
+
+      <div className="large-image-actions">
+        {isRunning ? (
+          <button className="format-toggle-btn" onClick={handleCancel}>
+            Stop after this image
+          </button>
+        ) : done.length > 0 ? (
+          <>
+            <button className="big-download-btn" onClick={handleDownloadZip} disabled={isZipping}>
+              {isZipping ? 'Creating ZIP...' : `Download all ${done.length} as ZIP`}
+            </button>
+            <button className="format-toggle-btn" onClick={handleRun}>
+              Process again with the current settings
+            </button>
+          </>
+        ) : (
+          <button className="big-download-btn" onClick={handleRun}>
+            Process all {files.length} images
+          </button>
+        )}
+        <button className="reset-link" onClick={onClear} disabled={isRunning}>
+          Work on the first image only
+        </button>
+      </div>
+    </div>
+  );
+}
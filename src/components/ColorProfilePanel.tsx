@@ -0,0 +1,65 @@
+import { IccProfile, ColorProfileMode, getIccEmbedSize, supportsDisplayP3 } from '../utils/icc';
+import { formatFileSize } from '../utils/format';
+
+interface ColorProfilePanelProps {
+  profile: IccProfile | null;
+  mode: ColorProfileMode;
+  onModeChange: (mode: ColorProfileMode) => void;
+  showSize?: boolean;   // Report the bytes the embedded profile costs
+}
+
+/**
+ * Shows the source colour profile and chooses between converting to sRGB and keeping it
+ */
+export function ColorProfilePanel({ profile, mode, onModeChange, showSize }: ColorProfilePanelProps) {
+  if (!profile) {
+    return (
+      <div className="resize-controls-simple">
+        <p className="helper-text">Colour profile:</p>
+        <p className="format-hint">No embedded profile, treated as sRGB.</p>
+      </div>
+    );
+  }
+
+  // The profile can only be kept if a canvas can hold pixels in that space
+  const keepReason = !profile.colorSpace
+    ? `${profile.description} cannot be kept; colours are converted to sRGB`
+    : profile.colorSpace === 'display-p3' && !supportsDisplayP3()
+      ? 'This browser cannot process Display P3; colours are converted to sRGB'
+      : null;
+
+  return (
+    <div className="resize-controls-simple">
+      <p className="helper-text">Colour profile:</p>
+      <p className="format-hint">
+        {profile.description}
+        {profile.isWideGamut && ' (wide gamut)'}
+        {showSize && ` · ${formatFileSize(getIccEmbedSize(profile.data))} when embedded`}
+      </p>
+
+      <div className="format-toggle-btns">
+        <button
+          className={`format-toggle-btn ${mode === 'convert' ? 'active' : ''}`}
+          aria-pressed={mode === 'convert'}
+          onClick={() => onModeChange('convert')}
+        >
+          Convert to sRGB
+        </button>
+        <button
+          className={`format-toggle-btn ${mode === 'embed' ? 'active' : ''}`}
+          aria-pressed={mode === 'embed'}
+          onClick={() => onModeChange('embed')}
+          disabled={!!keepReason}
+          title={keepReason ?? undefined}
+        >
+          Keep profile
+        </button>
+      </div>
+      <p className="format-hint">
+        {keepReason ?? (mode === 'convert'
+          ? 'Looks the same everywhere; very saturated colours may be clipped'
+          : 'Keeps the full colour range; the profile is embedded in the file')}
+      </p>
+    </div>
+  );
+}
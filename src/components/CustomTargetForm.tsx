@@ -0,0 +1,130 @@
+import { useState, useCallback } from 'react';
+import { CanvasTarget, TargetUnit } from '../constants';
+import { registerCanvasTarget } from '../targets';
+
+interface CustomTargetFormProps {
+  onRegister: (target: CanvasTarget) => void;
+}
+
+const UNITS: TargetUnit[] = ['mm', 'in', 'px'];
+
+/**
+ * Turns a display name into a filename/id friendly slug
+ */
+function slugify(name: string): string {
+  return name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export function CustomTargetForm({ onRegister }: CustomTargetFormProps) {
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState<number>(100);
+  const [height, setHeight] = useState<number>(150);
+  const [unit, setUnit] = useState<TargetUnit>('mm');
+  const [dpi, setDpi] = useState<number>(300);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+
+    const slug = slugify(name);
+    if (!slug) {
+      setError('Please enter a name');
+      return;
+    }
+
+    try {
+      const target = registerCanvasTarget({
+        id: `custom-${slug}`,
+        name: name.trim(),
+        description: `Custom size (${width}×${height}${unit})`,
+        category: 'custom',
+        icon: Math.abs(width - height) < 0.01 ? 'square' : 'photo',
+        width,
+        height,
+        unit,
+        dpi: unit === 'px' ? 72 : dpi,
+        supportsOrientation: unit !== 'px',
+        filenameSuffix: slug,
+      });
+      setError(null);
+      setName('');
+      onRegister(target);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add custom size');
+    }
+  }, [name, width, height, unit, dpi, onRegister]);
+
+  return (
+    <form className="resize-controls-simple custom-target-form" onSubmit={handleSubmit}>
+      <p className="helper-text">Add a custom size:</p>
+
+      <div className="dimension-field">
+        <label htmlFor="custom-target-name">Name:</label>
+        <input
+          id="custom-target-name"
+          type="text"
+          value={name}
+          placeholder="My frame"
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="dimension-field">
+        <label htmlFor="custom-target-width">Width:</label>
+        <input
+          id="custom-target-width"
+          type="number"
+          min="0"
+          step="any"
+          value={width}
+          onChange={(e) => setWidth(parseFloat(e.target.value) || 0)}
+        />
+      </div>
+
+      <div className="dimension-field">
+        <label htmlFor="custom-target-height">Height:</label>
+        <input
+          id="custom-target-height"
+          type="number"
+          min="0"
+          step="any"
+          value={height}
+          onChange={(e) => setHeight(parseFloat(e.target.value) || 0)}
+        />
+      </div>
+
+      <div className="format-toggle-btns">
+        {UNITS.map((u) => (
+          <button
+            key={u}
+            type="button"
+            className={`format-toggle-btn ${unit === u ? 'active' : ''}`}
+            aria-pressed={unit === u}
+            onClick={() => setUnit(u)}
+          >
+            {u}
+          </button>
+        ))}
+      </div>
+
+      {unit !== 'px' && (
+        <div className="dimension-field">
+          <label htmlFor="custom-target-dpi">DPI:</label>
+          <input
+            id="custom-target-dpi"
+            type="number"
+            min="1"
+            value={dpi}
+            onChange={(e) => setDpi(parseInt(e.target.value) || 0)}
+          />
+        </div>
+      )}
+
+      {error && <p className="format-hint custom-target-error" role="alert">{error}</p>}
+
+      <button type="submit" className="aspect-btn-new">
+        Add size
+      </button>
+    </form>
+  );
+}
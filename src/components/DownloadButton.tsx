@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react';
-import { ProcessingResult, ExportFormat, exportCanvas, downloadBlob, generateFilename } from '../processor';
-import { OUTPUT_FORMATS } from '../constants';
+import { ProcessingResult, ExportFormat, exportCanvas, downloadBlob, generateFilename, getPageSize } from '../processor';
+import { getCanvasTarget } from '../targets';
 
 interface DownloadButtonProps {
   result: ProcessingResult | null;
@@ -16,7 +16,11 @@ export function DownloadButton({ result, originalFilename }: DownloadButtonProps
 
     setIsExporting(true);
     try {
-      const blob = await exportCanvas(result.canvas, format);
+      const page = getPageSize(result.outputFormat, result.orientation, result.canvasWidth, result.canvasHeight);
+      const blob = await exportCanvas(result.canvas, format, {
+        page,
+        dpi: getCanvasTarget(result.outputFormat).dpi,
+      });
       const filename = generateFilename(originalFilename, format, result.outputFormat);
       downloadBlob(blob, filename);
     } catch (error) {
@@ -30,7 +34,7 @@ export function DownloadButton({ result, originalFilename }: DownloadButtonProps
     return null;
   }
 
-  const formatName = OUTPUT_FORMATS[result.outputFormat].name;
+  const formatName = getCanvasTarget(result.outputFormat).name;
 
   return (
     <div className="download-section">
@@ -39,6 +43,7 @@ export function DownloadButton({ result, originalFilename }: DownloadButtonProps
         <div className="format-options">
           <button
             className={`format-btn ${format === 'png' ? 'active' : ''}`}
+            aria-pressed={format === 'png'}
             onClick={() => setFormat('png')}
           >
             PNG
@@ -46,11 +51,20 @@ export function DownloadButton({ result, originalFilename }: DownloadButtonProps
           </button>
           <button
             className={`format-btn ${format === 'jpeg' ? 'active' : ''}`}
+            aria-pressed={format === 'jpeg'}
             onClick={() => setFormat('jpeg')}
           >
             JPEG
             <span className="format-hint">Smaller file, slight quality loss</span>
           </button>
+          <button
+            className={`format-btn ${format === 'pdf' ? 'active' : ''}`}
+            aria-pressed={format === 'pdf'}
+            onClick={() => setFormat('pdf')}
+          >
+            PDF
+            <span className="format-hint">Exact page size, ready to print</span>
+          </button>
         </div>
       </div>
 
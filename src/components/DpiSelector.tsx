@@ -0,0 +1,37 @@
+import { DPI_OPTIONS } from '../constants';
+
+interface DpiSelectorProps {
+  dpi: number;
+  width: number;   // Output size in pixels, used for the print size hint
+  height: number;
+  onChange: (dpi: number) => void;
+}
+
+/**
+ * Picks the density written into the exported file and shows the resulting print size
+ */
+export function DpiSelector({ dpi, width, height, onChange }: DpiSelectorProps) {
+  const widthIn = (width / dpi).toFixed(1);
+  const heightIn = (height / dpi).toFixed(1);
+
+  return (
+    <div className="resize-controls-simple">
+      <p className="helper-text">Print resolution:</p>
+      <div className="quick-size-btns">
+        {DPI_OPTIONS.map((option) => (
+          <button
+            key={option}
+            className={dpi === option ? 'active' : ''}
+            aria-pressed={dpi === option}
+            onClick={() => onChange(option)}
+          >
+            {option} DPI
+          </button>
+        ))}
+      </div>
+      {width > 0 && height > 0 && (
+        <p className="format-hint">Prints at {widthIn} × {heightIn} in</p>
+      )}
+    </div>
+  );
+}
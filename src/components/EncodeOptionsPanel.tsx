@@ -0,0 +1,125 @@
+import { JPEG_QUALITY } from '../constants';
+import { PipelineOutput } from '../utils/pipeline';
+
+interface EncodeOptionsPanelProps {
+  output: PipelineOutput;
+  onChange: (output: PipelineOutput) => void;
+}
+
+type EncodeFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+const FORMATS: { mimeType: EncodeFormat; label: string }[] = [
+  { mimeType: 'image/jpeg', label: 'JPEG' },
+  { mimeType: 'image/webp', label: 'WebP' },
+  { mimeType: 'image/png', label: 'PNG' },
+];
+
+const QUICK_SIZES_KB = [100, 250, 500, 1000];
+
+const DEFAULT_TARGET_KB = 500;
+
+/**
+ * Final encode settings: format, then quality or a target file size for lossy formats
+ */
+export function EncodeOptionsPanel({ output, onChange }: EncodeOptionsPanelProps) {
+  const targetKB = output.type === 'target-size' ? Math.round(output.targetBytes / 1024) : DEFAULT_TARGET_KB;
+  const quality = output.type === 'blob' ? output.quality ?? JPEG_QUALITY : JPEG_QUALITY;
+
+  const handleFormatChange = (mimeType: EncodeFormat) => {
+    if (mimeType === 'image/png') {
+      onChange({ type: 'blob', mimeType });
+    } else if (output.type === 'target-size') {
+      onChange({ ...output, mimeType });
+    } else {
+      onChange({ type: 'blob', mimeType, quality });
+    }
+  };
+
+  return (
+    <div className="resize-controls-simple">
+      <p className="helper-text">Save as:</p>
+      <div className="format-toggle-btns">
+        {FORMATS.map(({ mimeType, label }) => (
+          <button
+            key={mimeType}
+            className={`format-toggle-btn ${output.mimeType === mimeType ? 'active' : ''}`}
+            aria-pressed={output.mimeType === mimeType}
+            onClick={() => handleFormatChange(mimeType)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {output.mimeType === 'image/png' ? (
+        <p className="format-hint">Lossless quality, larger file size</p>
+      ) : (
+        <>
+          <div className="format-toggle-btns">
+            <button
+              className={`format-toggle-btn ${output.type === 'blob' ? 'active' : ''}`}
+              aria-pressed={output.type === 'blob'}
+              onClick={() => onChange({ type: 'blob', mimeType: output.mimeType, quality })}
+            >
+              By quality
+            </button>
+            <button
+              className={`format-toggle-btn ${output.type === 'target-size' ? 'active' : ''}`}
+              aria-pressed={output.type === 'target-size'}
+              onClick={() => onChange({
+                type: 'target-size',
+                mimeType: output.mimeType as 'image/jpeg' | 'image/webp',
+                targetBytes: targetKB * 1024,
+              })}
+            >
+              By file size
+            </button>
+          </div>
+
+          {output.type === 'blob' ? (
+            <div className="quality-slider-container">
+              <div className="quality-value-display">{Math.round(quality * 100)}%</div>
+              <input
+                type="range"
+                min="10"
+                max="100"
+                value={Math.round(quality * 100)}
+                onChange={(e) => onChange({ ...output, quality: parseInt(e.target.value) / 100 })}
+                className="quality-slider-large"
+              />
+              <div className="slider-labels">
+                <span>Smaller file</span>
+                <span>Higher quality</span>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="target-size-field">
+                <input
+                  type="number"
+                  value={targetKB}
+                  onChange={(e) => onChange({ ...output, targetBytes: (parseInt(e.target.value) || 100) * 1024 })}
+                  min="10"
+                  max="10000"
+                />
+                <span className="unit">KB</span>
+              </div>
+              <div className="quick-size-btns">
+                {QUICK_SIZES_KB.map((size) => (
+                  <button
+                    key={size}
+                    className={targetKB === size ? 'active' : ''}
+                    aria-pressed={targetKB === size}
+                    onClick={() => onChange({ ...output, targetBytes: size * 1024 })}
+                  >
+                    {size >= 1000 ? `${size / 1000} MB` : `${size} KB`}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,37 @@
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useId, useRef, useState } from 'react';
 import { SUPPORTED_FORMATS, MAX_FILE_SIZE, MAX_FILE_SIZE_DISPLAY } from '../constants';
+import { LoadOptions } from '../processor';
+import { readImageDimensions, isOverMemoryBudget, getMaxSafePixels, estimateMemoryUsage, fitToPixelCount } from '../utils/memory';
+import { formatFileSize } from '../utils/format';
+import { clickOnActivateKey } from '../utils/a11y';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect?: (file: File, options: LoadOptions) => void;
+  onFilesSelect?: (files: File[], options: LoadOptions) => void;  // Used instead of onFileSelect when `multiple` is set
+  multiple?: boolean;
   disabled?: boolean;
+  tiled?: boolean;   // The page processes oversize images in tiles (resizing does; other steps need the whole image)
+}
+
+interface LargeImage {
+  file: File;
+  width: number | null;   // Null when the header could not be read
+  height: number | null;
+}
+
+/**
+ * Returns the file if decoding it at full size may exceed the memory budget
+ */
+async function findLargeImage(file: File): Promise<LargeImage | null> {
+  const size = await readImageDimensions(file);
+  if (size) {
+    return isOverMemoryBudget(size.width, size.height) ? { file, ...size } : null;
+  }
+  return file.size > MAX_FILE_SIZE ? { file, width: null, height: null } : null;
+}
+
+function formatMegapixels(pixels: number): string {
+  return `${(pixels / 1e6).toFixed(pixels < 1e7 ? 1 : 0)} MP`;
 }
 
 // File extensions to accept (including HEIC which browsers may not recognize by MIME type)
@@ -22,21 +50,43 @@ function isSupportedFormat(file: File): boolean {
   return ACCEPTED_EXTENSIONS.includes(extension);
 }
 
-export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
+export function FileUpload({ onFileSelect, onFilesSelect, multiple, disabled, tiled = false }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Files waiting for the downscale / full size decision
+  const [pending, setPending] = useState<{ files: File[]; large: LargeImage[] } | null>(null);
+  // Read out by screen readers once files are accepted
+  const [announcement, setAnnouncement] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
+  const hintId = useId();
 
   const validateFile = useCallback((file: File): string | null => {
     if (!isSupportedFormat(file)) {
       return 'Unsupported format. Please use JPG, PNG, WebP, or HEIC';
     }
-    if (file.size > MAX_FILE_SIZE) {
-      return `File too large. Maximum size is ${MAX_FILE_SIZE_DISPLAY}`;
-    }
     return null;
   }, []);
 
+  const deliver = useCallback((files: File[], options: LoadOptions) => {
+    setPending(null);
+    setAnnouncement(files.length === 1 ? `${files[0].name} selected` : `${files.length} images selected`);
+    if (multiple && onFilesSelect) {
+      onFilesSelect(files, options);
+    } else {
+      onFileSelect?.(files[0], options);
+    }
+  }, [multiple, onFilesSelect, onFileSelect]);
+
+  // Large images wait for the user's choice; the rest go straight through
+  const checkAndDeliver = useCallback(async (files: File[]) => {
+    const large = (await Promise.all(files.map(findLargeImage))).filter((item): item is LargeImage => item !== null);
+    if (large.length > 0) {
+      setPending({ files, large });
+    } else {
+      deliver(files, {});
+    }
+  }, [deliver]);
+
   const handleFile = useCallback((file: File) => {
     const validationError = validateFile(file);
     if (validationError) {
@@ -44,8 +94,32 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
       return;
     }
     setError(null);
-    onFileSelect(file);
-  }, [onFileSelect, validateFile]);
+    checkAndDeliver([file]);
+  }, [validateFile, checkAndDeliver]);
+
+  const handleFiles = useCallback((fileList: FileList) => {
+    if (!multiple || !onFilesSelect) {
+      handleFile(fileList[0]);
+      return;
+    }
+
+    // Keep the valid files, report the first problem
+    const valid: File[] = [];
+    let firstError: string | null = null;
+    for (const file of Array.from(fileList)) {
+      const validationError = validateFile(file);
+      if (validationError) {
+        firstError = firstError ?? `${file.name}: ${validationError}`;
+      } else {
+        valid.push(file);
+      }
+    }
+
+    setError(firstError);
+    if (valid.length > 0) {
+      checkAndDeliver(valid);
+    }
+  }, [multiple, onFilesSelect, handleFile, validateFile, checkAndDeliver]);
 
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -73,20 +147,20 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
 
     const files = e.dataTransfer.files;
     if (files.length > 0) {
-      handleFile(files[0]);
+      handleFiles(files);
     }
-  }, [disabled, handleFile]);
+  }, [disabled, handleFiles]);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      handleFile(files[0]);
+      handleFiles(files);
     }
     // Reset input so same file can be selected again
     if (inputRef.current) {
       inputRef.current.value = '';
     }
-  }, [handleFile]);
+  }, [handleFiles]);
 
   const handleClick = useCallback(() => {
     if (!disabled) {
@@ -94,12 +168,6 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
     }
   }, [disabled]);
 
-  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if ((e.key === 'Enter' || e.key === ' ') && !disabled) {
-      inputRef.current?.click();
-    }
-  }, [disabled]);
-
   return (
     <div className="file-upload-container">
       <div
@@ -109,16 +177,19 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
         onDragOver={handleDragOver}
         onDrop={handleDrop}
         onClick={handleClick}
-        onKeyDown={handleKeyDown}
+        onKeyDown={clickOnActivateKey}
         role="button"
         tabIndex={disabled ? -1 : 0}
-        aria-label="Upload image"
+        aria-label={multiple ? 'Upload images' : 'Upload image'}
+        aria-describedby={hintId}
+        aria-disabled={disabled}
       >
         <input
           ref={inputRef}
           type="file"
           accept={[...SUPPORTED_FORMATS, '.heic', '.heif'].join(',')}
           onChange={handleInputChange}
+          multiple={multiple}
           className="file-input"
           disabled={disabled}
         />
@@ -133,14 +204,28 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
 
         <div className="upload-text">
           <p className="upload-title">
-            {isDragging ? 'Drop your image here' : 'Drop your image here or click to browse'}
+            {multiple
+              ? (isDragging ? 'Drop your images here' : 'Drop your images here or click to browse')
+              : (isDragging ? 'Drop your image here' : 'Drop your image here or click to browse')}
           </p>
-          <p className="upload-subtitle">
-            Supports JPG, PNG, WebP, HEIC up to {MAX_FILE_SIZE_DISPLAY}
+          <p id={hintId} className="upload-subtitle">
+            Supports JPG, PNG, WebP, HEIC. Very large photos can be downscaled on upload
           </p>
         </div>
       </div>
 
+      <p className="visually-hidden" aria-live="polite">{announcement}</p>
+
+      {pending && (
+        <LargeImagePrompt
+          large={pending.large}
+          onDownscale={() => deliver(pending.files, { maxPixels: getMaxSafePixels() })}
+          onKeep={() => deliver(pending.files, {})}
+          tiled={tiled}
+          onCancel={() => setPending(null)}
+        />
+      )}
+
       {error && (
         <div className="upload-error" role="alert">
           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -154,3 +239,47 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
     </div>
   );
 }
+
+interface LargeImagePromptProps {
+  large: LargeImage[];
+  onDownscale: () => void;
+  onKeep: () => void;
+  onCancel: () => void;
+  tiled: boolean;
+}
+
+/**
+ * Explains why an upload is risky and offers downscaling instead of a crash
+ */
+function LargeImagePrompt({ large, onDownscale, onKeep, onCancel, tiled }: LargeImagePromptProps) {
+  const [first] = large;
+  const known = first.width !== null && first.height !== null;
+  const safe = known ? fitToPixelCount(first.width!, first.height!, getMaxSafePixels()) : null;
+
+  return (
+    <div className="large-image-prompt" role="alertdialog" aria-labelledby="large-image-title">
+      <p id="large-image-title" className="large-image-title">
+        {large.length === 1 ? 'This image is very large' : `${large.length} images are very large`}
+      </p>
+      <p className="format-hint">
+        {known
+          ? `${first.file.name} is ${formatMegapixels(first.width! * first.height!)} and needs about ${formatFileSize(estimateMemoryUsage(first.width!, first.height!))} of memory to edit.`
+          : `${first.file.name} is over ${MAX_FILE_SIZE_DISPLAY}.`}
+        {' '}Phones and tablets may run out of memory and reload the page.
+      </p>
+      <div className="large-image-actions">
+        <button className="big-download-btn" onClick={onDownscale}>
+          {safe
+            ? `Downscale to ${safe.width} × ${safe.height} (recommended)`
+            : `Downscale to ${formatMegapixels(getMaxSafePixels())} (recommended)`}
+        </button>
+        <button className="format-toggle-btn" onClick={onKeep}>
+          {tiled ? 'Keep full size (slower, resized in tiles)' : 'Keep full size (may run out of memory on phones)'}
+        </button>
+        <button className="reset-link" onClick={onCancel}>
+          Choose a different file
+        </button>
+      </div>
+    </div>
+  );
+}
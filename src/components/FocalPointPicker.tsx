@@ -0,0 +1,115 @@
+import { useState, useCallback, useMemo, ReactNode } from 'react';
+import { FocalPoint, ProcessingResult, Rect } from '../processor';
+import { createThumbnail } from '../utils/thumbnail';
+
+interface FocalPointPickerProps {
+  image: HTMLImageElement;
+  result: ProcessingResult;   // A 'cover' fit of the image
+  onChange: (focalPoint: FocalPoint) => void;
+  children: ReactNode;        // The fitted preview
+}
+
+interface Drag {
+  pointerX: number;
+  pointerY: number;
+  sourceX: number;   // Top-left of the visible window in source pixels
+  sourceY: number;
+}
+
+// Long edge of the image shown while dragging
+const DRAG_PREVIEW_SIZE = 800;
+
+function toPercent(value: number, total: number): string {
+  return `${(value / total) * 100}%`;
+}
+
+/**
+ * Makes the fitted preview draggable: dragging pans the image inside the frame,
+ * and the centre of the new window is committed as the focal point on release.
+ */
+export function FocalPointPicker({ image, result, onChange, children }: FocalPointPickerProps) {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [offset, setOffset] = useState<{ x: number; y: number } | null>(null);   // Window while dragging
+  const { sourceRect, scale, layout, originalWidth, originalHeight } = result;
+
+  const thumbnail = useMemo(() => createThumbnail(image, DRAG_PREVIEW_SIZE), [image]);
+
+  // Same area processImage fills in cover mode
+  const area: Rect = layout.printableRect.width < layout.trimRect.width ? layout.printableRect : layout.bleedRect;
+
+  // Visible window after moving the pointer, clamped to the image
+  const windowAt = useCallback((start: Drag, e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const sourcePerPixel = result.canvasWidth / bounds.width / scale;
+    return {
+      x: Math.max(0, Math.min(originalWidth - sourceRect.width, start.sourceX - (e.clientX - start.pointerX) * sourcePerPixel)),
+      y: Math.max(0, Math.min(originalHeight - sourceRect.height, start.sourceY - (e.clientY - start.pointerY) * sourcePerPixel)),
+    };
+  }, [result.canvasWidth, scale, originalWidth, originalHeight, sourceRect.width, sourceRect.height]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ pointerX: e.clientX, pointerY: e.clientY, sourceX: sourceRect.x, sourceY: sourceRect.y });
+  }, [sourceRect.x, sourceRect.y]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    setOffset(windowAt(drag, e));
+  }, [drag, windowAt]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    const { x, y } = windowAt(drag, e);
+    setDrag(null);
+    setOffset(null);
+    if (x !== sourceRect.x || y !== sourceRect.y) {
+      onChange({
+        x: (x + sourceRect.width / 2) / originalWidth,
+        y: (y + sourceRect.height / 2) / originalHeight,
+      });
+    }
+  }, [drag, windowAt, sourceRect, originalWidth, originalHeight, onChange]);
+
+  const handlePointerCancel = useCallback(() => {
+    setDrag(null);
+    setOffset(null);
+  }, []);
+
+  return (
+    <div
+      className={`focal-drag ${drag ? 'dragging' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      title="Drag to choose what stays in frame"
+    >
+      {children}
+
+      {offset && (
+        <div
+          className="focal-drag-area"
+          style={{
+            left: toPercent(area.x, result.canvasWidth),
+            top: toPercent(area.y, result.canvasHeight),
+            width: toPercent(area.width, result.canvasWidth),
+            height: toPercent(area.height, result.canvasHeight),
+          }}
+        >
+          <div
+            className="focal-drag-image"
+            style={{
+              backgroundImage: `url(${thumbnail})`,
+              left: toPercent(-offset.x * scale, area.width),
+              top: toPercent(-offset.y * scale, area.height),
+              width: toPercent(originalWidth * scale, area.width),
+              height: toPercent(originalHeight * scale, area.height),
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
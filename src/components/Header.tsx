@@ -37,6 +37,43 @@ const NAV_ITEMS: NavItem[] = [
       </svg>
     ),
   },
+  {
+    path: '/passport-photo',
+    label: 'Passport',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="4" y="2" width="16" height="20" rx="2" />
+        <circle cx="12" cy="10" r="3" />
+        <path d="M7 18c0-2.5 2-4 5-4s5 1.5 5 4" />
+      </svg>
+    ),
+  },
+  {
+    path: '/images-to-pdf',
+    label: 'PDF',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+        <polyline points="14 2 14 8 20 8" />
+        <line x1="8" y1="13" x2="16" y2="13" />
+        <line x1="8" y1="17" x2="13" y2="17" />
+      </svg>
+    ),
+  },
+  {
+    path: '/editor',
+    label: 'Editor',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="4" y1="6" x2="20" y2="6" />
+        <line x1="4" y1="12" x2="20" y2="12" />
+        <line x1="4" y1="18" x2="20" y2="18" />
+        <circle cx="9" cy="6" r="2" fill="currentColor" />
+        <circle cx="15" cy="12" r="2" fill="currentColor" />
+        <circle cx="7" cy="18" r="2" fill="currentColor" />
+      </svg>
+    ),
+  },
   {
     path: '/compress-image',
     label: 'Compress',
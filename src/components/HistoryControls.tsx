@@ -0,0 +1,53 @@
+import { History } from '../hooks/useHistory';
+
+interface HistoryControlsProps {
+  history: Pick<History<unknown>, 'canUndo' | 'canRedo' | 'canReset' | 'undo' | 'redo' | 'reset'>;
+  resetLabel?: string;
+}
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MODIFIER = IS_MAC ? '⌘' : 'Ctrl+';
+const REDO_MODIFIER = IS_MAC ? '⇧⌘' : 'Ctrl+Shift+';
+
+/**
+ * Undo / redo / reset toolbar for a page using `useHistory`
+ */
+export function HistoryControls({ history, resetLabel = 'Reset' }: HistoryControlsProps) {
+  return (
+    <div className="history-toolbar" role="toolbar" aria-label="Edit history">
+      <button
+        className="history-btn"
+        onClick={history.undo}
+        disabled={!history.canUndo}
+        title={`Undo (${MODIFIER}Z)`}
+        aria-label="Undo"
+      >
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <polyline points="9 14 4 9 9 4" />
+          <path d="M20 20v-7a4 4 0 0 0-4-4H4" />
+        </svg>
+        <span>Undo</span>
+      </button>
+      <button
+        className="history-btn"
+        onClick={history.redo}
+        disabled={!history.canRedo}
+        title={`Redo (${REDO_MODIFIER}Z)`}
+        aria-label="Redo"
+      >
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <polyline points="15 14 20 9 15 4" />
+          <path d="M4 20v-7a4 4 0 0 1 4-4h12" />
+        </svg>
+        <span>Redo</span>
+      </button>
+      <button
+        className="history-btn"
+        onClick={history.reset}
+        disabled={!history.canReset}
+      >
+        {resetLabel}
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { ProcessingResult, Orientation } from '../processor';
-import { A4, OutputFormat, OUTPUT_FORMATS } from '../constants';
+import { ProcessingResult, Orientation, getEffectiveDPI } from '../processor';
+import { OutputFormat, MIN_PRINT_DPI } from '../constants';
+import { getCanvasTarget, listCanvasTargets } from '../targets';
 
 interface ImagePreviewProps {
   result: ProcessingResult | null;
@@ -49,11 +50,12 @@ export function ImagePreview({
   }
 
   const { canvas, originalWidth, originalHeight, scaledWidth, scaledHeight, scale, orientation, outputFormat, canvasWidth, canvasHeight } = result;
-  const supportsOrientation = OUTPUT_FORMATS[outputFormat].supportsOrientation;
+  const target = getCanvasTarget(outputFormat);
+  const supportsOrientation = target.supportsOrientation;
 
-  // Calculate effective DPI based on scaling (only relevant for A4)
-  const effectiveDPI = Math.round(A4.DPI * scale);
-  const dpiWarning = outputFormat === 'a4' && effectiveDPI < 150;
+  // Calculate effective DPI based on scaling (only relevant for print targets)
+  const effectiveDPI = getEffectiveDPI(outputFormat, scale);
+  const dpiWarning = target.unit !== 'px' && effectiveDPI < MIN_PRINT_DPI;
 
   return (
     <div className="preview-container">
@@ -61,32 +63,23 @@ export function ImagePreview({
         <h3>Preview</h3>
         <div className="preview-controls">
           <div className="output-format-toggle">
-            <button
-              className={`toggle-btn ${outputFormat === 'whatsapp-dp' ? 'active' : ''}`}
-              onClick={() => onOutputFormatChange('whatsapp-dp')}
-              title="WhatsApp DP"
+            <select
+              className="toggle-select"
+              value={outputFormat}
+              onChange={(e) => onOutputFormatChange(e.target.value)}
+              aria-label="Output format"
             >
-              <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
-                <rect x="1" y="1" width="14" height="14" rx="7" stroke="currentColor" strokeWidth="1.5" fill="none" />
-              </svg>
-              WhatsApp
-            </button>
-            <button
-              className={`toggle-btn ${outputFormat === 'a4' ? 'active' : ''}`}
-              onClick={() => onOutputFormatChange('a4')}
-              title="A4 Paper"
-            >
-              <svg width="14" height="18" viewBox="0 0 14 18" fill="currentColor">
-                <rect x="1" y="1" width="12" height="16" rx="1" stroke="currentColor" strokeWidth="1.5" fill="none" />
-              </svg>
-              A4
-            </button>
+              {listCanvasTargets().map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
           </div>
 
           {supportsOrientation && (
             <div className="orientation-toggle">
               <button
                 className={`toggle-btn ${orientation === 'portrait' ? 'active' : ''}`}
+                aria-pressed={orientation === 'portrait'}
                 onClick={() => onOrientationChange('portrait')}
                 title="Portrait orientation"
               >
@@ -97,6 +90,7 @@ export function ImagePreview({
               </button>
               <button
                 className={`toggle-btn ${orientation === 'landscape' ? 'active' : ''}`}
+                aria-pressed={orientation === 'landscape'}
                 onClick={() => onOrientationChange('landscape')}
                 title="Landscape orientation"
               >
@@ -112,7 +106,7 @@ export function ImagePreview({
 
       <div className="preview-canvas-wrapper">
         <div
-          className={`preview-canvas ${outputFormat === 'whatsapp-dp' ? 'square' : orientation}`}
+          className={`preview-canvas ${canvasWidth === canvasHeight ? 'square' : orientation}`}
           style={{
             aspectRatio: `${canvasWidth} / ${canvasHeight}`,
           }}
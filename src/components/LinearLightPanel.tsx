@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { ResampleKernel } from '../constants';
+import { getSourceSize } from '../utils/canvas';
+import { ProcessingSource, runJob } from '../utils/processing';
+
+interface LinearLightPanelProps {
+  source: ProcessingSource;
+  scale: number;                // Output pixels per source pixel
+  kernel: ResampleKernel;
+  colorSpace?: PredefinedColorSpace;
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+// Output pixels shown on each side of the comparison
+const DETAIL_SIZE = 120;
+
+/**
+ * Chooses between resizing on sRGB values and in linear light,
+ * with an A/B view of the centre of the image at the output scale
+ */
+export function LinearLightPanel({ source, scale, kernel, colorSpace, enabled, onChange }: LinearLightPanelProps) {
+  const [details, setDetails] = useState<{ standard: string; linear: string } | null>(null);
+
+  const isDownscaling = scale < 1;
+
+  useEffect(() => {
+    if (!isDownscaling) {
+      setDetails(null);
+      return;
+    }
+
+    // Source region that becomes the detail, centred
+    const { width, height } = getSourceSize(source);
+    const cropWidth = Math.min(width, Math.round(DETAIL_SIZE / scale));
+    const cropHeight = Math.min(height, Math.round(DETAIL_SIZE / scale));
+    const rect = {
+      x: Math.floor((width - cropWidth) / 2),
+      y: Math.floor((height - cropHeight) / 2),
+      width: cropWidth,
+      height: cropHeight,
+    };
+    const outWidth = Math.max(1, Math.round(cropWidth * scale));
+    const outHeight = Math.max(1, Math.round(cropHeight * scale));
+
+    const renderDetail = async (linearLight: boolean) => {
+      const { blob } = await runJob(source, {
+        operations: [
+          { type: 'crop', rect, rotation: 0 },
+          { type: 'resize', width: outWidth, height: outHeight, kernel, linearLight },
+        ],
+        output: { type: 'blob', mimeType: 'image/png' },
+        colorSpace,
+      });
+      return URL.createObjectURL(blob!);
+    };
+
+    let cancelled = false;
+    const urls: string[] = [];
+    Promise.all([renderDetail(false), renderDetail(true)])
+      .then(([standard, linear]) => {
+        urls.push(standard, linear);
+        if (!cancelled) {
+          setDetails({ standard, linear });
+        }
+      })
+      .catch((err) => console.error('Comparison error:', err));
+
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [source, scale, kernel, colorSpace, isDownscaling]);
+
+  return (
+    <div className="resize-controls-simple">
+      <p className="helper-text">Downscaling:</p>
+      <div className="format-toggle-btns">
+        <button
+          className={`format-toggle-btn ${!enabled ? 'active' : ''}`}
+          aria-pressed={!enabled}
+          onClick={() => onChange(false)}
+        >
+          Standard
+        </button>
+        <button
+          className={`format-toggle-btn ${enabled ? 'active' : ''}`}
+          aria-pressed={enabled}
+          onClick={() => onChange(true)}
+        >
+          Linear light
+        </button>
+      </div>
+      <p className="format-hint">
+        {enabled
+          ? 'Gamma-correct: thin lines and fine detail keep their brightness'
+          : 'Averages sRGB values; fine detail can come out darker'}
+      </p>
+
+      {details && (
+        <div className="linear-light-compare">
+          <figure className={!enabled ? 'active' : ''}>
+            <img src={details.standard} alt="Detail resized on sRGB values" />
+            <figcaption>A · Standard</figcaption>
+          </figure>
+          <figure className={enabled ? 'active' : ''}>
+            <img src={details.linear} alt="Detail resized in linear light" />
+            <figcaption>B · Linear light</figcaption>
+          </figure>
+        </div>
+      )}
+    </div>
+  );
+}
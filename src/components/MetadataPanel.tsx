@@ -0,0 +1,81 @@
+import { ImageMetadata, MetadataGroup, MetadataMode } from '../utils/metadata';
+
+interface MetadataPanelProps {
+  metadata: ImageMetadata;
+  mode: MetadataMode;
+  onModeChange: (mode: MetadataMode) => void;
+}
+
+const GROUP_ORDER: MetadataGroup[] = ['Camera', 'Capture', 'Location', 'Image', 'Author'];
+
+const MODES: Array<{ id: MetadataMode; label: string }> = [
+  { id: 'strip', label: 'Strip all' },
+  { id: 'keep-no-gps', label: 'Keep, no GPS' },
+  { id: 'keep', label: 'Keep all' },
+];
+
+/**
+ * Lists what the source photo carries and picks what the export keeps
+ */
+export function MetadataPanel({ metadata, mode, onModeChange }: MetadataPanelProps) {
+  const hasMetadata = !!(metadata.exif || metadata.xmp || metadata.iptc);
+
+  if (!hasMetadata) {
+    return (
+      <div className="resize-controls-simple">
+        <p className="helper-text">Metadata:</p>
+        <p className="format-hint">No EXIF, XMP or IPTC data in this image.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="resize-controls-simple">
+      <p className="helper-text">Metadata:</p>
+
+      <details className="metadata-details">
+        <summary>
+          {metadata.tags.length} tags
+          {metadata.hasGps && <span className="metadata-gps-badge">Contains location</span>}
+        </summary>
+        <dl className="metadata-list">
+          {GROUP_ORDER.map((group) => {
+            const tags = metadata.tags.filter((tag) => tag.group === group);
+            if (tags.length === 0) return null;
+            return (
+              <div key={group} className="metadata-group">
+                <span className="category-name">{group}</span>
+                {tags.map((tag) => (
+                  <div key={`${tag.name}-${tag.value}`} className="metadata-row">
+                    <dt>{tag.name}</dt>
+                    <dd>{tag.value}</dd>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </dl>
+      </details>
+
+      <div className="format-toggle-btns">
+        {MODES.map((option) => (
+          <button
+            key={option.id}
+            className={`format-toggle-btn ${mode === option.id ? 'active' : ''}`}
+            aria-pressed={mode === option.id}
+            onClick={() => onModeChange(option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="format-hint">
+        {mode === 'strip'
+          ? 'The download carries no camera, date or location data'
+          : mode === 'keep-no-gps'
+            ? 'Camera and date are kept; the location is removed'
+            : 'Everything is kept, including the location'}
+      </p>
+    </div>
+  );
+}
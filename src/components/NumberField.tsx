@@ -0,0 +1,45 @@
+import { useState, InputHTMLAttributes } from 'react';
+
+interface NumberFieldProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'type' | 'value' | 'onChange'> {
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Number input that keeps what is typed as a draft and applies it on blur or Enter,
+ * so clearing the field to type a new value does not apply an empty or partial one.
+ * Escape drops the draft.
+ */
+export function NumberField({ value, onCommit, onBlur, onKeyDown, ...props }: NumberFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const apply = () => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    setDraft(null);
+    if (Number.isFinite(parsed) && parsed !== value) {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <input
+      {...props}
+      type="number"
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={(e) => {
+        apply();
+        onBlur?.(e);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          apply();
+        } else if (e.key === 'Escape') {
+          setDraft(null);
+        }
+        onKeyDown?.(e);
+      }}
+    />
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import {
+  ResampleKernel,
+  RESAMPLE_KERNELS,
+  DEFAULT_RESAMPLE_KERNEL,
+  FitMode,
+  FIT_MODES,
+  BackgroundMode,
+  BACKGROUND_MODES,
+  DEFAULT_PADDING_COLOR,
+  DEFAULT_GRADIENT,
+} from '../constants';
+import { Rect } from '../processor';
+import { getCanvasTarget, listCanvasTargets } from '../targets';
+import { Operation } from '../utils/operations';
+import { MAX_STRAIGHTEN_ANGLE } from '../utils/crop';
+import { SharpenPanel } from './SharpenPanel';
+import { clickOnActivateKey } from '../utils/a11y';
+
+interface OperationEditorProps {
+  operation: Operation;
+  onChange: (operation: Operation) => void;
+}
+
+const CROP_FIELDS: { key: keyof Rect; label: string }[] = [
+  { key: 'x', label: 'Left' },
+  { key: 'y', label: 'Top' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+];
+
+/**
+ * Settings for one step of an editor pipeline
+ */
+export function OperationEditor({ operation, onChange }: OperationEditorProps) {
+  const [keepAspect, setKeepAspect] = useState(true);
+
+  switch (operation.type) {
+    case 'crop': {
+      // Relative crops are edited in percent of the image at this step
+      const scale = operation.relative ? 100 : 1;
+      const unit = operation.relative ? '%' : 'px';
+      const update = (key: keyof Rect, value: number) => {
+        const rect = { ...operation.rect, [key]: Math.max(0, value) / scale };
+        if (operation.relative) {
+          rect.x = Math.min(rect.x, 0.99);
+          rect.y = Math.min(rect.y, 0.99);
+          rect.width = Math.min(rect.width, 1 - rect.x);
+          rect.height = Math.min(rect.height, 1 - rect.y);
+        }
+        onChange({ ...operation, rect });
+      };
+
+      return (
+        <div className="resize-controls-simple">
+          {CROP_FIELDS.map(({ key, label }) => (
+            <div className="dimension-field" key={key}>
+              <label>{label} ({unit}):</label>
+              <input
+                type="number"
+                min="0"
+                max={operation.relative ? 100 : undefined}
+                value={Math.round(operation.rect[key] * scale)}
+                onChange={(e) => update(key, parseFloat(e.target.value) || 0)}
+              />
+            </div>
+          ))}
+          <div className="dimension-field">
+            <label>Straighten (°):</label>
+            <input
+              type="number"
+              min={-MAX_STRAIGHTEN_ANGLE}
+              max={MAX_STRAIGHTEN_ANGLE}
+              step="0.1"
+              value={operation.straighten ?? 0}
+              onChange={(e) => {
+                const angle = Math.max(-MAX_STRAIGHTEN_ANGLE, Math.min(MAX_STRAIGHTEN_ANGLE, parseFloat(e.target.value) || 0));
+                onChange({ ...operation, straighten: angle });
+              }}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    case 'rotate':
+      return (
+        <div className="resize-controls-simple">
+          <div className="format-toggle-btns">
+            <button
+              className="format-toggle-btn"
+              onClick={() => onChange({ ...operation, degrees: (operation.degrees + 270) % 360 })}
+            >
+              ↺ Left
+            </button>
+            <button
+              className="format-toggle-btn"
+              onClick={() => onChange({ ...operation, degrees: (operation.degrees + 90) % 360 })}
+            >
+              ↻ Right
+            </button>
+          </div>
+          <p className="format-hint">Turned {operation.degrees}° clockwise</p>
+        </div>
+      );
+
+    case 'resize': {
+      const ratio = operation.height / operation.width;
+      const setWidth = (value: number) => {
+        const width = Math.max(1, Math.min(10000, value || 1));
+        onChange({ ...operation, width, height: keepAspect ? Math.max(1, Math.round(width * ratio)) : operation.height });
+      };
+      const setHeight = (value: number) => {
+        const height = Math.max(1, Math.min(10000, value || 1));
+        onChange({ ...operation, height, width: keepAspect ? Math.max(1, Math.round(height / ratio)) : operation.width });
+      };
+
+      return (
+        <div className="resize-controls-simple">
+          <div className="dimension-field">
+            <label>Width (px):</label>
+            <input type="number" value={operation.width} onChange={(e) => setWidth(parseInt(e.target.value))} />
+          </div>
+          <div className="dimension-field">
+            <label>Height (px):</label>
+            <input type="number" value={operation.height} onChange={(e) => setHeight(parseInt(e.target.value))} />
+          </div>
+          <label
+            className="checkbox-option"
+            onClick={() => setKeepAspect(!keepAspect)}
+            onKeyDown={clickOnActivateKey}
+            role="checkbox"
+            aria-checked={keepAspect}
+            tabIndex={0}
+          >
+            <span className={`checkbox ${keepAspect ? 'checked' : ''}`}>
+              {keepAspect && <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><polyline points="20 6 9 17 4 12" /></svg>}
+            </span>
+            <span>Maintain aspect ratio</span>
+          </label>
+          <select
+            className="toggle-select"
+            value={operation.kernel ?? DEFAULT_RESAMPLE_KERNEL}
+            onChange={(e) => onChange({ ...operation, kernel: e.target.value as ResampleKernel })}
+            aria-label="Resampling"
+          >
+            {(Object.keys(RESAMPLE_KERNELS) as ResampleKernel[]).map((key) => (
+              <option key={key} value={key}>{RESAMPLE_KERNELS[key].name}</option>
+            ))}
+          </select>
+          <label
+            className="checkbox-option"
+            onClick={() => onChange({ ...operation, linearLight: !operation.linearLight })}
+            onKeyDown={clickOnActivateKey}
+            role="checkbox"
+            aria-checked={operation.linearLight}
+            tabIndex={0}
+          >
+            <span className={`checkbox ${operation.linearLight ? 'checked' : ''}`}>
+              {operation.linearLight && <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><polyline points="20 6 9 17 4 12" /></svg>}
+            </span>
+            <span>Linear light (gamma-correct)</span>
+          </label>
+        </div>
+      );
+    }
+
+    case 'sharpen':
+      return <SharpenPanel options={operation.options} onChange={(options) => onChange({ ...operation, options })} />;
+
+    case 'fit': {
+      const fitMode = operation.options.fitMode ?? 'contain';
+      const background = operation.options.background;
+
+      return (
+        <div className="resize-controls-simple">
+          <select
+            className="toggle-select"
+            value={operation.target.id}
+            onChange={(e) => {
+              const target = getCanvasTarget(e.target.value);
+              onChange({ ...operation, target, options: { ...operation.options, outputFormat: target.id } });
+            }}
+            aria-label="Target size"
+          >
+            {listCanvasTargets().map((target) => (
+              <option key={target.id} value={target.id}>{target.name}</option>
+            ))}
+          </select>
+          <div className="aspect-grid">
+            {(Object.keys(FIT_MODES) as FitMode[]).map((mode) => (
+              <button
+                key={mode}
+                className={`aspect-btn-new ${fitMode === mode ? 'active' : ''}`}
+                aria-pressed={fitMode === mode}
+                onClick={() => onChange({ ...operation, options: { ...operation.options, fitMode: mode } })}
+                title={FIT_MODES[mode].description}
+              >
+                {FIT_MODES[mode].name}
+              </button>
+            ))}
+          </div>
+          {fitMode === 'contain' && (
+            <select
+              className="toggle-select"
+              value={background?.mode ?? 'blur'}
+              onChange={(e) => onChange({
+                ...operation,
+                options: {
+                  ...operation.options,
+                  background: {
+                    mode: e.target.value as BackgroundMode,
+                    color: background?.color ?? DEFAULT_PADDING_COLOR,
+                    gradient: background?.gradient ?? [DEFAULT_GRADIENT[0], DEFAULT_GRADIENT[1]],
+                  },
+                },
+              })}
+              aria-label="Background"
+            >
+              {(Object.keys(BACKGROUND_MODES) as BackgroundMode[]).map((mode) => (
+                <option key={mode} value={mode}>{BACKGROUND_MODES[mode].name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      );
+    }
+
+    case 'photo-sheet':
+      return <p className="format-hint">Photo sheets are laid out by the Passport Photo tool.</p>;
+  }
+}
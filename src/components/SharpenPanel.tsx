@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { SharpenOptions, SharpenPreset, SHARPEN_PRESETS, SHARPEN_LIMITS } from '../constants';
+import { findSharpenPreset } from '../utils/sharpen';
+
+interface SharpenPanelProps {
+  options: SharpenOptions;
+  onChange: (options: SharpenOptions) => void;
+}
+
+// Slider changes are held back until dragging pauses, so the preview is not re-rendered per pixel
+const SLIDER_DELAY_MS = 200;
+
+/**
+ * Unsharp mask settings: off / screen / print presets plus amount, radius and threshold sliders
+ */
+export function SharpenPanel({ options, onChange }: SharpenPanelProps) {
+  const [draft, setDraft] = useState<SharpenOptions>(options);
+
+  useEffect(() => {
+    setDraft(options);
+  }, [options]);
+
+  useEffect(() => {
+    if (draft === options) return;
+    const timeout = setTimeout(() => onChange(draft), SLIDER_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, options, onChange]);
+
+  const preset = findSharpenPreset(draft);
+
+  const handlePresetSelect = (key: SharpenPreset) => {
+    setDraft(SHARPEN_PRESETS[key].options);
+    onChange(SHARPEN_PRESETS[key].options);
+  };
+
+  return (
+    <div className="resize-controls-simple">
+      <p className="helper-text">Sharpening:</p>
+      <div className="aspect-grid">
+        {(Object.keys(SHARPEN_PRESETS) as SharpenPreset[]).map((key) => (
+          <button
+            key={key}
+            className={`aspect-btn-new ${preset === key ? 'active' : ''}`}
+            aria-pressed={preset === key}
+            onClick={() => handlePresetSelect(key)}
+          >
+            {SHARPEN_PRESETS[key].name}
+          </button>
+        ))}
+      </div>
+      <p className="format-hint">{preset ? SHARPEN_PRESETS[preset].description : 'Custom settings'}</p>
+
+      {draft.amount > 0 && (
+        <div className="sharpen-sliders">
+          <label className="sharpen-slider">
+            <span className="sharpen-slider-label">
+              Amount <strong>{draft.amount}%</strong>
+            </span>
+            <input
+              type="range"
+              min="1"
+              max={SHARPEN_LIMITS.AMOUNT_MAX}
+              value={draft.amount}
+              onChange={(e) => setDraft({ ...draft, amount: parseInt(e.target.value) })}
+              className="quality-slider-large"
+            />
+          </label>
+          <label className="sharpen-slider">
+            <span className="sharpen-slider-label">
+              Radius <strong>{draft.radius.toFixed(1)} px</strong>
+            </span>
+            <input
+              type="range"
+              min={SHARPEN_LIMITS.RADIUS_MIN}
+              max={SHARPEN_LIMITS.RADIUS_MAX}
+              step="0.1"
+              value={draft.radius}
+              onChange={(e) => setDraft({ ...draft, radius: parseFloat(e.target.value) })}
+              className="quality-slider-large"
+            />
+          </label>
+          <label className="sharpen-slider">
+            <span className="sharpen-slider-label">
+              Threshold <strong>{draft.threshold}</strong>
+            </span>
+            <input
+              type="range"
+              min="0"
+              max={SHARPEN_LIMITS.THRESHOLD_MAX}
+              value={draft.threshold}
+              onChange={(e) => setDraft({ ...draft, threshold: parseInt(e.target.value) })}
+              className="quality-slider-large"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Orientation, ExportFormat, BackgroundOptions, PrintOptions, exportCanvas, downloadBlob, generateFilename, getEffectiveDPI, getPageSize } from '../processor';
+import { OutputFormat, JPEG_QUALITY, SHEET_GRIDS, DEFAULT_SHEET_GUTTER_MM, MIN_PRINT_DPI } from '../constants';
+import { getCanvasTarget } from '../targets';
+import { createThumbnail } from '../utils/thumbnail';
+import { composeSheetImage } from '../utils/processing';
+import { GridLayout } from '../utils/operations';
+
+export interface SheetItem {
+  id: string;
+  file: File;
+  image: HTMLImageElement;
+}
+
+interface SheetLayoutProps {
+  items: SheetItem[];
+  onItemsChange: (items: SheetItem[]) => void;
+  outputFormat: OutputFormat;
+  background: BackgroundOptions;
+  print?: PrintOptions;
+  onReset: () => void;
+}
+
+export function SheetLayout({ items, onItemsChange, outputFormat, background, print, onReset }: SheetLayoutProps) {
+  const [columns, setColumns] = useState<number>(2);
+  const [rows, setRows] = useState<number>(2);
+  const [gutterMm, setGutterMm] = useState<number>(DEFAULT_SHEET_GUTTER_MM);
+  const [orientation, setOrientation] = useState<Orientation>('portrait');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(background.mode === 'transparent' ? 'png' : 'jpeg');
+  const [isExporting, setIsExporting] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = getCanvasTarget(outputFormat);
+
+  const sheetOptions = useMemo(
+    () => ({ outputFormat, orientation, columns, rows, gutterMm, background, print }),
+    [outputFormat, orientation, columns, rows, gutterMm, background, print]
+  );
+  const [sheet, setSheet] = useState<GridLayout | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  // Transparent backgrounds only survive in PNG
+  useEffect(() => {
+    if (background.mode === 'transparent') {
+      setExportFormat('png');
+    }
+  }, [background.mode]);
+
+  // The sheet is composed in the processing worker and previewed from the encoded result
+  useEffect(() => {
+    if (items.length === 0) {
+      setSheet(null);
+      setPreviewUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    let url: string | null = null;
+    composeSheetImage(
+      items.map((item) => item.image),
+      sheetOptions,
+      { type: 'blob', mimeType: background.mode === 'transparent' ? 'image/png' : 'image/jpeg', quality: JPEG_QUALITY }
+    )
+      .then(({ blob, grid }) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob!);
+        setSheet(grid);
+        setPreviewUrl(url);
+      })
+      .catch((err) => {
+        console.error('Sheet layout error:', err);
+        if (!cancelled) {
+          setSheet(null);
+          setPreviewUrl(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [items, sheetOptions, background.mode]);
+  const thumbnails = useMemo(() => new Map(items.map((item) => [item.id, createThumbnail(item.image)])), [items]);
+
+  const handleGridPreset = useCallback((preset: typeof SHEET_GRIDS[number]) => {
+    // Presets are defined for portrait; flip them for landscape pages
+    if (orientation === 'landscape') {
+      setColumns(preset.rows);
+      setRows(preset.columns);
+    } else {
+      setColumns(preset.columns);
+      setRows(preset.rows);
+    }
+  }, [orientation]);
+
+  const handleOrientationChange = useCallback((next: Orientation) => {
+    if (next === orientation) return;
+    setOrientation(next);
+    setColumns(rows);
+    setRows(columns);
+  }, [orientation, rows, columns]);
+
+  const handleDrop = useCallback((toIndex: number) => {
+    if (dragIndex === null || dragIndex === toIndex) return;
+    const next = [...items];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(toIndex, 0, moved);
+    onItemsChange(next);
+    setDragIndex(null);
+  }, [dragIndex, items, onItemsChange]);
+
+  const handleRemove = useCallback((id: string) => {
+    onItemsChange(items.filter((item) => item.id !== id));
+  }, [items, onItemsChange]);
+
+  const handleDownload = useCallback(async () => {
+    if (!sheet || items.length === 0) return;
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { canvas } = await composeSheetImage(items.map((item) => item.image), sheetOptions);
+      const page = getPageSize(outputFormat, sheet.orientation, sheet.canvasWidth, sheet.canvasHeight);
+      const blob = await exportCanvas(canvas!, exportFormat, { page, dpi: target.dpi });
+      downloadBlob(blob, generateFilename(items[0].file.name, exportFormat, outputFormat, `${columns * rows}up`));
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError('Failed to export sheet');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [sheet, items, sheetOptions, exportFormat, columns, rows, outputFormat]);
+
+  const cellCount = columns * rows;
+  const effectiveDPI = sheet ? getEffectiveDPI(outputFormat, sheet.minScale) : 0;
+  const dpiWarning = target.unit !== 'px' && effectiveDPI < MIN_PRINT_DPI;
+
+  return (
+    <div className="resize-simple-grid">
+      {/* LEFT: Sheet Preview */}
+      <div className="simple-preview-area">
+        <div className="size-info-bar">
+          <div className="size-original">
+            <span className="size-label">Photos</span>
+            <span className="size-value">{items.length}</span>
+          </div>
+          <div className="size-arrow">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5">
+              <line x1="5" y1="12" x2="19" y2="12" />
+              <polyline points="12 5 19 12 12 19" />
+            </svg>
+          </div>
+          <div className="size-new">
+            <span className="size-label">{target.name}</span>
+            <span className="size-value">{sheet ? `${sheet.canvasWidth} × ${sheet.canvasHeight}` : '...'}</span>
+          </div>
+        </div>
+
+        <div className="preview-image-wrapper">
+          {previewUrl && (
+            <div className="image-with-info">
+              <img src={previewUrl} alt="Sheet preview" />
+            </div>
+          )}
+        </div>
+
+        <button className="reset-link" onClick={onReset}>
+          ← Choose different images
+        </button>
+      </div>
+
+      {/* RIGHT: Sheet Options */}
+      <div className="simple-options-panel">
+        <h2 className="options-title">Sheet options</h2>
+
+        {error && (
+          <div className="error-message" role="alert">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="resize-controls-simple">
+          <p className="helper-text">Photos per sheet:</p>
+          <div className="quick-size-btns">
+            {SHEET_GRIDS.map((preset) => (
+              <button
+                key={preset.count}
+                className={cellCount === preset.count ? 'active' : ''}
+                aria-pressed={cellCount === preset.count}
+                onClick={() => handleGridPreset(preset)}
+              >
+                {preset.count}
+              </button>
+            ))}
+          </div>
+
+          <div className="dimension-field">
+            <label htmlFor="sheet-columns">Columns:</label>
+            <input
+              id="sheet-columns"
+              type="number"
+              min="1"
+              max="10"
+              value={columns}
+              onChange={(e) => setColumns(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+            />
+          </div>
+          <div className="dimension-field">
+            <label htmlFor="sheet-rows">Rows:</label>
+            <input
+              id="sheet-rows"
+              type="number"
+              min="1"
+              max="10"
+              value={rows}
+              onChange={(e) => setRows(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+            />
+          </div>
+          <div className="dimension-field">
+            <label htmlFor="sheet-gutter">Gutter (mm):</label>
+            <input
+              id="sheet-gutter"
+              type="number"
+              min="0"
+              max="50"
+              step="0.5"
+              value={gutterMm}
+              onChange={(e) => setGutterMm(Math.max(0, parseFloat(e.target.value) || 0))}
+            />
+          </div>
+        </div>
+
+        {target.supportsOrientation && (
+          <div className="resize-controls-simple">
+            <p className="helper-text">Orientation:</p>
+            <div className="aspect-grid">
+              <button
+                className={`aspect-btn-new ${orientation === 'portrait' ? 'active' : ''}`}
+                aria-pressed={orientation === 'portrait'}
+                onClick={() => handleOrientationChange('portrait')}
+              >
+                Portrait
+              </button>
+              <button
+                className={`aspect-btn-new ${orientation === 'landscape' ? 'active' : ''}`}
+                aria-pressed={orientation === 'landscape'}
+                onClick={() => handleOrientationChange('landscape')}
+              >
+                Landscape
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Cell order */}
+        <div className="resize-controls-simple">
+          <p className="helper-text">Drag to reorder:</p>
+          <div className="sheet-order-grid" style={{ gridTemplateColumns: `repeat(${columns}, 1fr)` }}>
+            {items.map((item, index) => (
+              <div
+                key={item.id}
+                className={`sheet-order-cell ${index >= cellCount ? 'overflow' : ''} ${dragIndex === index ? 'dragging' : ''}`}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                title={item.file.name}
+              >
+                <img src={thumbnails.get(item.id)} alt={item.file.name} draggable={false} />
+                <span className="sheet-order-index">{index + 1}</span>
+                <button
+                  className="sheet-order-remove"
+                  onClick={() => handleRemove(item.id)}
+                  aria-label={`Remove ${item.file.name}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          {items.length > cellCount && (
+            <p className="format-hint">
+              Only the first {cellCount} photos fit on this sheet.
+            </p>
+          )}
+        </div>
+
+        {dpiWarning && (
+          <div className="quality-warning">
+            <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z" />
+              <line x1="12" y1="9" x2="12" y2="13" />
+              <line x1="12" y1="17" x2="12.01" y2="17" />
+            </svg>
+            <span>Low resolution (~{effectiveDPI} DPI)</span>
+          </div>
+        )}
+
+        {/* Export Format */}
+        <div className="format-section">
+          <p className="helper-text">Export format:</p>
+          <div className="format-toggle-btns">
+            <button
+              className={`format-toggle-btn ${exportFormat === 'jpeg' ? 'active' : ''}`}
+              aria-pressed={exportFormat === 'jpeg'}
+              onClick={() => setExportFormat('jpeg')}
+              disabled={background.mode === 'transparent'}
+              title={background.mode === 'transparent' ? 'JPEG does not support transparency' : undefined}
+            >
+              JPEG
+            </button>
+            <button
+              className={`format-toggle-btn ${exportFormat === 'png' ? 'active' : ''}`}
+              aria-pressed={exportFormat === 'png'}
+              onClick={() => setExportFormat('png')}
+            >
+              PNG
+            </button>
+            <button
+              className={`format-toggle-btn ${exportFormat === 'pdf' ? 'active' : ''}`}
+              aria-pressed={exportFormat === 'pdf'}
+              onClick={() => setExportFormat('pdf')}
+              disabled={background.mode === 'transparent'}
+              title={background.mode === 'transparent' ? 'PDF export does not keep transparency' : undefined}
+            >
+              PDF
+            </button>
+          </div>
+        </div>
+
+        <div className="download-section-simple">
+          <button
+            className="big-download-btn"
+            onClick={handleDownload}
+            disabled={isExporting || !sheet || items.length === 0}
+          >
+            {isExporting ? 'Exporting...' : 'Download SHEET'}
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10" />
+              <path d="M12 8v8M8 12l4 4 4-4" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { CanvasTarget } from '../constants';
+
+interface TargetIconProps {
+  icon: CanvasTarget['icon'];
+}
+
+export function TargetIcon({ icon }: TargetIconProps) {
+  switch (icon) {
+    case 'square':
+      return (
+        <svg width="36" height="36" viewBox="0 0 36 36" fill="none">
+          <rect x="2" y="2" width="32" height="32" rx="16" stroke="currentColor" strokeWidth="2" fill="none" />
+          <circle cx="18" cy="14" r="5" stroke="currentColor" strokeWidth="1.5" fill="none" />
+          <path d="M8 30C8 24.4772 12.4772 20 18 20C23.5228 20 28 24.4772 28 30" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" fill="none" />
+        </svg>
+      );
+    case 'photo':
+      return (
+        <svg width="32" height="40" viewBox="0 0 32 40" fill="none">
+          <rect x="2" y="2" width="28" height="36" rx="2" stroke="currentColor" strokeWidth="2" fill="none" />
+          <circle cx="11" cy="12" r="3" stroke="currentColor" strokeWidth="1.5" fill="none" />
+          <path d="M2 30L11 21L17 27L22 22L30 30" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      );
+    case 'document':
+    default:
+      return (
+        <svg width="32" height="40" viewBox="0 0 32 40" fill="none">
+          <rect x="2" y="2" width="28" height="36" rx="2" stroke="currentColor" strokeWidth="2" fill="none" />
+          <line x1="8" y1="12" x2="24" y2="12" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+          <line x1="8" y1="18" x2="24" y2="18" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+          <line x1="8" y1="24" x2="18" y2="24" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+        </svg>
+      );
+  }
+}
@@ -1,7 +1,30 @@
 /**
- * Output format types
+ * Output format identifier - the id of a registered canvas target
  */
-export type OutputFormat = 'a4' | 'whatsapp-dp';
+export type OutputFormat = string;
+
+/**
+ * Unit used to express a canvas target's physical size
+ */
+export type TargetUnit = 'mm' | 'in' | 'px';
+
+/**
+ * A canvas target that images can be fitted onto.
+ * Width and height are given in portrait (or natural) orientation.
+ */
+export interface CanvasTarget {
+  id: OutputFormat;
+  name: string;
+  description: string;
+  category: 'print' | 'social' | 'custom';
+  icon: 'document' | 'photo' | 'square';
+  width: number;
+  height: number;
+  unit: TargetUnit;
+  dpi: number;
+  supportsOrientation: boolean;
+  filenameSuffix: string;
+}
 
 /**
  * A4 paper dimensions at 300 DPI for print-quality output
@@ -28,22 +51,214 @@ export const WHATSAPP_DP = {
 } as const;
 
 /**
- * Output format configurations
+ * Built-in canvas targets. More can be added at runtime with registerCanvasTarget().
  */
-export const OUTPUT_FORMATS = {
-  'a4': {
+export const CANVAS_TARGETS: readonly CanvasTarget[] = [
+  // Social
+  {
+    id: 'whatsapp-dp',
+    name: 'WhatsApp DP',
+    description: 'Square profile picture (1:1)',
+    category: 'social',
+    icon: 'square',
+    width: WHATSAPP_DP.width,
+    height: WHATSAPP_DP.height,
+    unit: 'px',
+    dpi: 72,
+    supportsOrientation: false,
+    filenameSuffix: 'whatsapp-dp',
+  },
+  {
+    id: 'instagram-square',
+    name: 'Instagram Square',
+    description: 'Square feed post (1:1)',
+    category: 'social',
+    icon: 'square',
+    width: 1080,
+    height: 1080,
+    unit: 'px',
+    dpi: 72,
+    supportsOrientation: false,
+    filenameSuffix: 'instagram',
+  },
+  {
+    id: 'instagram-portrait',
+    name: 'Instagram Portrait',
+    description: 'Portrait feed post (4:5)',
+    category: 'social',
+    icon: 'photo',
+    width: 1080,
+    height: 1350,
+    unit: 'px',
+    dpi: 72,
+    supportsOrientation: false,
+    filenameSuffix: 'instagram-portrait',
+  },
+  {
+    id: 'instagram-story',
+    name: 'Instagram Story',
+    description: 'Full-screen story (9:16)',
+    category: 'social',
+    icon: 'photo',
+    width: 1080,
+    height: 1920,
+    unit: 'px',
+    dpi: 72,
+    supportsOrientation: false,
+    filenameSuffix: 'story',
+  },
+  {
+    id: 'linkedin-profile',
+    name: 'LinkedIn Profile',
+    description: 'Square profile photo (1:1)',
+    category: 'social',
+    icon: 'square',
+    width: 400,
+    height: 400,
+    unit: 'px',
+    dpi: 72,
+    supportsOrientation: false,
+    filenameSuffix: 'linkedin-profile',
+  },
+  {
+    id: 'linkedin-post',
+    name: 'LinkedIn Post',
+    description: 'Shared link / post image (1.91:1)',
+    category: 'social',
+    icon: 'photo',
+    width: 1200,
+    height: 627,
+    unit: 'px',
+    dpi: 72,
+    supportsOrientation: false,
+    filenameSuffix: 'linkedin',
+  },
+  // Print
+  {
+    id: 'a4',
     name: 'A4 Paper',
     description: 'Print-ready A4 size (210×297mm)',
+    category: 'print',
     icon: 'document',
+    width: 210,
+    height: 297,
+    unit: 'mm',
+    dpi: A4.DPI,
     supportsOrientation: true,
+    filenameSuffix: 'a4',
   },
-  'whatsapp-dp': {
-    name: 'WhatsApp DP',
-    description: 'Square profile picture (1:1)',
-    icon: 'square',
-    supportsOrientation: false,
+  {
+    id: 'a3',
+    name: 'A3 Paper',
+    description: 'Poster-size A3 (297×420mm)',
+    category: 'print',
+    icon: 'document',
+    width: 297,
+    height: 420,
+    unit: 'mm',
+    dpi: 300,
+    supportsOrientation: true,
+    filenameSuffix: 'a3',
   },
-} as const;
+  {
+    id: 'a5',
+    name: 'A5 Paper',
+    description: 'Half-sheet A5 (148×210mm)',
+    category: 'print',
+    icon: 'document',
+    width: 148,
+    height: 210,
+    unit: 'mm',
+    dpi: 300,
+    supportsOrientation: true,
+    filenameSuffix: 'a5',
+  },
+  {
+    id: 'letter',
+    name: 'US Letter',
+    description: 'US Letter paper (8.5×11in)',
+    category: 'print',
+    icon: 'document',
+    width: 8.5,
+    height: 11,
+    unit: 'in',
+    dpi: 300,
+    supportsOrientation: true,
+    filenameSuffix: 'letter',
+  },
+  {
+    id: 'legal',
+    name: 'US Legal',
+    description: 'US Legal paper (8.5×14in)',
+    category: 'print',
+    icon: 'document',
+    width: 8.5,
+    height: 14,
+    unit: 'in',
+    dpi: 300,
+    supportsOrientation: true,
+    filenameSuffix: 'legal',
+  },
+  {
+    id: 'photo-4x6',
+    name: '4×6" Photo',
+    description: 'Standard photo print (4×6in)',
+    category: 'print',
+    icon: 'photo',
+    width: 4,
+    height: 6,
+    unit: 'in',
+    dpi: 300,
+    supportsOrientation: true,
+    filenameSuffix: '4x6',
+  },
+  {
+    id: 'photo-5x7',
+    name: '5×7" Photo',
+    description: 'Large photo print (5×7in)',
+    category: 'print',
+    icon: 'photo',
+    width: 5,
+    height: 7,
+    unit: 'in',
+    dpi: 300,
+    supportsOrientation: true,
+    filenameSuffix: '5x7',
+  },
+  {
+    id: 'photo-8x10',
+    name: '8×10" Photo',
+    description: 'Portrait photo print (8×10in)',
+    category: 'print',
+    icon: 'photo',
+    width: 8,
+    height: 10,
+    unit: 'in',
+    dpi: 300,
+    supportsOrientation: true,
+    filenameSuffix: '8x10',
+  },
+];
+
+/**
+ * Millimetres per inch, for converting physical sizes to pixels
+ */
+export const MM_PER_INCH = 25.4;
+
+/**
+ * Density assumed by browsers and office apps when a file carries none
+ */
+export const SCREEN_DPI = 72;
+
+/**
+ * Resolutions offered when tagging exported files for print
+ */
+export const DPI_OPTIONS = [SCREEN_DPI, 150, 300] as const;
+
+/**
+ * Effective DPI below which print targets show a low-resolution warning
+ */
+export const MIN_PRINT_DPI = 150;
 
 /**
  * Supported image formats for upload
@@ -73,20 +288,200 @@ export const FORMAT_NAMES: Record<string, string> = {
 };
 
 /**
- * Maximum file size in bytes (20MB)
+ * File size (20MB) above which an upload is treated as large when its pixel size cannot be read
  */
 export const MAX_FILE_SIZE = 20 * 1024 * 1024;
 
 /**
- * Maximum file size in human-readable format
+ * Large file size in human-readable format
  */
 export const MAX_FILE_SIZE_DISPLAY = '20MB';
 
+/**
+ * Decoded-image memory budget (256MB, the iOS Safari canvas limit).
+ * Images estimated above it are offered a downscale on load.
+ */
+export const MAX_SAFE_MEMORY = 256 * 1024 * 1024;
+
+/**
+ * Edge length of the tiles oversize images are processed in
+ */
+export const TILE_SIZE = 2048;
+
 /**
  * Default padding/background color (white)
  */
 export const DEFAULT_PADDING_COLOR = '#FFFFFF';
 
+/**
+ * How an image is fitted onto the target canvas
+ */
+export type FitMode = 'contain' | 'cover' | 'stretch';
+
+/**
+ * Fit mode labels for display
+ */
+export const FIT_MODES: Record<FitMode, { name: string; description: string }> = {
+  'contain': { name: 'Fit', description: 'Whole image visible, padding around it' },
+  'cover': { name: 'Fill', description: 'Fill the canvas and crop the overflow' },
+  'stretch': { name: 'Stretch', description: 'Fill the canvas, ignoring aspect ratio' },
+};
+
+/**
+ * Resampling filter used when scaling pixels
+ */
+export type ResampleKernel = 'lanczos3' | 'mitchell' | 'bicubic' | 'bilinear' | 'nearest';
+
+/**
+ * Resampling filter labels for display
+ */
+export const RESAMPLE_KERNELS: Record<ResampleKernel, { name: string; description: string }> = {
+  'lanczos3': { name: 'Lanczos', description: 'Sharpest; best for photos' },
+  'mitchell': { name: 'Mitchell', description: 'Balanced sharpness with minimal ringing' },
+  'bicubic': { name: 'Bicubic', description: 'Crisp, a little ringing on hard edges' },
+  'bilinear': { name: 'Bilinear', description: 'Soft and smooth' },
+  'nearest': { name: 'Nearest', description: 'Hard pixel edges for pixel art and QR codes' },
+};
+
+export const DEFAULT_RESAMPLE_KERNEL: ResampleKernel = 'lanczos3';
+
+/**
+ * Unsharp mask applied after resampling
+ */
+export interface SharpenOptions {
+  amount: number;      // Strength in percent (0 = off)
+  radius: number;      // Blur radius in output pixels
+  threshold: number;   // Minimum difference (0-255) before a pixel is sharpened
+}
+
+export type SharpenPreset = 'off' | 'screen' | 'print';
+
+export const SHARPEN_PRESETS: Record<SharpenPreset, { name: string; description: string; options: SharpenOptions }> = {
+  'off': { name: 'Off', description: 'No sharpening', options: { amount: 0, radius: 0.5, threshold: 0 } },
+  'screen': { name: 'Screen', description: 'Light, fine sharpening for phones and monitors', options: { amount: 60, radius: 0.6, threshold: 2 } },
+  'print': { name: 'Print', description: 'Stronger sharpening that survives ink spread on paper', options: { amount: 120, radius: 1.2, threshold: 3 } },
+};
+
+export const SHARPEN_LIMITS = {
+  AMOUNT_MAX: 300,
+  RADIUS_MIN: 0.3,
+  RADIUS_MAX: 3,
+  THRESHOLD_MAX: 20,
+} as const;
+
+/**
+ * Print layout defaults (all lengths in millimetres)
+ */
+export const PRINT = {
+  MARGIN_PRESETS_MM: [0, 3, 5, 10],
+  BLEED_MM: 3,
+  CROP_MARK_SLUG_MM: 8,     // Extra paper outside the bleed that holds the crop marks
+  CROP_MARK_GAP_MM: 1,      // Gap between the bleed edge and the start of a mark
+  CROP_MARK_WIDTH_MM: 0.1,  // Hairline (about 0.25pt)
+} as const;
+
+/**
+ * N-up sheet grid presets (portrait; columns and rows swap for landscape)
+ */
+export const SHEET_GRIDS = [
+  { count: 2, columns: 1, rows: 2 },
+  { count: 4, columns: 2, rows: 2 },
+  { count: 6, columns: 2, rows: 3 },
+  { count: 9, columns: 3, rows: 3 },
+] as const;
+
+/**
+ * Default gutter between sheet cells in millimetres
+ */
+export const DEFAULT_SHEET_GUTTER_MM = 4;
+
+/**
+ * Passport / ID photo specification (all lengths in millimetres)
+ */
+export interface IdPhotoSpec {
+  id: string;
+  name: string;
+  description: string;
+  widthMm: number;
+  heightMm: number;
+  headHeightMm: readonly [number, number];  // Chin to crown, min and max
+  crownTopMm: number;                       // Space above the top of the head
+}
+
+/**
+ * Standard ID photo sizes
+ */
+export const ID_PHOTO_SPECS: readonly IdPhotoSpec[] = [
+  {
+    id: 'passport-35x45',
+    name: '35×45 mm',
+    description: 'UK, EU, India and most passports',
+    widthMm: 35,
+    heightMm: 45,
+    headHeightMm: [32, 36],
+    crownTopMm: 4,
+  },
+  {
+    id: 'us-2x2',
+    name: '2×2 in (US)',
+    description: 'US passport and visa',
+    widthMm: 50.8,
+    heightMm: 50.8,
+    headHeightMm: [25.4, 34.9],
+    crownTopMm: 6,
+  },
+  {
+    id: 'square-51',
+    name: '51×51 mm',
+    description: 'Square ID photo',
+    widthMm: 51,
+    heightMm: 51,
+    headHeightMm: [25, 35],
+    crownTopMm: 6,
+  },
+  {
+    id: 'india-visa',
+    name: 'Indian visa',
+    description: 'Indian e-visa / visa (2×2 in)',
+    widthMm: 51,
+    heightMm: 51,
+    headHeightMm: [25, 35],
+    crownTopMm: 8,
+  },
+];
+
+/**
+ * ID photo print sheet settings
+ */
+export const ID_PHOTO_SHEET = {
+  FORMATS: ['photo-4x6', 'a4'],  // Canvas target ids the photos can be tiled onto
+  GAP_MM: 2,
+  MARGIN_MM: 4,
+} as const;
+
+/**
+ * Background fill modes for the padding around a fitted image
+ */
+export type BackgroundMode = 'blur' | 'solid' | 'dominant' | 'gradient' | 'edge' | 'mirror' | 'transparent';
+
+/**
+ * Background fill mode labels for display
+ */
+export const BACKGROUND_MODES: Record<BackgroundMode, { name: string; description: string }> = {
+  'blur': { name: 'Blur', description: 'Blurred, stretched copy of the image' },
+  'solid': { name: 'Solid colour', description: 'Pick any colour' },
+  'dominant': { name: 'Dominant colour', description: 'Most common colour in the image' },
+  'gradient': { name: 'Gradient', description: 'Two-colour vertical gradient' },
+  'edge': { name: 'Edge extend', description: 'Stretch the outermost pixels' },
+  'mirror': { name: 'Mirror', description: 'Reflect the image into the padding' },
+  'transparent': { name: 'Transparent', description: 'No fill (PNG only)' },
+};
+
+/**
+ * Default gradient stops for the gradient background
+ */
+export const DEFAULT_GRADIENT: readonly [string, string] = ['#FFFFFF', '#D1D5DB'];
+
 /**
  * Export quality for JPEG (0-1)
  */
@@ -0,0 +1,179 @@
+import { useReducer, useEffect, useCallback } from 'react';
+
+/**
+ * Undo/redo history for editor state.
+ *
+ * `present` is what the page renders. Live changes (e.g. each pointer move of a
+ * drag) go through `update` and are only recorded once `commit` is called, so a
+ * whole drag is a single undo step. Discrete changes use `record`.
+ */
+
+// Oldest entries are dropped beyond this many undo steps
+const MAX_HISTORY = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  committed: T;   // Last recorded state; `present` differs from it during a live change
+  present: T;
+  future: T[];
+  initial: T;
+}
+
+type HistoryAction<T> =
+  | { type: 'update'; state: T }
+  | { type: 'commit' }
+  | { type: 'cancel' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'restart'; state: T };
+
+function createHistory<T>(state: T): HistoryState<T> {
+  return { past: [], committed: state, present: state, future: [], initial: state };
+}
+
+function historyReducer<T>(history: HistoryState<T>, action: HistoryAction<T>, isEqual: (a: T, b: T) => boolean): HistoryState<T> {
+  switch (action.type) {
+    case 'update':
+      return { ...history, present: action.state };
+    case 'commit':
+      if (isEqual(history.present, history.committed)) {
+        return history.present === history.committed ? history : { ...history, present: history.committed };
+      }
+      return {
+        ...history,
+        past: [...history.past, history.committed].slice(-MAX_HISTORY),
+        committed: history.present,
+        future: [],
+      };
+    case 'cancel':
+      return history.present === history.committed ? history : { ...history, present: history.committed };
+    case 'undo': {
+      // An unfinished live change is dropped rather than recorded
+      if (history.present !== history.committed) {
+        return { ...history, present: history.committed };
+      }
+      if (history.past.length === 0) return history;
+      const previous = history.past[history.past.length - 1];
+      return {
+        ...history,
+        past: history.past.slice(0, -1),
+        committed: previous,
+        present: previous,
+        future: [history.committed, ...history.future],
+      };
+    }
+    case 'redo': {
+      if (history.future.length === 0) return history;
+      const [next, ...future] = history.future;
+      return {
+        ...history,
+        past: [...history.past, history.committed].slice(-MAX_HISTORY),
+        committed: next,
+        present: next,
+        future,
+      };
+    }
+    case 'restart':
+      return createHistory(action.state);
+  }
+}
+
+export interface History<T> {
+  present: T;
+  canUndo: boolean;
+  canRedo: boolean;
+  canReset: boolean;
+  // Changes `present` without recording it (until `commit`)
+  update: (state: T) => void;
+  // Records `present` as an undo step if it changed since the last one
+  commit: () => void;
+  // Drops an uncommitted live change
+  cancel: () => void;
+  // `update` and `commit` in one go
+  record: (state: T) => void;
+  undo: () => void;
+  redo: () => void;
+  // Goes back to the initial state as a new, undoable step
+  reset: () => void;
+  // Starts a new history, e.g. for a new image
+  restart: (state: T) => void;
+}
+
+/**
+ * @param isEqual - Changes equal to the last recorded state are not recorded
+ */
+export function useHistory<T>(initial: T, isEqual: (a: T, b: T) => boolean = Object.is): History<T> {
+  const [history, dispatch] = useReducer(
+    (state: HistoryState<T>, action: HistoryAction<T>) => historyReducer(state, action, isEqual),
+    initial,
+    createHistory
+  );
+
+  const update = useCallback((state: T) => dispatch({ type: 'update', state }), []);
+  const commit = useCallback(() => dispatch({ type: 'commit' }), []);
+  const cancel = useCallback(() => dispatch({ type: 'cancel' }), []);
+  const record = useCallback((state: T) => {
+    dispatch({ type: 'update', state });
+    dispatch({ type: 'commit' });
+  }, []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const restart = useCallback((state: T) => dispatch({ type: 'restart', state }), []);
+  const { initial: initialState } = history;
+  const reset = useCallback(() => record(initialState), [record, initialState]);
+
+  return {
+    present: history.present,
+    canUndo: history.past.length > 0 || history.present !== history.committed,
+    canRedo: history.future.length > 0,
+    canReset: !isEqual(history.present, history.initial),
+    update,
+    commit,
+    cancel,
+    record,
+    undo,
+    redo,
+    reset,
+    restart,
+  };
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  if (target instanceof HTMLInputElement) {
+    return !['range', 'checkbox', 'radio', 'button', 'color', 'file'].includes(target.type);
+  }
+  return target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable);
+}
+
+/**
+ * Ctrl/Cmd+Z to undo and Shift+Ctrl/Cmd+Z (or Ctrl+Y) to redo.
+ * Text fields keep their own undo.
+ */
+export function useHistoryShortcuts(history: Pick<History<unknown>, 'undo' | 'redo'>, enabled = true) {
+  const { undo, redo } = history;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (isTextField(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, enabled]);
+}
@@ -6,6 +6,9 @@ import { FitImage } from './pages/FitImage';
 import { ResizeImage } from './pages/ResizeImage';
 import { CompressImage } from './pages/CompressImage';
 import { CropImage } from './pages/CropImage';
+import { PassportPhoto } from './pages/PassportPhoto';
+import { ImagesToPdf } from './pages/ImagesToPdf';
+import { Editor } from './pages/Editor';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
@@ -17,6 +20,9 @@ createRoot(document.getElementById('root')!).render(
         <Route path="/resize-image" element={<ResizeImage />} />
         <Route path="/compress-image" element={<CompressImage />} />
         <Route path="/crop-image" element={<CropImage />} />
+        <Route path="/passport-photo" element={<PassportPhoto />} />
+        <Route path="/images-to-pdf" element={<ImagesToPdf />} />
+        <Route path="/editor" element={<Editor />} />
       </Routes>
     </BrowserRouter>
   </StrictMode>
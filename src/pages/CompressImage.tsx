@@ -1,15 +1,39 @@
 import { useState, useCallback, useEffect } from 'react';
 import { FileUpload } from '../components/FileUpload';
 import { Header } from '../components/Header';
-import { loadImage, isHeicFile } from '../processor';
+import { MetadataPanel } from '../components/MetadataPanel';
+import { ColorProfilePanel } from '../components/ColorProfilePanel';
+import { BatchQueue, BatchOutput } from '../components/BatchQueue';
+import { loadImage, LoadOptions, isHeicFile } from '../processor';
+import { formatFileSize } from '../utils/format';
+import { ImageMetadata, MetadataMode, EMPTY_METADATA, readImageMetadata, embedMetadata, getMetadataSize } from '../utils/metadata';
+import { ColorProfileMode, resolveColorHandling, embedIccProfile, getIccEmbedSize } from '../utils/icc';
+import { OperationOutput } from '../utils/operations';
+import { encodeImage, ProgressCallback } from '../utils/processing';
 
 type CompressionMode = 'quality' | 'target-size';
 type OutputFormat = 'jpeg' | 'webp' | 'original';
+type OutputMimeType = 'image/jpeg' | 'image/webp' | 'image/png';
+
+const EXTENSIONS: Record<OutputMimeType, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+function getOutputMimeType(outputFormat: OutputFormat, file: File | null): OutputMimeType {
+  if (outputFormat === 'original') {
+    // Try to detect from original file
+    if (file?.type === 'image/png') return 'image/png';
+    if (file?.type === 'image/webp') return 'image/webp';
+    return 'image/jpeg';
+  }
+  return outputFormat === 'webp' ? 'image/webp' : 'image/jpeg';
+}
 
-function formatFileSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+function getCompressedFilename(file: File, outputFormat: OutputFormat): string {
+  const baseName = file.name.replace(/\.[^/.]+$/, '');
+  return `${baseName}-compressed.${EXTENSIONS[getOutputMimeType(outputFormat, file)]}`;
 }
 
 export function CompressImage() {
@@ -24,6 +48,9 @@ export function CompressImage() {
   const [quality, setQuality] = useState<number>(80);
   const [targetSizeKB, setTargetSizeKB] = useState<number>(500);
   const [outputFormat, setOutputFormat] = useState<OutputFormat>('jpeg');
+  const [metadata, setMetadata] = useState<ImageMetadata>(EMPTY_METADATA);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>('strip');
+  const [colorMode, setColorMode] = useState<ColorProfileMode>('convert');
 
   // Output
   const [compressedBlob, setCompressedBlob] = useState<Blob | null>(null);
@@ -31,6 +58,10 @@ export function CompressImage() {
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
   const [isCompressing, setIsCompressing] = useState(false);
 
+  // Batch
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchLoadOptions, setBatchLoadOptions] = useState<LoadOptions>({});
+
   // Cleanup URLs on unmount
   useEffect(() => {
     return () => {
@@ -43,43 +74,37 @@ export function CompressImage() {
     };
   }, [compressedUrl, originalImageUrl]);
 
-  // Compress to target file size using binary search
-  const compressToTargetSize = useCallback(async (
-    canvas: HTMLCanvasElement,
-    targetBytes: number,
-    format: 'image/jpeg' | 'image/webp',
-    minQuality = 0.1,
-    maxQuality = 0.95
+  // Encode one image with the current settings, then write back its profile and metadata
+  const compressFile = useCallback(async (
+    image: HTMLImageElement,
+    file: File | null,
+    fileMetadata: ImageMetadata,
+    onProgress?: ProgressCallback
   ): Promise<Blob> => {
-    let low = minQuality;
-    let high = maxQuality;
-    let bestBlob: Blob | null = null;
-
-    const canvasToBlob = (q: number): Promise<Blob> => {
-      return new Promise((resolve, reject) => {
-        canvas.toBlob(
-          (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob')),
-          format,
-          q
-        );
-      });
-    };
+    const { colorSpace, embed: iccProfile } = resolveColorHandling(fileMetadata.icc, colorMode);
+    const mimeType = getOutputMimeType(outputFormat, file);
+
+    let output: OperationOutput;
+
+    if (mimeType === 'image/png') {
+      // PNG is lossless - can only convert to other format for compression
+      output = { type: 'blob', mimeType };
+    } else if (compressionMode === 'target-size') {
+      // Leave room for the metadata and profile that are written back afterwards
+      const extra = getMetadataSize(fileMetadata, metadataMode) + (iccProfile ? getIccEmbedSize(iccProfile) : 0);
+      const budget = Math.max(1024, targetSizeKB * 1024 - extra);
+      output = { type: 'target-size', mimeType, targetBytes: budget };
+    } else {
+      output = { type: 'blob', mimeType, quality: quality / 100 };
+    }
 
-    // Binary search for optimal quality (8 iterations = good precision)
-    for (let i = 0; i < 8; i++) {
-      const mid = (low + high) / 2;
-      const blob = await canvasToBlob(mid);
+    let blob = await encodeImage(image, output, colorSpace, onProgress);
 
-      if (blob.size <= targetBytes) {
-        bestBlob = blob;
-        low = mid; // Try higher quality
-      } else {
-        high = mid; // Need lower quality
-      }
+    if (iccProfile) {
+      blob = await embedIccProfile(blob, iccProfile);
     }
-
-    return bestBlob || await canvasToBlob(minQuality);
-  }, []);
+    return embedMetadata(blob, fileMetadata, metadataMode);
+  }, [outputFormat, compressionMode, quality, targetSizeKB, metadataMode, colorMode]);
 
   // Compress image
   const compressImage = useCallback(async () => {
@@ -88,49 +113,7 @@ export function CompressImage() {
     setIsCompressing(true);
 
     try {
-      // Create canvas from image
-      const canvas = document.createElement('canvas');
-      canvas.width = originalImage.naturalWidth;
-      canvas.height = originalImage.naturalHeight;
-      const ctx = canvas.getContext('2d')!;
-      ctx.drawImage(originalImage, 0, 0);
-
-      // Determine output format
-      let mimeType: 'image/jpeg' | 'image/webp' | 'image/png';
-      if (outputFormat === 'original') {
-        // Try to detect from original file
-        if (originalFile?.type === 'image/png') {
-          mimeType = 'image/png';
-        } else if (originalFile?.type === 'image/webp') {
-          mimeType = 'image/webp';
-        } else {
-          mimeType = 'image/jpeg';
-        }
-      } else {
-        mimeType = outputFormat === 'webp' ? 'image/webp' : 'image/jpeg';
-      }
-
-      let blob: Blob;
-
-      if (mimeType === 'image/png') {
-        // PNG is lossless - can only convert to other format for compression
-        blob = await new Promise((resolve, reject) => {
-          canvas.toBlob(
-            (b) => b ? resolve(b) : reject(new Error('Failed')),
-            'image/png'
-          );
-        });
-      } else if (compressionMode === 'target-size') {
-        blob = await compressToTargetSize(canvas, targetSizeKB * 1024, mimeType);
-      } else {
-        blob = await new Promise((resolve, reject) => {
-          canvas.toBlob(
-            (b) => b ? resolve(b) : reject(new Error('Failed')),
-            mimeType,
-            quality / 100
-          );
-        });
-      }
+      const blob = await compressFile(originalImage, originalFile, metadata);
 
       // Revoke old URL
       if (compressedUrl) {
@@ -146,16 +129,16 @@ export function CompressImage() {
     } finally {
       setIsCompressing(false);
     }
-  }, [originalImage, originalFile, outputFormat, compressionMode, quality, targetSizeKB, compressToTargetSize, compressedUrl]);
+  }, [originalImage, originalFile, metadata, compressFile, compressedUrl]);
 
   // Auto-compress when settings change
   useEffect(() => {
     if (originalImage) {
       compressImage();
     }
-  }, [originalImage, quality, targetSizeKB, outputFormat, compressionMode]);
+  }, [originalImage, quality, targetSizeKB, outputFormat, compressionMode, metadataMode, colorMode]);
 
-  const handleFileSelect = useCallback(async (file: File) => {
+  const handleFileSelect = useCallback(async (file: File, options: LoadOptions = {}) => {
     setIsProcessing(true);
     setError(null);
     setOriginalFile(file);
@@ -175,23 +158,14 @@ export function CompressImage() {
     }
 
     try {
-      const image = await loadImage(file);
+      const [image, fileMetadata] = await Promise.all([loadImage(file, options), readImageMetadata(file)]);
       setIsConvertingHeic(false);
+      setMetadata(fileMetadata);
       setOriginalImage(image);
 
       // Create a display URL for the original image (needed for HEIC files)
-      const canvas = document.createElement('canvas');
-      canvas.width = image.naturalWidth;
-      canvas.height = image.naturalHeight;
-      const ctx = canvas.getContext('2d')!;
-      ctx.drawImage(image, 0, 0);
-
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          setOriginalImageUrl(url);
-        }
-      }, 'image/jpeg', 0.95);
+      const preview = await encodeImage(image, { type: 'blob', mimeType: 'image/jpeg', quality: 0.95 });
+      setOriginalImageUrl(URL.createObjectURL(preview));
 
       // Set reasonable default target size based on original
       setTargetSizeKB(Math.round(file.size / 1024 / 2)); // Default to 50% of original
@@ -205,16 +179,22 @@ export function CompressImage() {
     }
   }, [compressedUrl, originalImageUrl]);
 
+  const handleFilesSelect = useCallback((files: File[], options: LoadOptions = {}) => {
+    setBatchFiles(files.length > 1 ? files : []);
+    setBatchLoadOptions(options);
+    handleFileSelect(files[0], options);
+  }, [handleFileSelect]);
+
+  const processBatchFile = useCallback(async (file: File, onProgress: ProgressCallback): Promise<BatchOutput> => {
+    const [image, fileMetadata] = await Promise.all([loadImage(file, batchLoadOptions), readImageMetadata(file)]);
+    const blob = await compressFile(image, file, fileMetadata, onProgress);
+    return { blob, filename: getCompressedFilename(file, outputFormat) };
+  }, [batchLoadOptions, compressFile, outputFormat]);
+
   const handleDownload = useCallback(() => {
     if (!compressedBlob || !originalFile) return;
 
-    const baseName = originalFile.name.replace(/\.[^/.]+$/, '');
-    let ext = 'jpg';
-    if (outputFormat === 'webp') ext = 'webp';
-    else if (outputFormat === 'original' && originalFile.type === 'image/png') ext = 'png';
-    else if (outputFormat === 'original' && originalFile.type === 'image/webp') ext = 'webp';
-
-    const filename = `${baseName}-compressed.${ext}`;
+    const filename = getCompressedFilename(originalFile, outputFormat);
 
     const url = URL.createObjectURL(compressedBlob);
     const link = document.createElement('a');
@@ -241,6 +221,7 @@ export function CompressImage() {
     setError(null);
     setQuality(80);
     setTargetSizeKB(500);
+    setBatchFiles([]);
   }, [compressedUrl, originalImageUrl]);
 
   const originalSize = originalFile?.size || 0;
@@ -287,7 +268,7 @@ export function CompressImage() {
                 </div>
               </div>
 
-              <FileUpload onFileSelect={handleFileSelect} disabled={isProcessing} />
+              <FileUpload onFilesSelect={handleFilesSelect} multiple disabled={isProcessing} />
 
               <div className="features">
                 <div className="feature">
@@ -386,6 +367,7 @@ export function CompressImage() {
                     <div className="mode-toggle-group">
                       <button
                         className={`mode-toggle-btn ${compressionMode === 'quality' ? 'active' : ''}`}
+                        aria-pressed={compressionMode === 'quality'}
                         onClick={() => setCompressionMode('quality')}
                       >
                         <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -395,6 +377,7 @@ export function CompressImage() {
                       </button>
                       <button
                         className={`mode-toggle-btn ${compressionMode === 'target-size' ? 'active' : ''}`}
+                        aria-pressed={compressionMode === 'target-size'}
                         onClick={() => setCompressionMode('target-size')}
                       >
                         <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -446,36 +429,46 @@ export function CompressImage() {
                         <div className="quick-size-btns">
                           <button
                             className={targetSizeKB === 100 ? 'active' : ''}
+                            aria-pressed={targetSizeKB === 100}
                             onClick={() => setTargetSizeKB(100)}
                           >100 KB</button>
                           <button
                             className={targetSizeKB === 250 ? 'active' : ''}
+                            aria-pressed={targetSizeKB === 250}
                             onClick={() => setTargetSizeKB(250)}
                           >250 KB</button>
                           <button
                             className={targetSizeKB === 500 ? 'active' : ''}
+                            aria-pressed={targetSizeKB === 500}
                             onClick={() => setTargetSizeKB(500)}
                           >500 KB</button>
                           <button
                             className={targetSizeKB === 1000 ? 'active' : ''}
+                            aria-pressed={targetSizeKB === 1000}
                             onClick={() => setTargetSizeKB(1000)}
                           >1 MB</button>
                         </div>
                       </div>
                     )}
 
+                    <ColorProfilePanel profile={metadata.icc} mode={colorMode} onModeChange={setColorMode} showSize />
+
+                    <MetadataPanel metadata={metadata} mode={metadataMode} onModeChange={setMetadataMode} />
+
                     {/* Output Format */}
                     <div className="format-section">
                       <p className="helper-text">Output format:</p>
                       <div className="format-toggle-btns">
                         <button
                           className={`format-toggle-btn ${outputFormat === 'jpeg' ? 'active' : ''}`}
+                          aria-pressed={outputFormat === 'jpeg'}
                           onClick={() => setOutputFormat('jpeg')}
                         >
                           JPEG
                         </button>
                         <button
                           className={`format-toggle-btn ${outputFormat === 'webp' ? 'active' : ''}`}
+                          aria-pressed={outputFormat === 'webp'}
                           onClick={() => setOutputFormat('webp')}
                         >
                           WebP
@@ -500,6 +493,15 @@ export function CompressImage() {
                       </div>
                     )}
 
+                    {batchFiles.length > 1 && (
+                      <BatchQueue
+                        files={batchFiles}
+                        processFile={processBatchFile}
+                        archiveName="compressed-images.zip"
+                        onClear={() => setBatchFiles([])}
+                      />
+                    )}
+
                     {/* Download Section */}
                     <div className="download-section-simple">
                       <button
@@ -1,11 +1,34 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { FileUpload } from '../components/FileUpload';
 import { Header } from '../components/Header';
-import { loadImage, isHeicFile } from '../processor';
-
-interface CropArea {
-  x: number;
-  y: number;
+import { DpiSelector } from '../components/DpiSelector';
+import { MetadataPanel } from '../components/MetadataPanel';
+import { ColorProfilePanel } from '../components/ColorProfilePanel';
+import { HistoryControls } from '../components/HistoryControls';
+import { NumberField } from '../components/NumberField';
+import { useHistory, useHistoryShortcuts } from '../hooks/useHistory';
+import { loadImage, LoadOptions, isHeicFile } from '../processor';
+import { SCREEN_DPI } from '../constants';
+import {
+  CropArea,
+  CropHandle,
+  MAX_STRAIGHTEN_ANGLE,
+  getInitialCropArea,
+  moveCropArea,
+  resizeCropArea,
+  getRotatedSize,
+  getStraightenedBounds,
+  editWithinBounds,
+  setCropAreaValue,
+} from '../utils/crop';
+import { setImageDpi } from '../utils/dpi';
+import { getArrowKeyDelta } from '../utils/a11y';
+import { ImageTransform, isMirrored } from '../utils/transform';
+import { ImageMetadata, MetadataMode, EMPTY_METADATA, readImageMetadata, embedMetadata } from '../utils/metadata';
+import { ColorProfileMode, resolveColorHandling, embedIccProfile } from '../utils/icc';
+import { runJob, encodeImage } from '../utils/processing';
+
+interface Size {
   width: number;
   height: number;
 }
@@ -14,6 +37,8 @@ interface AspectRatioPreset {
   name: string;
   ratio: number | null; // null = freeform
   label: string;
+  terms?: Size;         // W:H of a custom ratio
+  outputSize?: Size;    // Exact export size, which also locks the ratio
 }
 
 const ASPECT_PRESETS: AspectRatioPreset[] = [
@@ -27,6 +52,119 @@ const ASPECT_PRESETS: AspectRatioPreset[] = [
   { name: 'a4-landscape', ratio: Math.sqrt(2), label: 'A4 Landscape' },
 ];
 
+const DEFAULT_CUSTOM_RATIO: Size = { width: 4, height: 5 };
+const DEFAULT_OUTPUT_SIZE: Size = { width: 1080, height: 1350 };
+const MAX_OUTPUT_SIZE = 10000;
+
+function getCustomRatioPreset(terms: Size): AspectRatioPreset {
+  return { name: 'custom', ratio: terms.width / terms.height, label: `${terms.width}:${terms.height}`, terms };
+}
+
+function getOutputSizePreset(outputSize: Size): AspectRatioPreset {
+  return { name: 'output-size', ratio: outputSize.width / outputSize.height, label: `${outputSize.width} × ${outputSize.height}`, outputSize };
+}
+
+// Custom presets are rebuilt on every change, so they are compared by value
+function isSamePreset(a: AspectRatioPreset, b: AspectRatioPreset): boolean {
+  return a.name === b.name && a.label === b.label;
+}
+
+const CROP_FIELDS: { key: keyof CropArea; label: string }[] = [
+  { key: 'x', label: 'Left' },
+  { key: 'y', label: 'Top' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+];
+
+type CropFieldUnit = 'px' | '%';
+
+// What undo/redo steps through
+interface CropState extends ImageTransform {
+  preset: AspectRatioPreset;
+  cropArea: CropArea;     // In the quarter-turned image
+  straighten: number;     // Fine rotation on top, ±MAX_STRAIGHTEN_ANGLE
+}
+
+const INITIAL_CROP_STATE: CropState = {
+  preset: ASPECT_PRESETS[0],
+  cropArea: { x: 0, y: 0, width: 100, height: 100 },
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  straighten: 0,
+};
+
+/**
+ * Crop to start from after a rotation or ratio change: 80% centred when level,
+ * otherwise the largest area without blank corners
+ */
+function getStartingCrop(frameW: number, frameH: number, straighten: number, ratio: number | null): CropArea {
+  return straighten === 0
+    ? getInitialCropArea(frameW, frameH, ratio)
+    : getStraightenedBounds(frameW, frameH, straighten, ratio);
+}
+
+const HANDLE_LABELS: Record<CropHandle, string> = {
+  nw: 'top-left',
+  ne: 'top-right',
+  sw: 'bottom-left',
+  se: 'bottom-right',
+};
+
+// Keyboard steps in source pixels
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+
+/**
+ * Screen-reader summary of the crop, in source pixels
+ */
+function describeCrop({ preset, cropArea, rotation, flipHorizontal, flipVertical, straighten }: CropState): string {
+  const width = Math.round(cropArea.width);
+  const height = Math.round(cropArea.height);
+  const ratio = preset.ratio ? preset.label : `${(width / height).toFixed(2)}:1`;
+  const rotated = rotation !== 0 ? `, rotated ${rotation} degrees` : '';
+  const straightened = straighten !== 0 ? `, straightened ${straighten} degrees` : '';
+  const output = preset.outputSize ? `, output ${preset.outputSize.width} by ${preset.outputSize.height} pixels` : '';
+  const flipped = [flipHorizontal && ', flipped horizontally', flipVertical && ', flipped vertically'].filter(Boolean).join('');
+  return `Crop ${width} by ${height} pixels at ${Math.round(cropArea.x)}, ${Math.round(cropArea.y)}, aspect ratio ${ratio}${output}${rotated}${straightened}${flipped}`;
+}
+
+// Pinch zoom of the view; crop values stay in image pixels
+const MAX_ZOOM = 5;
+
+interface CropView {
+  zoom: number;
+  x: number;  // Offset of the zoomed image in the viewport, display px
+  y: number;
+}
+
+const DEFAULT_VIEW: CropView = { zoom: 1, x: 0, y: 0 };
+
+interface PinchStart {
+  distance: number;
+  midX: number;
+  midY: number;
+  view: CropView;
+}
+
+/**
+ * Keeps the zoomed image covering the whole viewport
+ */
+function clampView(view: CropView, width: number, height: number): CropView {
+  return {
+    zoom: view.zoom,
+    x: Math.min(0, Math.max(width - width * view.zoom, view.x)),
+    y: Math.min(0, Math.max(height - height * view.zoom, view.y)),
+  };
+}
+
+function isSameCropState(a: CropState, b: CropState): boolean {
+  return isSamePreset(a.preset, b.preset) && a.rotation === b.rotation && a.straighten === b.straighten &&
+    a.flipHorizontal === b.flipHorizontal && a.flipVertical === b.flipVertical &&
+    a.cropArea.x === b.cropArea.x && a.cropArea.y === b.cropArea.y &&
+    a.cropArea.width === b.cropArea.width && a.cropArea.height === b.cropArea.height;
+}
+
 export function CropImage() {
   const [originalFile, setOriginalFile] = useState<File | null>(null);
   const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
@@ -36,19 +174,32 @@ export function CropImage() {
   const [error, setError] = useState<string | null>(null);
 
   // Crop controls
-  const [selectedPreset, setSelectedPreset] = useState<AspectRatioPreset>(ASPECT_PRESETS[0]);
-  const [cropArea, setCropArea] = useState<CropArea>({ x: 0, y: 0, width: 100, height: 100 });
-  const [rotation, setRotation] = useState<number>(0);
+  const history = useHistory<CropState>(INITIAL_CROP_STATE, isSameCropState);
+  const { preset: selectedPreset, cropArea, rotation, flipHorizontal, flipVertical, straighten } = history.present;
   const [exportFormat, setExportFormat] = useState<'png' | 'jpeg'>('jpeg');
+  const [dpi, setDpi] = useState<number>(SCREEN_DPI);
+  const [metadata, setMetadata] = useState<ImageMetadata>(EMPTY_METADATA);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>('strip');
+  const [colorMode, setColorMode] = useState<ColorProfileMode>('convert');
 
   // Interaction state
   const [isDragging, setIsDragging] = useState(false);
-  const [isResizing, setIsResizing] = useState<string | null>(null);
+  const [isResizing, setIsResizing] = useState<CropHandle | null>(null);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [cropStart, setCropStart] = useState<CropArea>({ x: 0, y: 0, width: 0, height: 0 });
+  const [view, setView] = useState<CropView>(DEFAULT_VIEW);
+  const [announcement, setAnnouncement] = useState('');
+  const [isStraightening, setIsStraightening] = useState(false);
+  // Last values of the custom ratio and output size, for switching back to them
+  const [customRatio, setCustomRatio] = useState<Size>(DEFAULT_CUSTOM_RATIO);
+  const [outputSize, setOutputSize] = useState<Size>(DEFAULT_OUTPUT_SIZE);
+  const [fieldUnit, setFieldUnit] = useState<CropFieldUnit>('px');
 
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
+  // Pointers currently down on the crop area, in viewport coordinates
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<PinchStart | null>(null);
 
   // Calculate display scale - start with a small scale to prevent initial overflow
   const [displayScale, setDisplayScale] = useState(0.1);
@@ -62,7 +213,16 @@ export function CropImage() {
     };
   }, [imageUrl]);
 
-  // Calculate display scale when image loads or container resizes
+  // The image as turned by quarter turns; crop coordinates are in this frame
+  const frame = originalImage
+    ? getRotatedSize(originalImage.naturalWidth, originalImage.naturalHeight, rotation)
+    : { width: 0, height: 0 };
+  // Where the crop may go: the whole frame, or the part without blank corners once straightened
+  const cropBounds = straighten !== 0
+    ? getStraightenedBounds(frame.width, frame.height, straighten, selectedPreset.ratio)
+    : { x: 0, y: 0, ...frame };
+
+  // Calculate display scale when image loads, turns or container resizes
   useEffect(() => {
     if (!originalImage) return;
 
@@ -70,9 +230,10 @@ export function CropImage() {
       // Use fixed max dimensions for the preview area
       const maxWidth = 550;
       const maxHeight = 380;
-      const scaleX = maxWidth / originalImage.naturalWidth;
-      const scaleY = maxHeight / originalImage.naturalHeight;
+      const scaleX = maxWidth / frame.width;
+      const scaleY = maxHeight / frame.height;
       setDisplayScale(Math.min(scaleX, scaleY, 1));
+      setView(DEFAULT_VIEW);
     };
 
     // Calculate immediately
@@ -84,39 +245,21 @@ export function CropImage() {
     return () => {
       window.removeEventListener('resize', updateScale);
     };
-  }, [originalImage]);
+  }, [originalImage, frame.width, frame.height]);
 
-  // Initialize crop area when image loads
-  useEffect(() => {
-    if (originalImage) {
-      const w = originalImage.naturalWidth;
-      const h = originalImage.naturalHeight;
-
-      let cropW = w * 0.8;
-      let cropH = h * 0.8;
-
-      if (selectedPreset.ratio) {
-        if (cropW / cropH > selectedPreset.ratio) {
-          cropW = cropH * selectedPreset.ratio;
-        } else {
-          cropH = cropW / selectedPreset.ratio;
-        }
-      }
+  useHistoryShortcuts(history, !!originalImage);
 
-      setCropArea({
-        x: (w - cropW) / 2,
-        y: (h - cropH) / 2,
-        width: cropW,
-        height: cropH,
-      });
+  // Announce the crop once it settles, not on every pointer move
+  useEffect(() => {
+    if (originalImage && !isDragging && !isResizing) {
+      setAnnouncement(describeCrop(history.present));
     }
-  }, [originalImage, selectedPreset.ratio]);
+  }, [originalImage, isDragging, isResizing, history.present]);
 
-  const handleFileSelect = useCallback(async (file: File) => {
+  const handleFileSelect = useCallback(async (file: File, options: LoadOptions = {}) => {
     setIsProcessing(true);
     setError(null);
     setOriginalFile(file);
-    setRotation(0);
 
     // Cleanup old URL
     if (imageUrl) {
@@ -129,24 +272,24 @@ export function CropImage() {
     }
 
     try {
-      const image = await loadImage(file);
+      const [image, fileMetadata] = await Promise.all([loadImage(file, options), readImageMetadata(file)]);
       setIsConvertingHeic(false);
       setOriginalImage(image);
+      setMetadata(fileMetadata);
+      // A new image starts a new history, keeping the chosen ratio
+      history.restart({
+        preset: selectedPreset,
+        cropArea: getInitialCropArea(image.naturalWidth, image.naturalHeight, selectedPreset.ratio),
+        rotation: 0,
+        flipHorizontal: false,
+        flipVertical: false,
+        straighten: 0,
+      });
 
-      // Create a display URL by drawing to canvas and converting to blob
+      // Create a display URL by encoding the decoded image
       // This is needed because loadImage revokes its internal URL
-      const canvas = document.createElement('canvas');
-      canvas.width = image.naturalWidth;
-      canvas.height = image.naturalHeight;
-      const ctx = canvas.getContext('2d')!;
-      ctx.drawImage(image, 0, 0);
-
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          setImageUrl(url);
-        }
-      }, 'image/jpeg', 0.95);
+      const blob = await encodeImage(image, { type: 'blob', mimeType: 'image/jpeg', quality: 0.95 });
+      setImageUrl(URL.createObjectURL(blob));
     } catch (err) {
       console.error('Processing error:', err);
       setError(err instanceof Error ? err.message : 'Failed to load image');
@@ -155,44 +298,128 @@ export function CropImage() {
       setIsProcessing(false);
       setIsConvertingHeic(false);
     }
-  }, [imageUrl]);
+  }, [imageUrl, history.restart, selectedPreset]);
 
   const handlePresetChange = useCallback((preset: AspectRatioPreset) => {
-    setSelectedPreset(preset);
-
-    if (originalImage && preset.ratio) {
-      const w = originalImage.naturalWidth;
-      const h = originalImage.naturalHeight;
-
-      let newW = cropArea.width;
-      let newH = cropArea.height;
+    if (!originalImage) return;
+    history.record({
+      ...history.present,
+      preset,
+      cropArea: getStartingCrop(frame.width, frame.height, straighten, preset.ratio),
+    });
+  }, [originalImage, frame.width, frame.height, straighten, history.record, history.present]);
+
+  // A typed ratio or output size, applied when the field is left or Enter is pressed
+  const handlePresetInput = useCallback((preset: AspectRatioPreset) => {
+    if (!originalImage) return;
+    if (preset.terms) setCustomRatio(preset.terms);
+    if (preset.outputSize) setOutputSize(preset.outputSize);
+    history.record({
+      ...history.present,
+      preset,
+      cropArea: getStartingCrop(frame.width, frame.height, straighten, preset.ratio),
+    });
+  }, [originalImage, frame.width, frame.height, straighten, history.record, history.present]);
+
+  // Crop fields edit the same area as the drag box, in px or % of the turned image
+  const getFieldValue = (key: keyof CropArea): number => {
+    if (fieldUnit === 'px') return Math.round(cropArea[key]);
+    const size = key === 'x' || key === 'width' ? frame.width : frame.height;
+    return Math.round((cropArea[key] / size) * 1000) / 10;
+  };
+
+  const handleCropFieldChange = useCallback((key: keyof CropArea, value: number) => {
+    if (!originalImage) return;
+    const size = key === 'x' || key === 'width' ? frame.width : frame.height;
+    const pixels = fieldUnit === '%' ? (value / 100) * size : value;
+    history.record({
+      ...history.present,
+      cropArea: setCropAreaValue(cropArea, key, pixels, cropBounds, selectedPreset.ratio),
+    });
+  }, [originalImage, fieldUnit, frame.width, frame.height, cropArea, cropBounds, selectedPreset.ratio, history.record, history.present]);
 
-      if (newW / newH > preset.ratio) {
-        newW = newH * preset.ratio;
-      } else {
-        newH = newW / preset.ratio;
-      }
+  const handleRotate = useCallback((degrees: number) => {
+    if (!originalImage) return;
+    // Mirroring reverses the visible direction of a turn
+    const turn = isMirrored(history.present) ? -degrees : degrees;
+    const nextRotation = (rotation + turn) % 360;
+    // A quarter turn swaps the frame, so the crop starts over
+    const nextFrame = getRotatedSize(originalImage.naturalWidth, originalImage.naturalHeight, nextRotation);
+    history.record({
+      ...history.present,
+      rotation: nextRotation,
+      cropArea: getStartingCrop(nextFrame.width, nextFrame.height, straighten, selectedPreset.ratio),
+    });
+  }, [originalImage, rotation, straighten, selectedPreset.ratio, history.record, history.present]);
+
+  // Mirrors the view; the crop is mirrored with it so it stays over the same content
+  const handleFlip = useCallback((axis: 'horizontal' | 'vertical') => {
+    if (!originalImage) return;
+    const area = history.present.cropArea;
+    history.record(axis === 'horizontal'
+      ? { ...history.present, flipHorizontal: !flipHorizontal, cropArea: { ...area, x: frame.width - area.x - area.width } }
+      : { ...history.present, flipVertical: !flipVertical, cropArea: { ...area, y: frame.height - area.y - area.height } });
+  }, [originalImage, flipHorizontal, flipVertical, frame.width, frame.height, history.record, history.present]);
+
+  // Live while the slider moves; the crop follows the largest area without blank corners
+  const handleStraightenChange = useCallback((angle: number) => {
+    setIsStraightening(true);
+    history.update({
+      ...history.present,
+      straighten: angle,
+      cropArea: getStraightenedBounds(frame.width, frame.height, angle, selectedPreset.ratio),
+    });
+  }, [frame.width, frame.height, selectedPreset.ratio, history.update, history.present]);
+
+  const handleStraightenEnd = useCallback(() => {
+    setIsStraightening(false);
+    history.commit();
+  }, [history.commit]);
+
+  const handleStraightenReset = useCallback(() => {
+    history.record({
+      ...history.present,
+      straighten: 0,
+      cropArea: getStraightenedBounds(frame.width, frame.height, 0, selectedPreset.ratio),
+    });
+  }, [frame.width, frame.height, selectedPreset.ratio, history.record, history.present]);
+
+  const baseWidth = frame.width * displayScale;
+  const baseHeight = frame.height * displayScale;
+  // Display px per image px, including the pinch zoom
+  const viewScale = displayScale * view.zoom;
+
+  const getPointerPosition = useCallback((e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }, []);
 
-      const centerX = cropArea.x + cropArea.width / 2;
-      const centerY = cropArea.y + cropArea.height / 2;
+  // Every pointer is captured by the viewport so drags keep working outside it
+  const handlePointerDownCapture = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
 
-      const newX = Math.max(0, Math.min(w - newW, centerX - newW / 2));
-      const newY = Math.max(0, Math.min(h - newH, centerY - newH / 2));
+    pointersRef.current.set(e.pointerId, getPointerPosition(e));
+    e.currentTarget.setPointerCapture(e.pointerId);
 
-      setCropArea({
-        x: newX,
-        y: newY,
-        width: newW,
-        height: newH,
-      });
+    if (pointersRef.current.size === 2) {
+      // A second finger turns the gesture into a pinch; any crop drag is dropped
+      if (isDragging || isResizing) {
+        history.cancel();
+        setIsDragging(false);
+        setIsResizing(null);
+      }
+      const [a, b] = [...pointersRef.current.values()];
+      pinchRef.current = {
+        distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+        midX: (a.x + b.x) / 2,
+        midY: (a.y + b.y) / 2,
+        view,
+      };
     }
-  }, [originalImage, cropArea]);
+  }, [getPointerPosition, isDragging, isResizing, history.cancel, view]);
 
-  const handleRotate = useCallback((degrees: number) => {
-    setRotation((prev) => (prev + degrees) % 360);
-  }, []);
-
-  const handleMouseDown = useCallback((e: React.MouseEvent, handle?: string) => {
+  const handleCropPointerDown = useCallback((e: React.PointerEvent, handle?: CropHandle) => {
+    if (pointersRef.current.size > 1 || (e.pointerType === 'mouse' && e.button !== 0)) return;
     e.preventDefault();
     e.stopPropagation();
 
@@ -205,168 +432,116 @@ export function CropImage() {
     setCropStart({ ...cropArea });
   }, [cropArea]);
 
-  const handleMouseMove = useCallback((e: React.MouseEvent) => {
+  // Arrows move the box (Shift for larger steps); Alt+arrows, or arrows on a handle, resize it
+  const handleCropKeyDown = useCallback((e: React.KeyboardEvent, handle?: CropHandle) => {
+    const delta = getArrowKeyDelta(e.key, e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP);
+    if (!delta || !originalImage) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const resizeHandle = handle ?? (e.altKey ? 'se' : null);
+
+    history.record({
+      ...history.present,
+      cropArea: editWithinBounds(cropArea, cropBounds, (local, width, height) => resizeHandle
+        ? resizeCropArea(local, resizeHandle, delta.x, delta.y, width, height, selectedPreset.ratio)
+        : moveCropArea(local, delta.x, delta.y, width, height)),
+    });
+  }, [originalImage, cropArea, cropBounds, selectedPreset.ratio, history.record, history.present]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, getPointerPosition(e));
+
+    const pinch = pinchRef.current;
+    if (pinch) {
+      if (pointersRef.current.size < 2) return;
+      const [a, b] = [...pointersRef.current.values()];
+      const zoom = Math.max(1, Math.min(MAX_ZOOM, pinch.view.zoom * Math.hypot(b.x - a.x, b.y - a.y) / pinch.distance));
+      // The image point that was under the fingers stays under them
+      const pointX = (pinch.midX - pinch.view.x) / pinch.view.zoom;
+      const pointY = (pinch.midY - pinch.view.y) / pinch.view.zoom;
+      setView(clampView({
+        zoom,
+        x: (a.x + b.x) / 2 - pointX * zoom,
+        y: (a.y + b.y) / 2 - pointY * zoom,
+      }, baseWidth, baseHeight));
+      return;
+    }
+
     if (!isDragging && !isResizing) return;
     if (!originalImage) return;
 
-    const deltaX = (e.clientX - dragStart.x) / displayScale;
-    const deltaY = (e.clientY - dragStart.y) / displayScale;
+    const deltaX = (e.clientX - dragStart.x) / viewScale;
+    const deltaY = (e.clientY - dragStart.y) / viewScale;
 
-    const imgW = originalImage.naturalWidth;
-    const imgH = originalImage.naturalHeight;
+    // Live changes; the whole drag becomes one undo step on release
+    const next = editWithinBounds(cropStart, cropBounds, (local, width, height) => isResizing
+      ? resizeCropArea(local, isResizing, deltaX, deltaY, width, height, selectedPreset.ratio)
+      : moveCropArea(local, deltaX, deltaY, width, height));
+    history.update({ ...history.present, cropArea: next });
+  }, [getPointerPosition, baseWidth, baseHeight, isDragging, isResizing, dragStart, viewScale, originalImage, cropBounds, selectedPreset.ratio, cropStart, history.update, history.present]);
 
-    if (isDragging) {
-      const newX = Math.max(0, Math.min(imgW - cropStart.width, cropStart.x + deltaX));
-      const newY = Math.max(0, Math.min(imgH - cropStart.height, cropStart.y + deltaY));
+  const handlePointerUp = useCallback((e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
 
-      setCropArea({
-        ...cropStart,
-        x: newX,
-        y: newY,
-      });
-    } else if (isResizing) {
-      let newArea = { ...cropStart };
-
-      switch (isResizing) {
-        case 'se':
-          newArea.width = Math.max(50, Math.min(imgW - cropStart.x, cropStart.width + deltaX));
-          newArea.height = Math.max(50, Math.min(imgH - cropStart.y, cropStart.height + deltaY));
-          break;
-        case 'sw': {
-          const newWidth = Math.max(50, cropStart.width - deltaX);
-          newArea.x = cropStart.x + cropStart.width - newWidth;
-          newArea.width = newWidth;
-          newArea.height = Math.max(50, Math.min(imgH - cropStart.y, cropStart.height + deltaY));
-          if (newArea.x < 0) {
-            newArea.width += newArea.x;
-            newArea.x = 0;
-          }
-          break;
-        }
-        case 'ne': {
-          newArea.width = Math.max(50, Math.min(imgW - cropStart.x, cropStart.width + deltaX));
-          const newHeight = Math.max(50, cropStart.height - deltaY);
-          newArea.y = cropStart.y + cropStart.height - newHeight;
-          newArea.height = newHeight;
-          if (newArea.y < 0) {
-            newArea.height += newArea.y;
-            newArea.y = 0;
-          }
-          break;
-        }
-        case 'nw': {
-          const newWidth = Math.max(50, cropStart.width - deltaX);
-          const newHeight = Math.max(50, cropStart.height - deltaY);
-          newArea.x = cropStart.x + cropStart.width - newWidth;
-          newArea.y = cropStart.y + cropStart.height - newHeight;
-          newArea.width = newWidth;
-          newArea.height = newHeight;
-          if (newArea.x < 0) {
-            newArea.width += newArea.x;
-            newArea.x = 0;
-          }
-          if (newArea.y < 0) {
-            newArea.height += newArea.y;
-            newArea.y = 0;
-          }
-          break;
-        }
+    // The finger left after a pinch does nothing until it is lifted
+    if (pinchRef.current) {
+      if (pointersRef.current.size === 0) {
+        pinchRef.current = null;
       }
-
-      // Apply aspect ratio constraint
-      if (selectedPreset.ratio) {
-        const targetRatio = selectedPreset.ratio;
-        if (isResizing.includes('e') || isResizing.includes('w')) {
-          newArea.height = newArea.width / targetRatio;
-        } else {
-          newArea.width = newArea.height * targetRatio;
-        }
-        // Clamp to bounds
-        if (newArea.x + newArea.width > imgW) {
-          newArea.width = imgW - newArea.x;
-          newArea.height = newArea.width / targetRatio;
-        }
-        if (newArea.y + newArea.height > imgH) {
-          newArea.height = imgH - newArea.y;
-          newArea.width = newArea.height * targetRatio;
-        }
-      }
-
-      setCropArea(newArea);
+      return;
     }
-  }, [isDragging, isResizing, dragStart, displayScale, originalImage, selectedPreset.ratio, cropStart]);
 
-  const handleMouseUp = useCallback(() => {
+    if (isDragging || isResizing) {
+      history.commit();
+    }
     setIsDragging(false);
     setIsResizing(null);
-  }, []);
-
-  const handleCropAndDownload = useCallback(() => {
-    if (!originalImage) return;
-
-    const canvas = document.createElement('canvas');
-    canvas.width = Math.round(cropArea.width);
-    canvas.height = Math.round(cropArea.height);
-    const ctx = canvas.getContext('2d')!;
-
-    if (rotation !== 0) {
-      const rotatedCanvas = document.createElement('canvas');
-      const rad = (rotation * Math.PI) / 180;
-
-      if (rotation === 90 || rotation === 270 || rotation === -90 || rotation === -270) {
-        rotatedCanvas.width = originalImage.naturalHeight;
-        rotatedCanvas.height = originalImage.naturalWidth;
-      } else {
-        rotatedCanvas.width = originalImage.naturalWidth;
-        rotatedCanvas.height = originalImage.naturalHeight;
-      }
+  }, [isDragging, isResizing, history.commit]);
 
-      const rctx = rotatedCanvas.getContext('2d')!;
-      rctx.translate(rotatedCanvas.width / 2, rotatedCanvas.height / 2);
-      rctx.rotate(rad);
-      rctx.drawImage(
-        originalImage,
-        -originalImage.naturalWidth / 2,
-        -originalImage.naturalHeight / 2
-      );
-
-      ctx.drawImage(
-        rotatedCanvas,
-        cropArea.x, cropArea.y, cropArea.width, cropArea.height,
-        0, 0, cropArea.width, cropArea.height
-      );
-    } else {
-      ctx.drawImage(
-        originalImage,
-        cropArea.x, cropArea.y, cropArea.width, cropArea.height,
-        0, 0, cropArea.width, cropArea.height
-      );
-    }
+  const handleCropAndDownload = useCallback(async () => {
+    if (!originalImage || !originalFile) return;
 
+    const { colorSpace, embed: iccProfile } = resolveColorHandling(metadata.icc, colorMode);
     const mimeType = exportFormat === 'jpeg' ? 'image/jpeg' : 'image/png';
     const quality = exportFormat === 'jpeg' ? 0.92 : undefined;
 
-    canvas.toBlob(
-      (blob) => {
-        if (!blob || !originalFile) return;
-
-        const baseName = originalFile.name.replace(/\.[^/.]+$/, '');
-        const ext = exportFormat === 'jpeg' ? 'jpg' : 'png';
-        const filename = `${baseName}-cropped.${ext}`;
-
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-      },
-      mimeType,
-      quality
-    );
-  }, [originalImage, cropArea, rotation, exportFormat, originalFile]);
+    try {
+      const { outputSize: exactSize } = selectedPreset;
+      const { blob: encoded } = await runJob(originalImage, {
+        operations: [
+          { type: 'crop', rect: cropArea, rotation, straighten, flipHorizontal, flipVertical },
+          // Resampled to exactly the requested pixels
+          ...(exactSize ? [{ type: 'resize' as const, width: exactSize.width, height: exactSize.height }] : []),
+        ],
+        output: { type: 'blob', mimeType, quality },
+        colorSpace,
+      });
+
+      let blob = await setImageDpi(encoded!, dpi);
+      if (iccProfile) {
+        blob = await embedIccProfile(blob, iccProfile);
+      }
+      blob = await embedMetadata(blob, metadata, metadataMode);
+
+      const baseName = originalFile.name.replace(/\.[^/.]+$/, '');
+      const ext = exportFormat === 'jpeg' ? 'jpg' : 'png';
+      const filename = `${baseName}-cropped.${ext}`;
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Crop error:', err);
+      setError('Failed to crop image');
+    }
+  }, [originalImage, cropArea, rotation, straighten, flipHorizontal, flipVertical, selectedPreset, exportFormat, dpi, metadata, metadataMode, colorMode, originalFile]);
 
   const handleReset = useCallback(() => {
     if (imageUrl) {
@@ -376,13 +551,13 @@ export function CropImage() {
     setOriginalImage(null);
     setImageUrl(null);
     setError(null);
-    setCropArea({ x: 0, y: 0, width: 100, height: 100 });
-    setRotation(0);
-    setSelectedPreset(ASPECT_PRESETS[0]);
-  }, [imageUrl]);
+    history.restart(INITIAL_CROP_STATE);
+  }, [imageUrl, history.restart]);
 
-  const displayWidth = originalImage ? originalImage.naturalWidth * displayScale : 0;
-  const displayHeight = originalImage ? originalImage.naturalHeight * displayScale : 0;
+  const displayWidth = frame.width * viewScale;
+  const displayHeight = frame.height * viewScale;
+  const imageWidth = originalImage ? originalImage.naturalWidth * viewScale : 0;
+  const imageHeight = originalImage ? originalImage.naturalHeight * viewScale : 0;
 
   return (
     <div className="app">
@@ -443,7 +618,7 @@ export function CropImage() {
                   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                     <polyline points="20 6 9 17 4 12" />
                   </svg>
-                  <span>Rotation support</span>
+                  <span>Rotation, flipping & straightening</span>
                 </div>
               </div>
             </section>
@@ -485,19 +660,27 @@ export function CropImage() {
                         </svg>
                       </div>
                       <div className="size-new">
-                        <span className="size-label">Crop area</span>
-                        <span className="size-value">{Math.round(cropArea.width)} × {Math.round(cropArea.height)}</span>
+                        <span className="size-label">{selectedPreset.outputSize ? 'Output' : 'Crop area'}</span>
+                        <span className="size-value">
+                          {selectedPreset.outputSize
+                            ? `${selectedPreset.outputSize.width} × ${selectedPreset.outputSize.height}`
+                            : `${Math.round(cropArea.width)} × ${Math.round(cropArea.height)}`}
+                        </span>
                       </div>
                     </div>
 
+                    <HistoryControls history={history} resetLabel="Reset crop" />
+
                     {/* Crop Canvas */}
                     <div className="preview-image-wrapper">
                       <div
                         ref={containerRef}
-                        className="crop-canvas-wrapper"
-                        onMouseMove={handleMouseMove}
-                        onMouseUp={handleMouseUp}
-                        onMouseLeave={handleMouseUp}
+                        className={`crop-canvas-wrapper zoomable ${view.zoom > 1 ? 'zoomed' : ''}`}
+                        style={{ width: baseWidth, height: baseHeight }}
+                        onPointerDownCapture={handlePointerDownCapture}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
                       >
                       <div
                         className="crop-image-container"
@@ -505,20 +688,30 @@ export function CropImage() {
                           width: displayWidth,
                           height: displayHeight,
                           position: 'relative',
+                          transform: `translate(${view.x}px, ${view.y}px)`,
                         }}
                       >
-                        {/* Base image */}
-                        <img
-                          src={imageUrl}
-                          alt="Original"
-                          style={{
-                            width: displayWidth,
-                            height: displayHeight,
-                            display: 'block',
-                            transform: `rotate(${rotation}deg)`,
-                          }}
-                          draggable={false}
-                        />
+                        {/* Base image, turned about the frame centre; the frame clips the tilted corners */}
+                        <div className="crop-image-clip">
+                          <img
+                            src={imageUrl}
+                            alt="Original"
+                            style={{
+                              position: 'absolute',
+                              left: (displayWidth - imageWidth) / 2,
+                              top: (displayHeight - imageHeight) / 2,
+                              width: imageWidth,
+                              height: imageHeight,
+                              display: 'block',
+                              // Mirrored after rotating, matching the export
+                              transform: `scale(${flipHorizontal ? -1 : 1}, ${flipVertical ? -1 : 1}) rotate(${rotation + straighten}deg)`,
+                            }}
+                            draggable={false}
+                          />
+                        </div>
+
+                        {/* Straightening grid while the angle is adjusted */}
+                        {isStraightening && <div className="straighten-grid" />}
 
                           {/* Dark overlay with transparent crop window */}
                           <svg
@@ -535,10 +728,10 @@ export function CropImage() {
                               <mask id="cropMask">
                                 <rect x="0" y="0" width="100%" height="100%" fill="white" />
                                 <rect
-                                  x={cropArea.x * displayScale}
-                                  y={cropArea.y * displayScale}
-                                  width={cropArea.width * displayScale}
-                                  height={cropArea.height * displayScale}
+                                  x={cropArea.x * viewScale}
+                                  y={cropArea.y * viewScale}
+                                  width={cropArea.width * viewScale}
+                                  height={cropArea.height * viewScale}
                                   fill="black"
                                 />
                               </mask>
@@ -558,15 +751,20 @@ export function CropImage() {
                             className="crop-selection"
                             style={{
                               position: 'absolute',
-                              left: cropArea.x * displayScale,
-                              top: cropArea.y * displayScale,
-                              width: cropArea.width * displayScale,
-                              height: cropArea.height * displayScale,
+                              left: cropArea.x * viewScale,
+                              top: cropArea.y * viewScale,
+                              width: cropArea.width * viewScale,
+                              height: cropArea.height * viewScale,
                               border: '2px solid white',
                               boxSizing: 'border-box',
                               cursor: 'move',
                             }}
-                            onMouseDown={(e) => handleMouseDown(e)}
+                            onPointerDown={(e) => handleCropPointerDown(e)}
+                            onKeyDown={(e) => handleCropKeyDown(e)}
+                            tabIndex={0}
+                            role="group"
+                            aria-label="Crop area"
+                            aria-describedby="crop-keyboard-help"
                           >
                             {/* Grid lines */}
                             <div className="crop-grid">
@@ -577,14 +775,37 @@ export function CropImage() {
                             </div>
 
                             {/* Resize handles */}
-                            <div className="crop-handle nw" onMouseDown={(e) => handleMouseDown(e, 'nw')} />
-                            <div className="crop-handle ne" onMouseDown={(e) => handleMouseDown(e, 'ne')} />
-                            <div className="crop-handle sw" onMouseDown={(e) => handleMouseDown(e, 'sw')} />
-                            <div className="crop-handle se" onMouseDown={(e) => handleMouseDown(e, 'se')} />
+                            {(Object.keys(HANDLE_LABELS) as CropHandle[]).map((handle) => (
+                              <div
+                                key={handle}
+                                className={`crop-handle ${handle}`}
+                                onPointerDown={(e) => handleCropPointerDown(e, handle)}
+                                onKeyDown={(e) => handleCropKeyDown(e, handle)}
+                                tabIndex={0}
+                                role="button"
+                                aria-label={`Resize from the ${HANDLE_LABELS[handle]} corner`}
+                                aria-describedby="crop-keyboard-help"
+                              />
+                            ))}
                           </div>
                         </div>
                       </div>
                     </div>
+                    <p id="crop-keyboard-help" className="visually-hidden">
+                      Arrow keys move the crop area, Shift+arrows move it 10 pixels, Alt+arrows resize it.
+                      On a corner handle, arrow keys move that corner.
+                    </p>
+                    <p className="visually-hidden" aria-live="polite" aria-atomic="true">
+                      {announcement}
+                    </p>
+                    {view.zoom > 1 && (
+                      <p className="format-hint crop-zoom-hint">
+                        Zoom {Math.round(view.zoom * 100)}%
+                        <button className="history-btn" onClick={() => setView(DEFAULT_VIEW)}>
+                          Fit to view
+                        </button>
+                      </p>
+                    )}
                     <button className="reset-link" onClick={handleReset}>
                       ← Choose a different image
                     </button>
@@ -602,12 +823,119 @@ export function CropImage() {
                           <button
                             key={preset.name}
                             className={`aspect-btn-new ${selectedPreset.name === preset.name ? 'active' : ''}`}
+                            aria-pressed={selectedPreset.name === preset.name}
                             onClick={() => handlePresetChange(preset)}
                           >
                             {preset.label}
                           </button>
                         ))}
+                        <button
+                          className={`aspect-btn-new ${selectedPreset.name === 'custom' ? 'active' : ''}`}
+                          aria-pressed={selectedPreset.name === 'custom'}
+                          onClick={() => handlePresetChange(getCustomRatioPreset(customRatio))}
+                        >
+                          Custom
+                        </button>
+                        <button
+                          className={`aspect-btn-new ${selectedPreset.name === 'output-size' ? 'active' : ''}`}
+                          aria-pressed={selectedPreset.name === 'output-size'}
+                          onClick={() => handlePresetChange(getOutputSizePreset(outputSize))}
+                        >
+                          Exact size
+                        </button>
+                      </div>
+
+                      {selectedPreset.terms && (
+                        <div className="dimension-inputs">
+                          <div className="dimension-input">
+                            <label htmlFor="crop-ratio-width">Ratio width</label>
+                            <NumberField
+                              id="crop-ratio-width"
+                              min="1"
+                              value={selectedPreset.terms.width}
+                              onCommit={(value) => handlePresetInput(getCustomRatioPreset({ ...selectedPreset.terms!, width: Math.max(1, Math.round(value)) }))}
+                            />
+                          </div>
+                          <span className="ratio-separator">:</span>
+                          <div className="dimension-input">
+                            <label htmlFor="crop-ratio-height">Ratio height</label>
+                            <NumberField
+                              id="crop-ratio-height"
+                              min="1"
+                              value={selectedPreset.terms.height}
+                              onCommit={(value) => handlePresetInput(getCustomRatioPreset({ ...selectedPreset.terms!, height: Math.max(1, Math.round(value)) }))}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {selectedPreset.outputSize && (
+                        <>
+                          <div className="dimension-inputs">
+                            <div className="dimension-input">
+                              <label htmlFor="crop-output-width">Output width (px)</label>
+                              <NumberField
+                                id="crop-output-width"
+                                min="1"
+                                max={MAX_OUTPUT_SIZE}
+                                value={selectedPreset.outputSize.width}
+                                onCommit={(value) => handlePresetInput(getOutputSizePreset({
+                                  ...selectedPreset.outputSize!,
+                                  width: Math.max(1, Math.min(MAX_OUTPUT_SIZE, Math.round(value))),
+                                }))}
+                              />
+                            </div>
+                            <span className="ratio-separator">×</span>
+                            <div className="dimension-input">
+                              <label htmlFor="crop-output-height">Output height (px)</label>
+                              <NumberField
+                                id="crop-output-height"
+                                min="1"
+                                max={MAX_OUTPUT_SIZE}
+                                value={selectedPreset.outputSize.height}
+                                onCommit={(value) => handlePresetInput(getOutputSizePreset({
+                                  ...selectedPreset.outputSize!,
+                                  height: Math.max(1, Math.min(MAX_OUTPUT_SIZE, Math.round(value))),
+                                }))}
+                              />
+                            </div>
+                          </div>
+                          <p className="format-hint">The crop keeps this ratio and is resampled to exactly these pixels.</p>
+                        </>
+                      )}
+                    </div>
+
+                    {/* Crop position & size */}
+                    <div className="resize-controls-simple">
+                      <p className="helper-text">Crop position & size:</p>
+                      <div className="format-toggle-btns">
+                        {(['px', '%'] as CropFieldUnit[]).map((unit) => (
+                          <button
+                            key={unit}
+                            className={`format-toggle-btn ${fieldUnit === unit ? 'active' : ''}`}
+                            aria-pressed={fieldUnit === unit}
+                            onClick={() => setFieldUnit(unit)}
+                          >
+                            {unit === 'px' ? 'Pixels' : 'Percent'}
+                          </button>
+                        ))}
                       </div>
+                      {[CROP_FIELDS.slice(0, 2), CROP_FIELDS.slice(2)].map((row) => (
+                        <div className="dimension-inputs" key={row[0].key}>
+                          {row.map(({ key, label }) => (
+                            <div className="dimension-input" key={key}>
+                              <label htmlFor={`crop-field-${key}`}>{label} ({fieldUnit})</label>
+                              <NumberField
+                                id={`crop-field-${key}`}
+                                min="0"
+                                step={fieldUnit === '%' ? '0.1' : '1'}
+                                value={getFieldValue(key)}
+                                onCommit={(value) => handleCropFieldChange(key, value)}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      ))}
                     </div>
 
                     {/* Rotation */}
@@ -632,18 +960,93 @@ export function CropImage() {
                       )}
                     </div>
 
+                    {/* Flip */}
+                    <div className="resize-controls-simple">
+                      <p className="helper-text">Flip image:</p>
+                      <div className="rotation-btns">
+                        <button
+                          className={`rotate-btn-new ${flipHorizontal ? 'active' : ''}`}
+                          aria-pressed={flipHorizontal}
+                          onClick={() => handleFlip('horizontal')}
+                        >
+                          <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M12 3v18M8 7l-5 5 5 5V7zM16 7l5 5-5 5V7z" />
+                          </svg>
+                          <span>Horizontal</span>
+                        </button>
+                        <button
+                          className={`rotate-btn-new ${flipVertical ? 'active' : ''}`}
+                          aria-pressed={flipVertical}
+                          onClick={() => handleFlip('vertical')}
+                        >
+                          <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M3 12h18M7 8l5-5 5 5H7zM7 16l5 5 5-5H7z" />
+                          </svg>
+                          <span>Vertical</span>
+                        </button>
+                      </div>
+                      <p className="format-hint">Flip horizontally to un-mirror front-camera selfies.</p>
+                    </div>
+
+                    {/* Straighten */}
+                    <div className="resize-controls-simple">
+                      <p className="helper-text">Straighten:</p>
+                      <div className="quality-slider-container">
+                        <div className="quality-value-display">{straighten > 0 ? '+' : ''}{straighten.toFixed(1)}°</div>
+                        <input
+                          type="range"
+                          min={-MAX_STRAIGHTEN_ANGLE}
+                          max={MAX_STRAIGHTEN_ANGLE}
+                          step="0.1"
+                          value={straighten}
+                          onChange={(e) => handleStraightenChange(parseFloat(e.target.value))}
+                          onPointerUp={handleStraightenEnd}
+                          onKeyUp={handleStraightenEnd}
+                          onBlur={handleStraightenEnd}
+                          className="quality-slider-large"
+                          aria-label="Straighten angle in degrees"
+                        />
+                        <div className="slider-labels">
+                          <span>−{MAX_STRAIGHTEN_ANGLE}°</span>
+                          <span>+{MAX_STRAIGHTEN_ANGLE}°</span>
+                        </div>
+                      </div>
+                      <p className="format-hint">
+                        The crop shrinks to the largest area without blank corners.
+                        {straighten !== 0 && (
+                          <>
+                            {' '}
+                            <button className="history-btn" onClick={handleStraightenReset}>Level (0°)</button>
+                          </>
+                        )}
+                      </p>
+                    </div>
+
+                    <ColorProfilePanel profile={metadata.icc} mode={colorMode} onModeChange={setColorMode} />
+
+                    <MetadataPanel metadata={metadata} mode={metadataMode} onModeChange={setMetadataMode} />
+
+                    <DpiSelector
+                      dpi={dpi}
+                      width={selectedPreset.outputSize?.width ?? Math.round(cropArea.width)}
+                      height={selectedPreset.outputSize?.height ?? Math.round(cropArea.height)}
+                      onChange={setDpi}
+                    />
+
                     {/* Export Format */}
                     <div className="format-section">
                       <p className="helper-text">Output format:</p>
                       <div className="format-toggle-btns">
                         <button
                           className={`format-toggle-btn ${exportFormat === 'jpeg' ? 'active' : ''}`}
+                          aria-pressed={exportFormat === 'jpeg'}
                           onClick={() => setExportFormat('jpeg')}
                         >
                           JPEG
                         </button>
                         <button
                           className={`format-toggle-btn ${exportFormat === 'png' ? 'active' : ''}`}
+                          aria-pressed={exportFormat === 'png'}
                           onClick={() => setExportFormat('png')}
                         >
                           PNG
@@ -0,0 +1,506 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { FileUpload } from '../components/FileUpload';
+import { Header } from '../components/Header';
+import { MetadataPanel } from '../components/MetadataPanel';
+import { ColorProfilePanel } from '../components/ColorProfilePanel';
+import { OperationEditor } from '../components/OperationEditor';
+import { EncodeOptionsPanel } from '../components/EncodeOptionsPanel';
+import { BatchQueue, BatchOutput } from '../components/BatchQueue';
+import { loadImage, LoadOptions, isHeicFile, downloadBlob } from '../processor';
+import { SHARPEN_PRESETS } from '../constants';
+import { listCanvasTargets } from '../targets';
+import { formatFileSize } from '../utils/format';
+import { ImageMetadata, MetadataMode, EMPTY_METADATA, readImageMetadata, embedMetadata, getMetadataSize } from '../utils/metadata';
+import { ColorProfileMode, resolveColorHandling, embedIccProfile, getIccEmbedSize } from '../utils/icc';
+import { Operation } from '../utils/operations';
+import {
+  Pipeline,
+  PipelineOutput,
+  PIPELINE_VERSION,
+  DEFAULT_PIPELINE_OUTPUT,
+  serializePipeline,
+  parsePipeline,
+  pipelineToJob,
+  describeOperation,
+} from '../utils/pipeline';
+import { runJob, ProgressCallback } from '../utils/processing';
+
+type StepType = 'crop' | 'rotate' | 'resize' | 'sharpen' | 'fit';
+
+const STEP_TYPES: { type: StepType; label: string }[] = [
+  { type: 'crop', label: 'Crop' },
+  { type: 'rotate', label: 'Rotate' },
+  { type: 'resize', label: 'Resize' },
+  { type: 'fit', label: 'Fit' },
+  { type: 'sharpen', label: 'Sharpen' },
+];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+// Wait for typing and dragging to pause before re-rendering the preview
+const RENDER_DELAY_MS = 300;
+
+interface RenderedImage {
+  blob: Blob;
+  url: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * A new step with sensible defaults; `size` is the current output size
+ */
+function createStep(type: StepType, size: { width: number; height: number }): Operation {
+  switch (type) {
+    case 'crop':
+      return { type: 'crop', rect: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 }, rotation: 0, relative: true };
+    case 'rotate':
+      return { type: 'rotate', degrees: 90 };
+    case 'resize':
+      return {
+        type: 'resize',
+        width: Math.max(1, Math.round(size.width / 2)),
+        height: Math.max(1, Math.round(size.height / 2)),
+      };
+    case 'sharpen':
+      return { type: 'sharpen', options: SHARPEN_PRESETS.screen.options };
+    case 'fit': {
+      const target = listCanvasTargets()[0];
+      return { type: 'fit', target, options: { outputFormat: target.id, fitMode: 'contain', background: { mode: 'blur' } } };
+    }
+  }
+}
+
+/**
+ * Runs a pipeline on one image and writes the colour profile and metadata back into the result
+ */
+async function renderPipeline(
+  image: HTMLImageElement,
+  pipeline: Pipeline,
+  metadata: ImageMetadata,
+  metadataMode: MetadataMode,
+  colorMode: ColorProfileMode,
+  onProgress?: ProgressCallback
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const { colorSpace, embed: iccProfile } = resolveColorHandling(metadata.icc, colorMode);
+
+  // Leave room for the metadata and profile that are written back afterwards
+  let output = pipeline.output;
+  if (output.type === 'target-size') {
+    const extra = getMetadataSize(metadata, metadataMode) + (iccProfile ? getIccEmbedSize(iccProfile) : 0);
+    output = { ...output, targetBytes: Math.max(1024, output.targetBytes - extra) };
+  }
+
+  const result = await runJob(image, pipelineToJob({ ...pipeline, output }, colorSpace), onProgress);
+  let blob = result.blob!;
+  if (iccProfile) {
+    blob = await embedIccProfile(blob, iccProfile);
+  }
+  blob = await embedMetadata(blob, metadata, metadataMode);
+  return { blob, width: result.width, height: result.height };
+}
+
+function getOutputFilename(originalName: string, output: PipelineOutput): string {
+  const baseName = originalName.replace(/\.[^/.]+$/, '');
+  return `${baseName}-edited.${FILE_EXTENSIONS[output.mimeType] ?? 'jpg'}`;
+}
+
+export function Editor() {
+  const [originalFile, setOriginalFile] = useState<File | null>(null);
+  const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isConvertingHeic, setIsConvertingHeic] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pipeline
+  const [operations, setOperations] = useState<Operation[]>([]);
+  const [output, setOutput] = useState<PipelineOutput>(DEFAULT_PIPELINE_OUTPUT);
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchLoadOptions, setBatchLoadOptions] = useState<LoadOptions>({});
+  const [metadata, setMetadata] = useState<ImageMetadata>(EMPTY_METADATA);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>('strip');
+  const [colorMode, setColorMode] = useState<ColorProfileMode>('convert');
+
+  // Output
+  const [rendered, setRendered] = useState<RenderedImage | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+
+  const pipelineInputRef = useRef<HTMLInputElement>(null);
+
+  // Revoke each preview URL once it is replaced
+  useEffect(() => {
+    return () => {
+      if (rendered) URL.revokeObjectURL(rendered.url);
+    };
+  }, [rendered]);
+
+  // Render the whole pipeline, including the final encode, whenever a step changes
+  useEffect(() => {
+    if (!originalImage) return;
+
+    let cancelled = false;
+    setIsRendering(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const pipeline: Pipeline = { version: PIPELINE_VERSION, operations, output };
+        const { blob, width, height } = await renderPipeline(originalImage, pipeline, metadata, metadataMode, colorMode);
+
+        if (!cancelled) {
+          setRendered({ blob, url: URL.createObjectURL(blob), width, height });
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Render error:', err);
+        if (!cancelled) {
+          setError('Failed to apply the edits');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsRendering(false);
+        }
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [originalImage, operations, output, metadata, metadataMode, colorMode]);
+
+  const handleFileSelect = useCallback(async (file: File, options: LoadOptions = {}) => {
+    setIsProcessing(true);
+    setError(null);
+    setOriginalFile(file);
+    setRendered(null);
+
+    const needsHeicConversion = isHeicFile(file);
+    if (needsHeicConversion) {
+      setIsConvertingHeic(true);
+    }
+
+    try {
+      const [image, fileMetadata] = await Promise.all([loadImage(file, options), readImageMetadata(file)]);
+      setIsConvertingHeic(false);
+      setOriginalImage(image);
+      setMetadata(fileMetadata);
+    } catch (err) {
+      console.error('Processing error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load image');
+      setOriginalFile(null);
+    } finally {
+      setIsProcessing(false);
+      setIsConvertingHeic(false);
+    }
+  }, []);
+
+  const handleFilesSelect = useCallback((files: File[], options: LoadOptions = {}) => {
+    setBatchFiles(files.length > 1 ? files : []);
+    setBatchLoadOptions(options);
+    handleFileSelect(files[0], options);
+  }, [handleFileSelect]);
+
+  const processBatchFile = useCallback(async (file: File, onProgress: ProgressCallback): Promise<BatchOutput> => {
+    const [image, fileMetadata] = await Promise.all([loadImage(file, batchLoadOptions), readImageMetadata(file)]);
+    const pipeline: Pipeline = { version: PIPELINE_VERSION, operations, output };
+    const { blob } = await renderPipeline(image, pipeline, fileMetadata, metadataMode, colorMode, onProgress);
+    return { blob, filename: getOutputFilename(file.name, output) };
+  }, [batchLoadOptions, operations, output, metadataMode, colorMode]);
+
+  const handleAddStep = useCallback((type: StepType) => {
+    const size = rendered ?? {
+      width: originalImage?.naturalWidth ?? 0,
+      height: originalImage?.naturalHeight ?? 0,
+    };
+    setOperations((steps) => [...steps, createStep(type, size)]);
+    setSelectedStep(operations.length);
+  }, [rendered, originalImage, operations.length]);
+
+  const handleStepChange = useCallback((index: number, operation: Operation) => {
+    setOperations((steps) => steps.map((step, i) => (i === index ? operation : step)));
+  }, []);
+
+  const handleStepMove = useCallback((index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= operations.length) return;
+    setOperations((steps) => {
+      const next = [...steps];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setSelectedStep(target);
+  }, [operations.length]);
+
+  const handleStepRemove = useCallback((index: number) => {
+    setOperations((steps) => steps.filter((_, i) => i !== index));
+    setSelectedStep(null);
+  }, []);
+
+  const handleSavePipeline = useCallback(() => {
+    const pipeline: Pipeline = { version: PIPELINE_VERSION, operations, output };
+    const blob = new Blob([serializePipeline(pipeline)], { type: 'application/json' });
+    downloadBlob(blob, 'image-steps.json');
+  }, [operations, output]);
+
+  const handleLoadPipeline = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const pipeline = parsePipeline(await file.text());
+      setOperations(pipeline.operations);
+      setOutput(pipeline.output);
+      setSelectedStep(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the saved steps');
+    }
+  }, []);
+
+  const handleDownload = useCallback(() => {
+    if (!rendered || !originalFile) return;
+    downloadBlob(rendered.blob, getOutputFilename(originalFile.name, output));
+  }, [rendered, originalFile, output]);
+
+  const handleReset = useCallback(() => {
+    setOriginalFile(null);
+    setOriginalImage(null);
+    setRendered(null);
+    setBatchFiles([]);
+    setError(null);
+  }, []);
+
+  return (
+    <div className="app">
+      <Header />
+
+      <main className="main">
+        <div className="container">
+          {!originalImage && !isProcessing && !error ? (
+            <section className="upload-section">
+              <div className="intro">
+                <h2>Image Editor</h2>
+                <p className="intro-desc">Crop, rotate, resize, fit and compress in one go, with a single final save. Save your steps and reuse them on other images.</p>
+              </div>
+
+              <div className="intro">
+                <h2>How it works</h2>
+                <div className="steps">
+                  <div className="step">
+                    <div className="step-number">1</div>
+                    <div className="step-content">
+                      <h3>Upload</h3>
+                      <p>Drop or select any image (JPG, PNG, WebP)</p>
+                    </div>
+                  </div>
+                  <div className="step">
+                    <div className="step-number">2</div>
+                    <div className="step-content">
+                      <h3>Add Steps</h3>
+                      <p>Build a list of edits and reorder them freely</p>
+                    </div>
+                  </div>
+                  <div className="step">
+                    <div className="step-number">3</div>
+                    <div className="step-content">
+                      <h3>Download</h3>
+                      <p>Everything is applied and saved once</p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <FileUpload onFilesSelect={handleFilesSelect} multiple disabled={isProcessing} />
+            </section>
+          ) : (
+            <section className="result-section resize-simple-layout">
+              {error && (
+                <div className="error-message" role="alert">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="10" />
+                    <line x1="12" y1="8" x2="12" y2="12" />
+                    <line x1="12" y1="16" x2="12.01" y2="16" />
+                  </svg>
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {(isProcessing || isConvertingHeic) && (
+                <div className="preview-loading">
+                  <div className="spinner"></div>
+                  <p>{isConvertingHeic ? 'Converting HEIC image...' : 'Processing...'}</p>
+                </div>
+              )}
+
+              {!originalImage && !isProcessing && (
+                <button className="reset-link" onClick={handleReset}>
+                  ← Choose a different image
+                </button>
+              )}
+
+              {originalImage && !isProcessing && (
+                <div className="resize-simple-grid">
+                  {/* LEFT: Preview */}
+                  <div className="simple-preview-area">
+                    <div className="size-info-bar">
+                      <div className="size-original">
+                        <span className="size-label">Original</span>
+                        <span className="size-value">{originalImage.naturalWidth} × {originalImage.naturalHeight}</span>
+                      </div>
+                      <div className="size-arrow">
+                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5">
+                          <line x1="5" y1="12" x2="19" y2="12" />
+                          <polyline points="12 5 19 12 12 19" />
+                        </svg>
+                      </div>
+                      <div className="size-new">
+                        <span className="size-label">Result</span>
+                        <span className="size-value">
+                          {rendered ? `${rendered.width} × ${rendered.height} · ${formatFileSize(rendered.blob.size)}` : '...'}
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className="preview-image-wrapper">
+                      {rendered ? (
+                        <div className="image-with-info">
+                          <img
+                            src={rendered.url}
+                            alt="Edited preview"
+                            style={{ opacity: isRendering ? 0.5 : 1 }}
+                          />
+                          {isRendering && (
+                            <div className="updating-overlay">
+                              <div className="spinner"></div>
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="preview-loader">
+                          <div className="spinner"></div>
+                          <p>Loading preview...</p>
+                        </div>
+                      )}
+                    </div>
+
+                    <button className="reset-link" onClick={handleReset}>
+                      ← Choose a different image
+                    </button>
+                  </div>
+
+                  {/* RIGHT: Steps */}
+                  <div className="simple-options-panel">
+                    <h2 className="options-title">Steps</h2>
+
+                    {operations.length === 0 ? (
+                      <p className="format-hint">No edits yet. Add a step below.</p>
+                    ) : (
+                      <ol className="pipeline-steps">
+                        {operations.map((operation, index) => (
+                          <li key={index} className={`pipeline-step ${selectedStep === index ? 'active' : ''}`}>
+                            <div className="pipeline-step-header">
+                              <button
+                                className="pipeline-step-title"
+                                onClick={() => setSelectedStep(selectedStep === index ? null : index)}
+                                aria-expanded={selectedStep === index}
+                              >
+                                <span className="pipeline-step-number">{index + 1}</span>
+                                {describeOperation(operation)}
+                              </button>
+                              <div className="pipeline-step-actions">
+                                <button onClick={() => handleStepMove(index, -1)} disabled={index === 0} aria-label="Move up">↑</button>
+                                <button onClick={() => handleStepMove(index, 1)} disabled={index === operations.length - 1} aria-label="Move down">↓</button>
+                                <button onClick={() => handleStepRemove(index)} aria-label="Remove step">✕</button>
+                              </div>
+                            </div>
+                            {selectedStep === index && (
+                              <OperationEditor
+                                operation={operation}
+                                onChange={(next) => handleStepChange(index, next)}
+                              />
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+
+                    <div className="resize-controls-simple">
+                      <p className="helper-text">Add a step:</p>
+                      <div className="aspect-grid">
+                        {STEP_TYPES.map(({ type, label }) => (
+                          <button key={type} className="aspect-btn-new" onClick={() => handleAddStep(type)}>
+                            + {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <EncodeOptionsPanel output={output} onChange={setOutput} />
+
+                    <ColorProfilePanel profile={metadata.icc} mode={colorMode} onModeChange={setColorMode} />
+
+                    <MetadataPanel metadata={metadata} mode={metadataMode} onModeChange={setMetadataMode} />
+
+                    {/* Saved steps */}
+                    <div className="resize-controls-simple">
+                      <p className="helper-text">Reuse these steps:</p>
+                      <div className="format-toggle-btns">
+                        <button className="format-toggle-btn" onClick={handleSavePipeline}>
+                          Save steps
+                        </button>
+                        <button className="format-toggle-btn" onClick={() => pipelineInputRef.current?.click()}>
+                          Load steps
+                        </button>
+                      </div>
+                      <input
+                        ref={pipelineInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        onChange={handleLoadPipeline}
+                        hidden
+                      />
+                    </div>
+
+                    {batchFiles.length > 1 && (
+                      <BatchQueue
+                        files={batchFiles}
+                        processFile={processBatchFile}
+                        archiveName="edited-images.zip"
+                        onClear={() => setBatchFiles([])}
+                      />
+                    )}
+
+                    {/* Download Section */}
+                    <div className="download-section-simple">
+                      <button
+                        className="big-download-btn"
+                        onClick={handleDownload}
+                        disabled={!rendered || isRendering}
+                      >
+                        Download IMAGE
+                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <circle cx="12" cy="12" r="10" />
+                          <path d="M12 8v8M8 12l4 4 4-4" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      </main>
+
+      <footer className="footer">
+        <p>Your images are processed locally in your browser. Nothing is uploaded to any server.</p>
+      </footer>
+    </div>
+  );
+}
@@ -1,8 +1,42 @@
 import { useState, useCallback } from 'react';
 import { FileUpload } from '../components/FileUpload';
 import { Header } from '../components/Header';
-import { loadImage, processImage, ProcessingResult, Orientation, isHeicFile, ExportFormat, exportCanvas, downloadBlob, generateFilename } from '../processor';
-import { OutputFormat, OUTPUT_FORMATS, A4 } from '../constants';
+import { TargetIcon } from '../components/TargetIcon';
+import { CustomTargetForm } from '../components/CustomTargetForm';
+import { FocalPointPicker } from '../components/FocalPointPicker';
+import { SheetLayout, SheetItem } from '../components/SheetLayout';
+import { MetadataPanel } from '../components/MetadataPanel';
+import { ColorProfilePanel } from '../components/ColorProfilePanel';
+import { LinearLightPanel } from '../components/LinearLightPanel';
+import { SharpenPanel } from '../components/SharpenPanel';
+import { BatchQueue, BatchOutput } from '../components/BatchQueue';
+import { loadImage, LoadOptions, ProcessingResult, Orientation, isHeicFile, ExportFormat, exportCanvas, downloadBlob, generateFilename, getEffectiveDPI, getPageSize, BackgroundOptions, ProcessingOptions, FocalPoint, PrintOptions, Rect } from '../processor';
+import { OutputFormat, CanvasTarget, MIN_PRINT_DPI, BackgroundMode, BACKGROUND_MODES, DEFAULT_PADDING_COLOR, DEFAULT_GRADIENT, FitMode, FIT_MODES, PRINT, DEFAULT_RESAMPLE_KERNEL, SharpenOptions, SHARPEN_PRESETS } from '../constants';
+import { getCanvasTarget, listCanvasTargets, formatTargetSize } from '../targets';
+import { ImageMetadata, MetadataMode, EMPTY_METADATA, readImageMetadata } from '../utils/metadata';
+import { ColorProfileMode, resolveColorHandling } from '../utils/icc';
+import { fitImage, ProgressCallback } from '../utils/processing';
+import { clickOnActivateKey } from '../utils/a11y';
+
+/**
+ * Positions a guide box over the preview, as percentages of the full canvas
+ */
+function guideStyle(rect: Rect, canvasWidth: number, canvasHeight: number): React.CSSProperties {
+  return {
+    left: `${(rect.x / canvasWidth) * 100}%`,
+    top: `${(rect.y / canvasHeight) * 100}%`,
+    width: `${(rect.width / canvasWidth) * 100}%`,
+    height: `${(rect.height / canvasHeight) * 100}%`,
+  };
+}
+
+type LayoutMode = 'single' | 'sheet';
+
+const TARGET_CATEGORIES: { id: CanvasTarget['category']; label: string }[] = [
+  { id: 'social', label: 'Social Media' },
+  { id: 'print', label: 'Print' },
+  { id: 'custom', label: 'Custom' },
+];
 
 export function FitImage() {
   const [originalFile, setOriginalFile] = useState<File | null>(null);
@@ -14,11 +48,42 @@ export function FitImage() {
   const [outputFormat, setOutputFormat] = useState<OutputFormat>('whatsapp-dp');
   const [exportFormat, setExportFormat] = useState<ExportFormat>('jpeg');
   const [isExporting, setIsExporting] = useState(false);
+  const [background, setBackground] = useState<BackgroundOptions>({ mode: 'blur' });
+  const [fitMode, setFitMode] = useState<FitMode>('contain');
+  const [focalPoint, setFocalPoint] = useState<FocalPoint>({ x: 0.5, y: 0.5 });
+  const [printOptions, setPrintOptions] = useState<PrintOptions>({ marginMm: 0, bleedMm: 0, cropMarks: false });
+  const [showGuides, setShowGuides] = useState(true);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('single');
+  const [sheetItems, setSheetItems] = useState<SheetItem[]>([]);
+  const [targets, setTargets] = useState<CanvasTarget[]>(() => listCanvasTargets());
+  const [metadata, setMetadata] = useState<ImageMetadata>(EMPTY_METADATA);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>('strip');
+  const [colorMode, setColorMode] = useState<ColorProfileMode>('convert');
+  const [linearLight, setLinearLight] = useState(false);
+  const [sharpen, setSharpen] = useState<SharpenOptions>(SHARPEN_PRESETS.off.options);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchLoadOptions, setBatchLoadOptions] = useState<LoadOptions>({});
+
+  // Current settings as processImage options; overrides win
+  const buildOptions = useCallback((overrides: Partial<ProcessingOptions> = {}): ProcessingOptions => ({
+    outputFormat,
+    orientation: result?.orientation,
+    background,
+    fitMode,
+    focalPoint,
+    // Margins, bleed and crop marks only apply to physical (print) targets
+    print: getCanvasTarget(overrides.outputFormat ?? outputFormat).unit !== 'px' ? printOptions : undefined,
+    colorSpace: resolveColorHandling(metadata.icc, colorMode).colorSpace,
+    linearLight,
+    sharpen: sharpen.amount > 0 ? sharpen : undefined,
+    ...overrides,
+  }), [outputFormat, result?.orientation, background, fitMode, focalPoint, printOptions, metadata.icc, colorMode, linearLight, sharpen]);
 
-  const handleFileSelect = useCallback(async (file: File) => {
+  const handleFileSelect = useCallback(async (file: File, options: LoadOptions = {}) => {
     setIsProcessing(true);
     setError(null);
     setOriginalFile(file);
+    setFocalPoint({ x: 0.5, y: 0.5 });
 
     // Check if HEIC conversion will be needed
     const needsHeicConversion = isHeicFile(file);
@@ -27,10 +92,15 @@ export function FitImage() {
     }
 
     try {
-      const image = await loadImage(file);
+      const [image, fileMetadata] = await Promise.all([loadImage(file, options), readImageMetadata(file)]);
       setIsConvertingHeic(false);
       setOriginalImage(image);
-      const processed = processImage(image, { outputFormat });
+      setMetadata(fileMetadata);
+      const processed = await fitImage(image, buildOptions({
+        orientation: undefined,
+        focalPoint: { x: 0.5, y: 0.5 },
+        colorSpace: resolveColorHandling(fileMetadata.icc, colorMode).colorSpace,
+      }));
       setResult(processed);
     } catch (err) {
       console.error('Processing error:', err);
@@ -41,38 +111,185 @@ export function FitImage() {
       setIsProcessing(false);
       setIsConvertingHeic(false);
     }
-  }, [outputFormat]);
+  }, [buildOptions]);
 
-  const handleOrientationChange = useCallback((orientation: Orientation) => {
+  // Several files in single layout: preview the first, batch the rest with the same settings
+  const handleBatchSelect = useCallback((files: File[], options: LoadOptions = {}) => {
+    setBatchFiles(files.length > 1 ? files : []);
+    setBatchLoadOptions(options);
+    handleFileSelect(files[0], options);
+  }, [handleFileSelect]);
+
+  const processBatchFile = useCallback(async (file: File, onProgress: ProgressCallback): Promise<BatchOutput> => {
+    const [image, fileMetadata] = await Promise.all([loadImage(file, batchLoadOptions), readImageMetadata(file)]);
+    const { colorSpace, embed: iccProfile } = resolveColorHandling(fileMetadata.icc, colorMode);
+    // The focal point is picked per image, so batches use the centre; each file picks its own orientation
+    const processed = await fitImage(image, buildOptions({ orientation: undefined, focalPoint: { x: 0.5, y: 0.5 }, colorSpace }), onProgress);
+    const blob = await exportCanvas(processed.canvas, exportFormat, {
+      page: getPageSize(processed.outputFormat, processed.orientation, processed.canvasWidth, processed.canvasHeight),
+      dpi: getCanvasTarget(processed.outputFormat).dpi,
+      metadata: fileMetadata,
+      metadataMode,
+      iccProfile,
+    });
+    return { blob, filename: generateFilename(file.name, exportFormat, processed.outputFormat) };
+  }, [batchLoadOptions, buildOptions, exportFormat, metadataMode, colorMode]);
+
+  const handleOrientationChange = useCallback(async (orientation: Orientation) => {
     if (!originalImage) return;
 
     setIsProcessing(true);
     try {
-      const processed = processImage(originalImage, { outputFormat, orientation });
+      const processed = await fitImage(originalImage, buildOptions({ orientation }));
       setResult(processed);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process image');
     } finally {
       setIsProcessing(false);
     }
-  }, [originalImage, outputFormat]);
+  }, [originalImage, buildOptions]);
 
-  const handleOutputFormatChange = useCallback((format: OutputFormat) => {
+  const handleOutputFormatChange = useCallback(async (format: OutputFormat) => {
     setOutputFormat(format);
     if (!originalImage) return;
 
     setIsProcessing(true);
     try {
-      const processed = processImage(originalImage, { outputFormat: format });
+      const processed = await fitImage(originalImage, buildOptions({ outputFormat: format, orientation: undefined }));
       setResult(processed);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process image');
     } finally {
       setIsProcessing(false);
     }
-  }, [originalImage]);
+  }, [originalImage, buildOptions]);
+
+  const handleBackgroundChange = useCallback(async (next: BackgroundOptions) => {
+    setBackground(next);
+    // Transparent padding only survives in PNG
+    if (next.mode === 'transparent') {
+      setExportFormat('png');
+    }
+    if (!originalImage) return;
+
+    try {
+      setResult(await fitImage(originalImage, buildOptions({ background: next })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process image');
+    }
+  }, [originalImage, buildOptions]);
+
+  const handleBackgroundModeChange = useCallback((mode: BackgroundMode) => {
+    handleBackgroundChange({
+      mode,
+      color: background.color ?? DEFAULT_PADDING_COLOR,
+      gradient: background.gradient ?? [DEFAULT_GRADIENT[0], DEFAULT_GRADIENT[1]],
+    });
+  }, [background, handleBackgroundChange]);
+
+  const handleColorModeChange = useCallback(async (mode: ColorProfileMode) => {
+    setColorMode(mode);
+    if (!originalImage) return;
+
+    try {
+      setResult(await fitImage(originalImage, buildOptions({ colorSpace: resolveColorHandling(metadata.icc, mode).colorSpace })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process image');
+    }
+  }, [originalImage, buildOptions, metadata.icc]);
+
+  const handleLinearLightChange = useCallback(async (enabled: boolean) => {
+    setLinearLight(enabled);
+    if (!originalImage) return;
+
+    try {
+      setResult(await fitImage(originalImage, buildOptions({ linearLight: enabled })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process image');
+    }
+  }, [originalImage, buildOptions]);
+
+  const handleSharpenChange = useCallback(async (next: SharpenOptions) => {
+    setSharpen(next);
+    if (!originalImage) return;
+
+    try {
+      setResult(await fitImage(originalImage, buildOptions({ sharpen: next.amount > 0 ? next : undefined })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process image');
+    }
+  }, [originalImage, buildOptions]);
+
+  const handleFitModeChange = useCallback(async (mode: FitMode) => {
+    setFitMode(mode);
+    // The background only shows around contained images, so transparency returns with it
+    if (mode === 'contain' && background.mode === 'transparent') {
+      setExportFormat('png');
+    }
+    if (!originalImage) return;
+
+    try {
+      setResult(await fitImage(originalImage, buildOptions({ fitMode: mode })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process image');
+    }
+  }, [originalImage, background.mode, buildOptions]);
+
+  const handleFocalPointChange = useCallback(async (point: FocalPoint) => {
+    setFocalPoint(point);
+    if (!originalImage) return;
+
+    try {
+      setResult(await fitImage(originalImage, buildOptions({ focalPoint: point })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process image');
+    }
+  }, [originalImage, buildOptions]);
+
+  const handlePrintOptionsChange = useCallback(async (changes: Partial<PrintOptions>) => {
+    const next = { ...printOptions, ...changes };
+    setPrintOptions(next);
+    if (!originalImage) return;
+
+    try {
+      setResult(await fitImage(originalImage, buildOptions({ print: next })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process image');
+    }
+  }, [printOptions, originalImage, buildOptions]);
+
+  const handleTargetRegistered = useCallback((target: CanvasTarget) => {
+    setTargets(listCanvasTargets());
+    handleOutputFormatChange(target.id);
+  }, [handleOutputFormatChange]);
+
+  const handleFilesSelect = useCallback(async (files: File[], options: LoadOptions = {}) => {
+    setIsProcessing(true);
+    setError(null);
+    if (files.some(isHeicFile)) {
+      setIsConvertingHeic(true);
+    }
+
+    try {
+      const images = await Promise.all(files.map((file) => loadImage(file, options)));
+      setSheetItems(files.map((file, index) => ({
+        id: `${Date.now()}-${index}-${file.name}`,
+        file,
+        image: images[index],
+      })));
+    } catch (err) {
+      console.error('Processing error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load images');
+      setSheetItems([]);
+    } finally {
+      setIsProcessing(false);
+      setIsConvertingHeic(false);
+    }
+  }, []);
 
   const handleReset = useCallback(() => {
+    setSheetItems([]);
+    setBatchFiles([]);
     setOriginalFile(null);
     setOriginalImage(null);
     setResult(null);
@@ -84,7 +301,14 @@ export function FitImage() {
 
     setIsExporting(true);
     try {
-      const blob = await exportCanvas(result.canvas, exportFormat);
+      const page = getPageSize(result.outputFormat, result.orientation, result.canvasWidth, result.canvasHeight);
+      const blob = await exportCanvas(result.canvas, exportFormat, {
+        page,
+        dpi: getCanvasTarget(result.outputFormat).dpi,
+        metadata,
+        metadataMode,
+        iccProfile: resolveColorHandling(metadata.icc, colorMode).embed,
+      });
       const filename = generateFilename(originalFile.name, exportFormat, result.outputFormat);
       downloadBlob(blob, filename);
     } catch (err) {
@@ -92,12 +316,16 @@ export function FitImage() {
     } finally {
       setIsExporting(false);
     }
-  }, [result, exportFormat, originalFile]);
+  }, [result, exportFormat, originalFile, metadata, metadataMode, colorMode]);
 
-  // Calculate DPI warning for A4
-  const effectiveDPI = result ? Math.round(A4.DPI * result.scale) : 0;
-  const dpiWarning = result && result.outputFormat === 'a4' && effectiveDPI < 150;
-  const supportsOrientation = result ? OUTPUT_FORMATS[result.outputFormat].supportsOrientation : false;
+  // Calculate DPI warning for print targets
+  const resultTarget = result ? getCanvasTarget(result.outputFormat) : null;
+  const effectiveDPI = result ? getEffectiveDPI(result.outputFormat, result.scale) : 0;
+  const dpiWarning = resultTarget && resultTarget.category !== 'social' && resultTarget.unit !== 'px' && effectiveDPI < MIN_PRINT_DPI;
+  const supportsOrientation = resultTarget ? resultTarget.supportsOrientation : false;
+  const isPrintTarget = resultTarget ? resultTarget.unit !== 'px' : false;
+  // Cover and stretch fill the canvas, so a transparent background never shows
+  const hasTransparentPadding = fitMode === 'contain' && background.mode === 'transparent';
 
   return (
     <div className="app">
@@ -105,47 +333,59 @@ export function FitImage() {
 
       <main className="main">
         <div className="container">
-          {!result && !isProcessing && !error ? (
+          {!result && sheetItems.length === 0 && !isProcessing && !error ? (
             <section className="upload-section">
               <div className="intro">
-                <h2>Choose your format</h2>
-                <div className="output-format-selector">
+                <h2>Choose a layout</h2>
+                <div className="format-toggle-btns">
                   <button
-                    className={`output-format-btn ${outputFormat === 'whatsapp-dp' ? 'active' : ''}`}
-                    onClick={() => setOutputFormat('whatsapp-dp')}
+                    className={`format-toggle-btn ${layoutMode === 'single' ? 'active' : ''}`}
+                    aria-pressed={layoutMode === 'single'}
+                    onClick={() => setLayoutMode('single')}
                   >
-                    <div className="format-icon">
-                      <svg width="36" height="36" viewBox="0 0 36 36" fill="none">
-                        <rect x="2" y="2" width="32" height="32" rx="16" stroke="currentColor" strokeWidth="2" fill="none" />
-                        <circle cx="18" cy="14" r="5" stroke="currentColor" strokeWidth="1.5" fill="none" />
-                        <path d="M8 30C8 24.4772 12.4772 20 18 20C23.5228 20 28 24.4772 28 30" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" fill="none" />
-                      </svg>
-                    </div>
-                    <div className="format-info">
-                      <span className="format-name">{OUTPUT_FORMATS['whatsapp-dp'].name}</span>
-                      <span className="format-desc">{OUTPUT_FORMATS['whatsapp-dp'].description}</span>
-                    </div>
+                    Single image
                   </button>
                   <button
-                    className={`output-format-btn ${outputFormat === 'a4' ? 'active' : ''}`}
-                    onClick={() => setOutputFormat('a4')}
+                    className={`format-toggle-btn ${layoutMode === 'sheet' ? 'active' : ''}`}
+                    aria-pressed={layoutMode === 'sheet'}
+                    onClick={() => setLayoutMode('sheet')}
                   >
-                    <div className="format-icon">
-                      <svg width="32" height="40" viewBox="0 0 32 40" fill="none">
-                        <rect x="2" y="2" width="28" height="36" rx="2" stroke="currentColor" strokeWidth="2" fill="none" />
-                        <line x1="8" y1="12" x2="24" y2="12" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
-                        <line x1="8" y1="18" x2="24" y2="18" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
-                        <line x1="8" y1="24" x2="18" y2="24" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
-                      </svg>
-                    </div>
-                    <div className="format-info">
-                      <span className="format-name">{OUTPUT_FORMATS['a4'].name}</span>
-                      <span className="format-desc">{OUTPUT_FORMATS['a4'].description}</span>
-                    </div>
+                    Photo sheet (2, 4, 6, 9 per page)
                   </button>
                 </div>
               </div>
 
+              <div className="intro">
+                <h2>Choose your format</h2>
+                {TARGET_CATEGORIES.map((category) => {
+                  const categoryTargets = targets.filter((t) => t.category === category.id);
+                  if (categoryTargets.length === 0) return null;
+                  return (
+                    <div key={category.id} className="preset-category">
+                      <span className="category-name">{category.label}</span>
+                      <div className="output-format-selector">
+                        {categoryTargets.map((target) => (
+                          <button
+                            key={target.id}
+                            className={`output-format-btn ${outputFormat === target.id ? 'active' : ''}`}
+                            aria-pressed={outputFormat === target.id}
+                            onClick={() => setOutputFormat(target.id)}
+                          >
+                            <div className="format-icon">
+                              <TargetIcon icon={target.icon} />
+                            </div>
+                            <div className="format-info">
+                              <span className="format-name">{target.name}</span>
+                              <span className="format-desc">{target.description}</span>
+                            </div>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
               <div className="intro">
                 <h2>How it works</h2>
                 <div className="steps">
@@ -173,7 +413,11 @@ export function FitImage() {
                 </div>
               </div>
 
-              <FileUpload onFileSelect={handleFileSelect} disabled={isProcessing} />
+              {layoutMode === 'sheet' ? (
+                <FileUpload onFilesSelect={handleFilesSelect} multiple disabled={isProcessing} />
+              ) : (
+                <FileUpload onFilesSelect={handleBatchSelect} multiple disabled={isProcessing} />
+              )}
 
               <div className="features">
                 <div className="feature">
@@ -216,6 +460,17 @@ export function FitImage() {
                 </div>
               )}
 
+              {layoutMode === 'sheet' && sheetItems.length > 0 && !isProcessing && (
+                <SheetLayout
+                  items={sheetItems}
+                  onItemsChange={setSheetItems}
+                  outputFormat={outputFormat}
+                  background={background}
+                  print={getCanvasTarget(outputFormat).unit !== 'px' ? printOptions : undefined}
+                  onReset={handleReset}
+                />
+              )}
+
               {result && !isProcessing && (
                 <div className="resize-simple-grid">
                   {/* LEFT: Preview Area */}
@@ -239,11 +494,29 @@ export function FitImage() {
                     </div>
 
                     <div className="preview-image-wrapper">
-                      <div className="image-with-info">
-                        <img
-                          src={result.canvas.toDataURL()}
-                          alt="Preview"
-                        />
+                      <div className={`image-with-info ${result.background.mode === 'transparent' ? 'transparent-checker' : ''}`}>
+                        {result.fitMode === 'cover' && originalImage ? (
+                          <FocalPointPicker image={originalImage} result={result} onChange={handleFocalPointChange}>
+                            <img src={result.canvas.toDataURL()} alt="Preview" draggable={false} />
+                          </FocalPointPicker>
+                        ) : (
+                          <img
+                            src={result.canvas.toDataURL()}
+                            alt="Preview"
+                          />
+                        )}
+                        {isPrintTarget && showGuides && (
+                          <div className="print-guides" aria-hidden="true">
+                            <div
+                              className="print-guide trim"
+                              style={guideStyle(result.layout.trimRect, result.canvasWidth, result.canvasHeight)}
+                            />
+                            <div
+                              className="print-guide safe"
+                              style={guideStyle(result.layout.printableRect, result.canvasWidth, result.canvasHeight)}
+                            />
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -257,37 +530,137 @@ export function FitImage() {
                     <h2 className="options-title">Fit options</h2>
 
                     {/* Output Format */}
-                    <div className="resize-controls-simple">
+                    <div className="resize-controls-simple presets-scroll">
                       <p className="helper-text">Choose output format:</p>
+                      {TARGET_CATEGORIES.map((category) => {
+                        const categoryTargets = targets.filter((t) => t.category === category.id);
+                        if (categoryTargets.length === 0) return null;
+                        return (
+                          <div key={category.id} className="preset-category">
+                            <span className="category-name">{category.label}</span>
+                            {categoryTargets.map((target) => (
+                              <button
+                                key={target.id}
+                                className={`preset-option ${outputFormat === target.id ? 'active' : ''}`}
+                                aria-pressed={outputFormat === target.id}
+                                onClick={() => handleOutputFormatChange(target.id)}
+                              >
+                                <span className="preset-title">{target.name}</span>
+                                <span className="preset-size">{formatTargetSize(target)}</span>
+                              </button>
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    <CustomTargetForm onRegister={handleTargetRegistered} />
+
+                    {/* Fit mode */}
+                    <div className="resize-controls-simple">
+                      <p className="helper-text">Fit mode:</p>
                       <div className="aspect-grid">
-                        <button
-                          className={`aspect-btn-new ${outputFormat === 'whatsapp-dp' ? 'active' : ''}`}
-                          onClick={() => handleOutputFormatChange('whatsapp-dp')}
-                        >
-                          WhatsApp DP
-                        </button>
-                        <button
-                          className={`aspect-btn-new ${outputFormat === 'a4' ? 'active' : ''}`}
-                          onClick={() => handleOutputFormatChange('a4')}
-                        >
-                          A4 Paper
-                        </button>
+                        {(Object.keys(FIT_MODES) as FitMode[]).map((mode) => (
+                          <button
+                            key={mode}
+                            className={`aspect-btn-new ${fitMode === mode ? 'active' : ''}`}
+                            aria-pressed={fitMode === mode}
+                            onClick={() => handleFitModeChange(mode)}
+                            title={FIT_MODES[mode].description}
+                          >
+                            {FIT_MODES[mode].name}
+                          </button>
+                        ))}
                       </div>
+
+                      {fitMode === 'cover' && (
+                        <p className="format-hint">Drag the preview to choose what stays in frame.</p>
+                      )}
                     </div>
 
-                    {/* Orientation (only for A4) */}
+                    {/* Background fill */}
+                    {fitMode === 'contain' && (
+                      <div className="resize-controls-simple">
+                        <p className="helper-text">Background:</p>
+                        <div className="aspect-grid">
+                          {(Object.keys(BACKGROUND_MODES) as BackgroundMode[]).map((mode) => (
+                            <button
+                              key={mode}
+                              className={`aspect-btn-new ${background.mode === mode ? 'active' : ''}`}
+                              aria-pressed={background.mode === mode}
+                              onClick={() => handleBackgroundModeChange(mode)}
+                              title={BACKGROUND_MODES[mode].description}
+                            >
+                              {BACKGROUND_MODES[mode].name}
+                            </button>
+                          ))}
+                        </div>
+
+                        {background.mode === 'solid' && (
+                          <div className="dimension-field">
+                            <label htmlFor="fit-bg-color">Colour:</label>
+                            <input
+                              id="fit-bg-color"
+                              type="color"
+                              className="color-input"
+                              value={background.color ?? DEFAULT_PADDING_COLOR}
+                              onChange={(e) => handleBackgroundChange({ ...background, color: e.target.value })}
+                            />
+                          </div>
+                        )}
+
+                        {background.mode === 'dominant' && (
+                          <p className="format-hint">Detected colour: {result.background.color}</p>
+                        )}
+
+                        {background.mode === 'gradient' && (
+                          <>
+                            <div className="dimension-field">
+                              <label htmlFor="fit-bg-gradient-top">Top:</label>
+                              <input
+                                id="fit-bg-gradient-top"
+                                type="color"
+                                className="color-input"
+                                value={(background.gradient ?? DEFAULT_GRADIENT)[0]}
+                                onChange={(e) => handleBackgroundChange({
+                                  ...background,
+                                  gradient: [e.target.value, (background.gradient ?? DEFAULT_GRADIENT)[1]],
+                                })}
+                              />
+                            </div>
+                            <div className="dimension-field">
+                              <label htmlFor="fit-bg-gradient-bottom">Bottom:</label>
+                              <input
+                                id="fit-bg-gradient-bottom"
+                                type="color"
+                                className="color-input"
+                                value={(background.gradient ?? DEFAULT_GRADIENT)[1]}
+                                onChange={(e) => handleBackgroundChange({
+                                  ...background,
+                                  gradient: [(background.gradient ?? DEFAULT_GRADIENT)[0], e.target.value],
+                                })}
+                              />
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Orientation (only for targets that support it) */}
                     {supportsOrientation && (
                       <div className="resize-controls-simple">
                         <p className="helper-text">Orientation:</p>
                         <div className="aspect-grid">
                           <button
                             className={`aspect-btn-new ${result.orientation === 'portrait' ? 'active' : ''}`}
+                            aria-pressed={result.orientation === 'portrait'}
                             onClick={() => handleOrientationChange('portrait')}
                           >
                             Portrait
                           </button>
                           <button
                             className={`aspect-btn-new ${result.orientation === 'landscape' ? 'active' : ''}`}
+                            aria-pressed={result.orientation === 'landscape'}
                             onClick={() => handleOrientationChange('landscape')}
                           >
                             Landscape
@@ -296,6 +669,79 @@ export function FitImage() {
                       </div>
                     )}
 
+                    {/* Print layout (print targets only) */}
+                    {isPrintTarget && (
+                      <div className="resize-controls-simple">
+                        <p className="helper-text">Print margins:</p>
+                        <div className="quick-size-btns">
+                          {PRINT.MARGIN_PRESETS_MM.map((mm) => (
+                            <button
+                              key={mm}
+                              className={printOptions.marginMm === mm ? 'active' : ''}
+                              aria-pressed={printOptions.marginMm === mm}
+                              onClick={() => handlePrintOptionsChange({ marginMm: mm })}
+                            >
+                              {mm === 0 ? 'None' : `${mm} mm`}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="dimension-field">
+                          <label htmlFor="fit-margin">Custom (mm):</label>
+                          <input
+                            id="fit-margin"
+                            type="number"
+                            min="0"
+                            max="50"
+                            step="0.5"
+                            value={printOptions.marginMm}
+                            onChange={(e) => handlePrintOptionsChange({ marginMm: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          />
+                        </div>
+
+                        <label
+                          className="checkbox-option"
+                          onClick={() => handlePrintOptionsChange({ bleedMm: printOptions.bleedMm > 0 ? 0 : PRINT.BLEED_MM })}
+                          onKeyDown={clickOnActivateKey}
+                          role="checkbox"
+                          aria-checked={printOptions.bleedMm > 0}
+                          tabIndex={0}
+                        >
+                          <span className={`checkbox ${printOptions.bleedMm > 0 ? 'checked' : ''}`}>
+                            {printOptions.bleedMm > 0 && <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><polyline points="20 6 9 17 4 12" /></svg>}
+                          </span>
+                          <span>Add {PRINT.BLEED_MM} mm bleed</span>
+                        </label>
+
+                        <label
+                          className="checkbox-option"
+                          onClick={() => handlePrintOptionsChange({ cropMarks: !printOptions.cropMarks })}
+                          onKeyDown={clickOnActivateKey}
+                          role="checkbox"
+                          aria-checked={printOptions.cropMarks}
+                          tabIndex={0}
+                        >
+                          <span className={`checkbox ${printOptions.cropMarks ? 'checked' : ''}`}>
+                            {printOptions.cropMarks && <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><polyline points="20 6 9 17 4 12" /></svg>}
+                          </span>
+                          <span>Crop marks</span>
+                        </label>
+
+                        <label
+                          className="checkbox-option"
+                          onClick={() => setShowGuides(!showGuides)}
+                          onKeyDown={clickOnActivateKey}
+                          role="checkbox"
+                          aria-checked={showGuides}
+                          tabIndex={0}
+                        >
+                          <span className={`checkbox ${showGuides ? 'checked' : ''}`}>
+                            {showGuides && <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><polyline points="20 6 9 17 4 12" /></svg>}
+                          </span>
+                          <span>Show safe-area guides</span>
+                        </label>
+                      </div>
+                    )}
+
                     {/* DPI Warning */}
                     {dpiWarning && (
                       <div className="quality-warning">
@@ -308,30 +754,71 @@ export function FitImage() {
                       </div>
                     )}
 
+                    {originalImage && (
+                      <LinearLightPanel
+                        source={originalImage}
+                        scale={result.scale}
+                        kernel={DEFAULT_RESAMPLE_KERNEL}
+                        colorSpace={resolveColorHandling(metadata.icc, colorMode).colorSpace}
+                        enabled={linearLight}
+                        onChange={handleLinearLightChange}
+                      />
+                    )}
+
+                    <SharpenPanel options={sharpen} onChange={handleSharpenChange} />
+
+                    <ColorProfilePanel profile={metadata.icc} mode={colorMode} onModeChange={handleColorModeChange} />
+
+                    <MetadataPanel metadata={metadata} mode={metadataMode} onModeChange={setMetadataMode} />
+
                     {/* Export Format */}
                     <div className="format-section">
                       <p className="helper-text">Export format:</p>
                       <div className="format-toggle-btns">
                         <button
                           className={`format-toggle-btn ${exportFormat === 'jpeg' ? 'active' : ''}`}
+                          aria-pressed={exportFormat === 'jpeg'}
                           onClick={() => setExportFormat('jpeg')}
+                          disabled={hasTransparentPadding}
+                          title={hasTransparentPadding ? 'JPEG does not support transparency' : undefined}
                         >
                           JPEG
                         </button>
                         <button
                           className={`format-toggle-btn ${exportFormat === 'png' ? 'active' : ''}`}
+                          aria-pressed={exportFormat === 'png'}
                           onClick={() => setExportFormat('png')}
                         >
                           PNG
                         </button>
+                        <button
+                          className={`format-toggle-btn ${exportFormat === 'pdf' ? 'active' : ''}`}
+                          aria-pressed={exportFormat === 'pdf'}
+                          onClick={() => setExportFormat('pdf')}
+                          disabled={hasTransparentPadding}
+                          title={hasTransparentPadding ? 'PDF export does not keep transparency' : undefined}
+                        >
+                          PDF
+                        </button>
                       </div>
                       <p className="format-hint">
                         {exportFormat === 'png'
                           ? 'Lossless quality, larger file size'
-                          : 'Smaller file, works everywhere'}
+                          : exportFormat === 'pdf'
+                            ? 'Ready to print at the exact page size'
+                            : 'Smaller file, works everywhere'}
                       </p>
                     </div>
 
+                    {batchFiles.length > 1 && (
+                      <BatchQueue
+                        files={batchFiles}
+                        processFile={processBatchFile}
+                        archiveName="fitted-images.zip"
+                        onClear={() => setBatchFiles([])}
+                      />
+                    )}
+
                     {/* Download Section */}
                     <div className="download-section-simple">
                       <button
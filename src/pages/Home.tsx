@@ -57,6 +57,46 @@ const tools = [
       </svg>
     ),
   },
+  {
+    id: 'passport',
+    name: 'Passport Photo',
+    description: 'Make passport and ID photos and print them on a 4×6" or A4 sheet',
+    path: '/passport-photo',
+    icon: (
+      <svg width="32" height="32" viewBox="0 0 32 32" fill="none">
+        <rect x="6" y="3" width="20" height="26" rx="2" stroke="currentColor" strokeWidth="2" fill="none" />
+        <circle cx="16" cy="13" r="4" stroke="currentColor" strokeWidth="1.5" fill="none" />
+        <path d="M10 25C10 21 12.5 19 16 19C19.5 19 22 21 22 25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+      </svg>
+    ),
+  },
+  {
+    id: 'pdf',
+    name: 'Images to PDF',
+    description: 'Combine document photos into one multi-page PDF',
+    path: '/images-to-pdf',
+    icon: (
+      <svg width="32" height="32" viewBox="0 0 32 32" fill="none">
+        <rect x="9" y="2" width="19" height="24" rx="2" stroke="currentColor" strokeWidth="2" fill="none" />
+        <path d="M5 7V28C5 29.1 5.9 30 7 30H23" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+        <path d="M13 9H24M13 14H24M13 19H20" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+      </svg>
+    ),
+  },
+  {
+    id: 'editor',
+    name: 'Image Editor',
+    description: 'Crop, rotate, resize, fit and compress in one pass, and reuse the steps',
+    path: '/editor',
+    icon: (
+      <svg width="32" height="32" viewBox="0 0 32 32" fill="none">
+        <path d="M5 8H27M5 16H27M5 24H27" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+        <circle cx="11" cy="8" r="2.5" fill="currentColor" />
+        <circle cx="20" cy="16" r="2.5" fill="currentColor" />
+        <circle cx="9" cy="24" r="2.5" fill="currentColor" />
+      </svg>
+    ),
+  },
 ];
 
 export function Home() {
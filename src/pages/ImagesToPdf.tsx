@@ -0,0 +1,369 @@
+import { useState, useCallback, useMemo } from 'react';
+import { FileUpload } from '../components/FileUpload';
+import { Header } from '../components/Header';
+import { loadImage, LoadOptions, isHeicFile, Orientation, detectOrientation, getPageSize, downloadBlob, generateFilename } from '../processor';
+import { JPEG_QUALITY, OutputFormat } from '../constants';
+import { getCanvasTarget, listCanvasTargets } from '../targets';
+import { createImagePdf, PdfPage } from '../utils/pdf';
+import { createThumbnail } from '../utils/thumbnail';
+import { formatFileSize } from '../utils/format';
+import { runJob } from '../utils/processing';
+import { clickOnActivateKey } from '../utils/a11y';
+
+interface PdfPageItem {
+  id: string;
+  file: File;
+  image: HTMLImageElement;
+  orientation: Orientation;
+  thumbnail: string;
+}
+
+// Rough size of the PDF structure around each embedded JPEG
+const PDF_OVERHEAD_BYTES = 1024;
+const PDF_PAGE_OVERHEAD_BYTES = 512;
+
+export function ImagesToPdf() {
+  const [pages, setPages] = useState<PdfPageItem[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isConvertingHeic, setIsConvertingHeic] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Document controls
+  const [pageFormat, setPageFormat] = useState<OutputFormat>('a4');
+  const [limitSize, setLimitSize] = useState(false);
+  const [targetSizeKB, setTargetSizeKB] = useState<number>(2000);
+
+  // Export state
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [lastSize, setLastSize] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const printTargets = useMemo(() => listCanvasTargets().filter((target) => target.unit !== 'px'), []);
+  const target = getCanvasTarget(pageFormat);
+
+  const handleFilesSelect = useCallback(async (files: File[], options: LoadOptions = {}) => {
+    setIsProcessing(true);
+    setError(null);
+    setLastSize(null);
+    if (files.some(isHeicFile)) {
+      setIsConvertingHeic(true);
+    }
+
+    try {
+      const images = await Promise.all(files.map((file) => loadImage(file, options)));
+      setPages(files.map((file, index) => ({
+        id: `${Date.now()}-${index}-${file.name}`,
+        file,
+        image: images[index],
+        orientation: detectOrientation(images[index].naturalWidth, images[index].naturalHeight),
+        thumbnail: createThumbnail(images[index], 160),
+      })));
+    } catch (err) {
+      console.error('Processing error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load images');
+      setPages([]);
+    } finally {
+      setIsProcessing(false);
+      setIsConvertingHeic(false);
+    }
+  }, []);
+
+  const handleDrop = useCallback((toIndex: number) => {
+    if (dragIndex === null || dragIndex === toIndex) return;
+    const next = [...pages];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(toIndex, 0, moved);
+    setPages(next);
+    setDragIndex(null);
+  }, [dragIndex, pages]);
+
+  const handleRemove = useCallback((id: string) => {
+    setPages((prev) => prev.filter((page) => page.id !== id));
+  }, []);
+
+  const handleToggleOrientation = useCallback((id: string) => {
+    setPages((prev) => prev.map((page) => page.id === id
+      ? { ...page, orientation: page.orientation === 'portrait' ? 'landscape' : 'portrait' }
+      : page
+    ));
+  }, []);
+
+  const handleDownload = useCallback(async () => {
+    if (pages.length === 0) return;
+
+    setError(null);
+    setProgress({ done: 0, total: pages.length });
+
+    // Split the budget evenly; each page gets its own quality search
+    const pageBudget = Math.max(
+      1024,
+      (targetSizeKB * 1024 - PDF_OVERHEAD_BYTES) / pages.length - PDF_PAGE_OVERHEAD_BYTES
+    );
+
+    try {
+      const pdfPages: PdfPage[] = [];
+
+      // One page at a time so only a single full-size canvas is alive
+      for (let i = 0; i < pages.length; i++) {
+        const { blob, fit } = await runJob(pages[i].image, {
+          operations: [{
+            type: 'fit',
+            options: { outputFormat: pageFormat, orientation: pages[i].orientation },
+            target: getCanvasTarget(pageFormat),
+          }],
+          output: limitSize
+            ? { type: 'target-size', mimeType: 'image/jpeg', targetBytes: pageBudget }
+            : { type: 'blob', mimeType: 'image/jpeg', quality: JPEG_QUALITY },
+        });
+        const { orientation, canvasWidth, canvasHeight } = fit!;
+
+        pdfPages.push({
+          jpeg: new Uint8Array(await blob!.arrayBuffer()),
+          pixelWidth: canvasWidth,
+          pixelHeight: canvasHeight,
+          ...getPageSize(pageFormat, orientation, canvasWidth, canvasHeight),
+        });
+
+        setProgress({ done: i + 1, total: pages.length });
+      }
+
+      const pdf = createImagePdf(pdfPages);
+      setLastSize(pdf.size);
+      downloadBlob(pdf, generateFilename(pages[0].file.name, 'pdf', pageFormat));
+    } catch (err) {
+      console.error('PDF export failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to build PDF');
+    } finally {
+      setProgress(null);
+    }
+  }, [pages, pageFormat, limitSize, targetSizeKB]);
+
+  const handleReset = useCallback(() => {
+    setPages([]);
+    setError(null);
+    setLastSize(null);
+  }, []);
+
+  const isExporting = progress !== null;
+
+  return (
+    <div className="app">
+      <Header />
+
+      <main className="main">
+        <div className="container">
+          {pages.length === 0 && !isProcessing ? (
+            <section className="upload-section">
+              <div className="intro">
+                <h2>Images to PDF</h2>
+                <p className="intro-desc">Bundle photos of a multi-page document into a single printable PDF.</p>
+              </div>
+
+              {error && (
+                <div className="error-message" role="alert">
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <FileUpload onFilesSelect={handleFilesSelect} multiple disabled={isProcessing} />
+
+              <div className="features">
+                <div className="feature">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                  <span>Drag to reorder pages</span>
+                </div>
+                <div className="feature">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                  <span>Portrait or landscape per page</span>
+                </div>
+                <div className="feature">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                  <span>Optional total file size limit</span>
+                </div>
+              </div>
+            </section>
+          ) : (
+            <section className="result-section resize-simple-layout">
+              {(isProcessing || isConvertingHeic) && (
+                <div className="preview-loading">
+                  <div className="spinner"></div>
+                  <p>{isConvertingHeic ? 'Converting HEIC images...' : 'Loading pages...'}</p>
+                </div>
+              )}
+
+              {pages.length > 0 && !isProcessing && (
+                <div className="resize-simple-grid">
+                  {/* LEFT: Page list */}
+                  <div className="simple-preview-area">
+                    <div className="size-info-bar">
+                      <div className="size-original">
+                        <span className="size-label">Pages</span>
+                        <span className="size-value">{pages.length}</span>
+                      </div>
+                      <div className="size-arrow">
+                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5">
+                          <line x1="5" y1="12" x2="19" y2="12" />
+                          <polyline points="12 5 19 12 12 19" />
+                        </svg>
+                      </div>
+                      <div className="size-new">
+                        <span className="size-label">{target.name}</span>
+                        <span className="size-value">PDF</span>
+                      </div>
+                    </div>
+
+                    <div className="pdf-page-grid">
+                      {pages.map((page, index) => (
+                        <div
+                          key={page.id}
+                          className={`pdf-page-card ${dragIndex === index ? 'dragging' : ''}`}
+                          draggable
+                          onDragStart={() => setDragIndex(index)}
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={() => handleDrop(index)}
+                          onDragEnd={() => setDragIndex(null)}
+                          title={page.file.name}
+                        >
+                          <div
+                            className="pdf-page-sheet"
+                            style={{
+                              aspectRatio: page.orientation === 'portrait'
+                                ? `${target.width} / ${target.height}`
+                                : `${target.height} / ${target.width}`,
+                            }}
+                          >
+                            <img src={page.thumbnail} alt={page.file.name} draggable={false} />
+                          </div>
+                          <span className="sheet-order-index">{index + 1}</span>
+                          <button
+                            className="sheet-order-remove"
+                            onClick={() => handleRemove(page.id)}
+                            aria-label={`Remove ${page.file.name}`}
+                          >
+                            ×
+                          </button>
+                          <button
+                            className="pdf-page-orientation"
+                            onClick={() => handleToggleOrientation(page.id)}
+                            aria-label={`Page ${index + 1}: ${page.orientation}. Switch orientation`}
+                          >
+                            {page.orientation === 'portrait' ? 'Portrait' : 'Landscape'}
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+
+                    <button className="reset-link" onClick={handleReset}>
+                      ← Choose different images
+                    </button>
+                  </div>
+
+                  {/* RIGHT: Options */}
+                  <div className="simple-options-panel">
+                    <h2 className="options-title">PDF options</h2>
+
+                    {error && (
+                      <div className="error-message" role="alert">
+                        <span>{error}</span>
+                      </div>
+                    )}
+
+                    <div className="resize-controls-simple">
+                      <label className="helper-text" htmlFor="pdf-page-size">Page size:</label>
+                      <select
+                        id="pdf-page-size"
+                        className="toggle-select"
+                        value={pageFormat}
+                        onChange={(e) => setPageFormat(e.target.value)}
+                      >
+                        {printTargets.map((t) => (
+                          <option key={t.id} value={t.id}>{t.name} ({t.description})</option>
+                        ))}
+                      </select>
+                      <p className="format-hint">Each image is fitted onto its page without cropping.</p>
+                    </div>
+
+                    <div className="resize-controls-simple">
+                      <label
+                        className="checkbox-option"
+                        onClick={() => setLimitSize(!limitSize)}
+                        onKeyDown={clickOnActivateKey}
+                        role="checkbox"
+                        aria-checked={limitSize}
+                        tabIndex={0}
+                      >
+                        <span className={`checkbox ${limitSize ? 'checked' : ''}`}>
+                          {limitSize && <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><polyline points="20 6 9 17 4 12" /></svg>}
+                        </span>
+                        <span>Limit total file size</span>
+                      </label>
+
+                      {limitSize && (
+                        <>
+                          <div className="target-size-field">
+                            <input
+                              type="number"
+                              value={targetSizeKB}
+                              onChange={(e) => setTargetSizeKB(parseInt(e.target.value) || 100)}
+                              min="50"
+                              max="100000"
+                            />
+                            <span className="unit">KB</span>
+                          </div>
+
+                          <div className="quick-size-btns">
+                            {[500, 1000, 2000, 5000].map((kb) => (
+                              <button
+                                key={kb}
+                                className={targetSizeKB === kb ? 'active' : ''}
+                                aria-pressed={targetSizeKB === kb}
+                                onClick={() => setTargetSizeKB(kb)}
+                              >
+                                {kb < 1000 ? `${kb} KB` : `${kb / 1000} MB`}
+                              </button>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+
+                    {lastSize !== null && (
+                      <p className="format-hint">
+                        Last export: {formatFileSize(lastSize)}
+                        {limitSize && lastSize > targetSizeKB * 1024 && ' (over the limit even at the lowest quality)'}
+                      </p>
+                    )}
+
+                    <div className="download-section-simple">
+                      <button
+                        className="big-download-btn"
+                        onClick={handleDownload}
+                        disabled={isExporting}
+                      >
+                        {progress ? `Building page ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...` : 'Download PDF'}
+                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <circle cx="12" cy="12" r="10" />
+                          <path d="M12 8v8M8 12l4 4 4-4" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      </main>
+
+      <footer className="footer">
+        <p>Your images are processed locally in your browser. Nothing is uploaded to any server.</p>
+      </footer>
+    </div>
+  );
+}
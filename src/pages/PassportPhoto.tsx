@@ -0,0 +1,568 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { FileUpload } from '../components/FileUpload';
+import { Header } from '../components/Header';
+import { MetadataPanel } from '../components/MetadataPanel';
+import { loadImage, LoadOptions, isHeicFile, PhotoSheetResult, ExportFormat, exportCanvas, downloadBlob, generateFilename, getFileExtension, getPageSize, PageSize } from '../processor';
+import { A4, ID_PHOTO_SPECS, ID_PHOTO_SHEET, IdPhotoSpec, OutputFormat } from '../constants';
+import { getCanvasTarget, mmToPixels } from '../targets';
+import { ImageMetadata, MetadataMode, EMPTY_METADATA, readImageMetadata } from '../utils/metadata';
+import { CropArea, CropHandle, getInitialCropArea, applyAspectRatio, moveCropArea, resizeCropArea } from '../utils/crop';
+import { runJob, tileSheet, encodeImage } from '../utils/processing';
+import { clickOnActivateKey } from '../utils/a11y';
+
+type Step = 'crop' | 'sheet';
+
+/**
+ * Renders the cropped region at the spec's exact pixel size (at A4.DPI)
+ */
+async function renderIdPhoto(image: HTMLImageElement, crop: CropArea, spec: IdPhotoSpec): Promise<HTMLCanvasElement> {
+  const { canvas } = await runJob(image, {
+    operations: [
+      { type: 'crop', rect: crop, rotation: 0 },
+      {
+        type: 'resize',
+        width: Math.round(mmToPixels(spec.widthMm, A4.DPI)),
+        height: Math.round(mmToPixels(spec.heightMm, A4.DPI)),
+      },
+    ],
+    output: { type: 'canvas' },
+  });
+  return canvas!;
+}
+
+export function PassportPhoto() {
+  const [originalFile, setOriginalFile] = useState<File | null>(null);
+  const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isConvertingHeic, setIsConvertingHeic] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Photo controls
+  const [spec, setSpec] = useState<IdPhotoSpec>(ID_PHOTO_SPECS[0]);
+  const [cropArea, setCropArea] = useState<CropArea>({ x: 0, y: 0, width: 100, height: 100 });
+  const [step, setStep] = useState<Step>('crop');
+
+  // Sheet controls
+  const [sheetFormat, setSheetFormat] = useState<OutputFormat>(ID_PHOTO_SHEET.FORMATS[0]);
+  const [cutMarks, setCutMarks] = useState(true);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('jpeg');
+  const [isExporting, setIsExporting] = useState(false);
+  const [photoCanvas, setPhotoCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [sheet, setSheet] = useState<PhotoSheetResult | null>(null);
+  const [sheetFits, setSheetFits] = useState(true);
+  const [metadata, setMetadata] = useState<ImageMetadata>(EMPTY_METADATA);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>('strip');
+
+  // Interaction state
+  const [isDragging, setIsDragging] = useState(false);
+  const [isResizing, setIsResizing] = useState<CropHandle | null>(null);
+  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const [cropStart, setCropStart] = useState<CropArea>({ x: 0, y: 0, width: 0, height: 0 });
+
+  const ratio = spec.widthMm / spec.heightMm;
+
+  // Cleanup URL on unmount
+  useEffect(() => {
+    return () => {
+      if (imageUrl) {
+        URL.revokeObjectURL(imageUrl);
+      }
+    };
+  }, [imageUrl]);
+
+  const displayScale = originalImage
+    ? Math.min(550 / originalImage.naturalWidth, 380 / originalImage.naturalHeight, 1)
+    : 1;
+
+  const handleFileSelect = useCallback(async (file: File, options: LoadOptions = {}) => {
+    setIsProcessing(true);
+    setError(null);
+    setOriginalFile(file);
+    setStep('crop');
+
+    if (imageUrl) {
+      URL.revokeObjectURL(imageUrl);
+    }
+
+    if (isHeicFile(file)) {
+      setIsConvertingHeic(true);
+    }
+
+    try {
+      const [image, fileMetadata] = await Promise.all([loadImage(file, options), readImageMetadata(file)]);
+      setIsConvertingHeic(false);
+      setOriginalImage(image);
+      // A new image starts from a fresh box; spec changes re-fit the existing one instead
+      setCropArea(getInitialCropArea(image.naturalWidth, image.naturalHeight, ratio, 0.6));
+      setMetadata(fileMetadata);
+
+      // Create a display URL (loadImage revokes its internal URL)
+      const blob = await encodeImage(image, { type: 'blob', mimeType: 'image/jpeg', quality: 0.95 });
+      setImageUrl(URL.createObjectURL(blob));
+    } catch (err) {
+      console.error('Processing error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load image');
+      setOriginalFile(null);
+    } finally {
+      setIsProcessing(false);
+      setIsConvertingHeic(false);
+    }
+  }, [imageUrl, ratio]);
+
+  const handleSpecChange = useCallback((next: IdPhotoSpec) => {
+    setSpec(next);
+    if (originalImage) {
+      setCropArea(applyAspectRatio(
+        cropArea,
+        next.widthMm / next.heightMm,
+        originalImage.naturalWidth,
+        originalImage.naturalHeight
+      ));
+    }
+  }, [originalImage, cropArea]);
+
+  const handleMouseDown = useCallback((e: React.MouseEvent, handle?: CropHandle) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (handle) {
+      setIsResizing(handle);
+    } else {
+      setIsDragging(true);
+    }
+    setDragStart({ x: e.clientX, y: e.clientY });
+    setCropStart({ ...cropArea });
+  }, [cropArea]);
+
+  const handleMouseMove = useCallback((e: React.MouseEvent) => {
+    if (!isDragging && !isResizing) return;
+    if (!originalImage) return;
+
+    const deltaX = (e.clientX - dragStart.x) / displayScale;
+    const deltaY = (e.clientY - dragStart.y) / displayScale;
+    const imgW = originalImage.naturalWidth;
+    const imgH = originalImage.naturalHeight;
+
+    if (isDragging) {
+      setCropArea(moveCropArea(cropStart, deltaX, deltaY, imgW, imgH));
+    } else if (isResizing) {
+      setCropArea(resizeCropArea(cropStart, isResizing, deltaX, deltaY, imgW, imgH, ratio));
+    }
+  }, [isDragging, isResizing, dragStart, displayScale, originalImage, cropStart, ratio]);
+
+  const handleMouseUp = useCallback(() => {
+    setIsDragging(false);
+    setIsResizing(null);
+  }, []);
+
+  // Single photo at exact size, and the tiled sheet built from it
+  useEffect(() => {
+    if (!originalImage || step !== 'sheet') {
+      setPhotoCanvas(null);
+      return;
+    }
+
+    let cancelled = false;
+    renderIdPhoto(originalImage, cropArea, spec)
+      .then((canvas) => {
+        if (!cancelled) setPhotoCanvas(canvas);
+      })
+      .catch((err) => {
+        console.error('Photo error:', err);
+        if (!cancelled) setError('Failed to render photo');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [originalImage, cropArea, spec, step]);
+
+  useEffect(() => {
+    setSheet(null);
+    setSheetFits(true);
+    if (!photoCanvas) return;
+
+    let cancelled = false;
+    tileSheet(
+      photoCanvas,
+      { width: spec.widthMm, height: spec.heightMm },
+      sheetFormat,
+      { gapMm: ID_PHOTO_SHEET.GAP_MM, marginMm: ID_PHOTO_SHEET.MARGIN_MM, cutMarks }
+    )
+      .then((result) => {
+        if (!cancelled) setSheet(result);
+      })
+      .catch((err) => {
+        console.error('Sheet error:', err);
+        if (!cancelled) setSheetFits(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [photoCanvas, spec, sheetFormat, cutMarks]);
+
+  const sheetPreviewUrl = useMemo(() => sheet?.canvas.toDataURL() ?? null, [sheet]);
+
+  const handleDownload = useCallback(async (what: 'sheet' | 'single') => {
+    const canvas = what === 'sheet' ? sheet?.canvas : photoCanvas;
+    if (!canvas || !originalFile) return;
+
+    setIsExporting(true);
+    try {
+      const page: PageSize = what === 'sheet' && sheet
+        ? getPageSize(sheetFormat, sheet.orientation, canvas.width, canvas.height)
+        : { widthMm: spec.widthMm, heightMm: spec.heightMm };
+      const dpi = what === 'sheet' ? getCanvasTarget(sheetFormat).dpi : A4.DPI;
+      const blob = await exportCanvas(canvas, exportFormat, { page, dpi, metadata, metadataMode });
+      const filename = what === 'sheet'
+        ? generateFilename(originalFile.name, exportFormat, sheetFormat, spec.id)
+        : `${originalFile.name.replace(/\.[^/.]+$/, '')}-${spec.id}.${getFileExtension(exportFormat)}`;
+      downloadBlob(blob, filename);
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError('Failed to export photo');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [sheet, photoCanvas, originalFile, exportFormat, spec, sheetFormat, metadata, metadataMode]);
+
+  const handleReset = useCallback(() => {
+    if (imageUrl) {
+      URL.revokeObjectURL(imageUrl);
+    }
+    setOriginalFile(null);
+    setOriginalImage(null);
+    setImageUrl(null);
+    setError(null);
+    setStep('crop');
+  }, [imageUrl]);
+
+  const displayWidth = originalImage ? originalImage.naturalWidth * displayScale : 0;
+  const displayHeight = originalImage ? originalImage.naturalHeight * displayScale : 0;
+
+  // Face guide, in millimetres inside the photo
+  const headMid = (spec.headHeightMm[0] + spec.headHeightMm[1]) / 2;
+  const chinMin = spec.crownTopMm + spec.headHeightMm[0];
+  const chinMax = spec.crownTopMm + spec.headHeightMm[1];
+
+  return (
+    <div className="app">
+      <Header />
+
+      <main className="main">
+        <div className="container">
+          {!originalImage && !isProcessing && !error ? (
+            <section className="upload-section">
+              <div className="intro">
+                <h2>Passport Photo</h2>
+                <p className="intro-desc">Crop a photo to a standard ID size and print several copies on one 4×6" or A4 sheet.</p>
+              </div>
+
+              <div className="intro">
+                <h2>How it works</h2>
+                <div className="steps">
+                  <div className="step">
+                    <div className="step-number">1</div>
+                    <div className="step-content">
+                      <h3>Upload</h3>
+                      <p>Drop or select a front-facing photo</p>
+                    </div>
+                  </div>
+                  <div className="step">
+                    <div className="step-number">2</div>
+                    <div className="step-content">
+                      <h3>Line up</h3>
+                      <p>Fit the face inside the guide</p>
+                    </div>
+                  </div>
+                  <div className="step">
+                    <div className="step-number">3</div>
+                    <div className="step-content">
+                      <h3>Print</h3>
+                      <p>Download a sheet with cut marks</p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <FileUpload onFileSelect={handleFileSelect} disabled={isProcessing} />
+
+              <div className="features">
+                <div className="feature">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                  <span>35×45 mm, 2×2 in and more</span>
+                </div>
+                <div className="feature">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                  <span>Face position guide</span>
+                </div>
+                <div className="feature">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                  <span>300 DPI print sheet with cut marks</span>
+                </div>
+              </div>
+            </section>
+          ) : (
+            <section className="result-section resize-simple-layout">
+              {error && (
+                <div className="error-message" role="alert">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <circle cx="12" cy="12" r="10" />
+                    <line x1="12" y1="8" x2="12" y2="12" />
+                    <line x1="12" y1="16" x2="12.01" y2="16" />
+                  </svg>
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {(isProcessing || isConvertingHeic) && (
+                <div className="preview-loading">
+                  <div className="spinner"></div>
+                  <p>{isConvertingHeic ? 'Converting HEIC image...' : 'Processing...'}</p>
+                </div>
+              )}
+
+              {originalImage && imageUrl && !isProcessing && (
+                <div className="resize-simple-grid crop-grid-layout">
+                  {/* LEFT: Crop or sheet preview */}
+                  <div className="simple-preview-area crop-preview-area">
+                    <div className="size-info-bar">
+                      <div className="size-original">
+                        <span className="size-label">Photo</span>
+                        <span className="size-value">{spec.name}</span>
+                      </div>
+                      <div className="size-arrow">
+                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5">
+                          <line x1="5" y1="12" x2="19" y2="12" />
+                          <polyline points="12 5 19 12 12 19" />
+                        </svg>
+                      </div>
+                      <div className="size-new">
+                        <span className="size-label">{step === 'sheet' ? 'Copies' : 'Crop area'}</span>
+                        <span className="size-value">
+                          {step === 'sheet'
+                            ? (sheet ? sheet.count : '...')
+                            : `${Math.round(cropArea.width)} × ${Math.round(cropArea.height)}`}
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className="preview-image-wrapper">
+                      {step === 'crop' ? (
+                        <div
+                          className="crop-canvas-wrapper"
+                          onMouseMove={handleMouseMove}
+                          onMouseUp={handleMouseUp}
+                          onMouseLeave={handleMouseUp}
+                        >
+                          <div
+                            className="crop-image-container"
+                            style={{ width: displayWidth, height: displayHeight, position: 'relative' }}
+                          >
+                            <img
+                              src={imageUrl}
+                              alt="Original"
+                              style={{ width: displayWidth, height: displayHeight, display: 'block' }}
+                              draggable={false}
+                            />
+
+                            <div
+                              className="crop-selection"
+                              style={{
+                                position: 'absolute',
+                                left: cropArea.x * displayScale,
+                                top: cropArea.y * displayScale,
+                                width: cropArea.width * displayScale,
+                                height: cropArea.height * displayScale,
+                                border: '2px solid white',
+                                boxSizing: 'border-box',
+                                cursor: 'move',
+                                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+                              }}
+                              onMouseDown={(e) => handleMouseDown(e)}
+                            >
+                              {/* Face position guide */}
+                              <svg
+                                className="face-guide"
+                                viewBox={`0 0 ${spec.widthMm} ${spec.heightMm}`}
+                                preserveAspectRatio="none"
+                              >
+                                <rect
+                                  x="0"
+                                  y={chinMin}
+                                  width={spec.widthMm}
+                                  height={chinMax - chinMin}
+                                  className="face-guide-chin"
+                                />
+                                <line x1="0" y1={spec.crownTopMm} x2={spec.widthMm} y2={spec.crownTopMm} className="face-guide-line" />
+                                <ellipse
+                                  cx={spec.widthMm / 2}
+                                  cy={spec.crownTopMm + headMid / 2}
+                                  rx={headMid * 0.36}
+                                  ry={headMid / 2}
+                                  className="face-guide-oval"
+                                />
+                              </svg>
+
+                              <div className="crop-handle nw" onMouseDown={(e) => handleMouseDown(e, 'nw')} />
+                              <div className="crop-handle ne" onMouseDown={(e) => handleMouseDown(e, 'ne')} />
+                              <div className="crop-handle sw" onMouseDown={(e) => handleMouseDown(e, 'sw')} />
+                              <div className="crop-handle se" onMouseDown={(e) => handleMouseDown(e, 'se')} />
+                            </div>
+                          </div>
+                        </div>
+                      ) : (
+                        sheetPreviewUrl && (
+                          <div className="image-with-info">
+                            <img src={sheetPreviewUrl} alt="Photo sheet preview" />
+                          </div>
+                        )
+                      )}
+                    </div>
+
+                    <button className="reset-link" onClick={handleReset}>
+                      ← Choose a different image
+                    </button>
+                  </div>
+
+                  {/* RIGHT: Options */}
+                  <div className="simple-options-panel">
+                    <h2 className="options-title">{step === 'crop' ? 'Photo size' : 'Print sheet'}</h2>
+
+                    {step === 'crop' ? (
+                      <>
+                        <div className="resize-controls-simple presets-scroll">
+                          <p className="helper-text">Choose a standard size:</p>
+                          {ID_PHOTO_SPECS.map((s) => (
+                            <button
+                              key={s.id}
+                              className={`preset-option ${spec.id === s.id ? 'active' : ''}`}
+                              aria-pressed={spec.id === s.id}
+                              onClick={() => handleSpecChange(s)}
+                            >
+                              <span className="preset-title">{s.name}</span>
+                              <span className="preset-size">{s.description}</span>
+                            </button>
+                          ))}
+                        </div>
+
+                        <p className="format-hint">
+                          Line the top of the head up with the upper line and keep the chin inside the shaded band.
+                        </p>
+
+                        <div className="download-section-simple">
+                          <button className="big-download-btn" onClick={() => setStep('sheet')}>
+                            Make SHEET
+                            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <line x1="5" y1="12" x2="19" y2="12" />
+                              <polyline points="12 5 19 12 12 19" />
+                            </svg>
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div className="resize-controls-simple">
+                          <p className="helper-text">Sheet size:</p>
+                          <div className="aspect-grid">
+                            {ID_PHOTO_SHEET.FORMATS.map((id) => (
+                              <button
+                                key={id}
+                                className={`aspect-btn-new ${sheetFormat === id ? 'active' : ''}`}
+                                aria-pressed={sheetFormat === id}
+                                onClick={() => setSheetFormat(id)}
+                              >
+                                {getCanvasTarget(id).name}
+                              </button>
+                            ))}
+                          </div>
+
+                          <label
+                            className="checkbox-option"
+                            onClick={() => setCutMarks(!cutMarks)}
+                            onKeyDown={clickOnActivateKey}
+                            role="checkbox"
+                            aria-checked={cutMarks}
+                            tabIndex={0}
+                          >
+                            <span className={`checkbox ${cutMarks ? 'checked' : ''}`}>
+                              {cutMarks && <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><polyline points="20 6 9 17 4 12" /></svg>}
+                            </span>
+                            <span>Cut marks</span>
+                          </label>
+
+                          {!sheetFits && (
+                            <p className="format-hint">This photo size does not fit on the selected sheet.</p>
+                          )}
+                        </div>
+
+                        <MetadataPanel metadata={metadata} mode={metadataMode} onModeChange={setMetadataMode} />
+
+                        <div className="format-section">
+                          <p className="helper-text">Export format:</p>
+                          <div className="format-toggle-btns">
+                            <button
+                              className={`format-toggle-btn ${exportFormat === 'jpeg' ? 'active' : ''}`}
+                              aria-pressed={exportFormat === 'jpeg'}
+                              onClick={() => setExportFormat('jpeg')}
+                            >
+                              JPEG
+                            </button>
+                            <button
+                              className={`format-toggle-btn ${exportFormat === 'png' ? 'active' : ''}`}
+                              aria-pressed={exportFormat === 'png'}
+                              onClick={() => setExportFormat('png')}
+                            >
+                              PNG
+                            </button>
+                            <button
+                              className={`format-toggle-btn ${exportFormat === 'pdf' ? 'active' : ''}`}
+                              aria-pressed={exportFormat === 'pdf'}
+                              onClick={() => setExportFormat('pdf')}
+                            >
+                              PDF
+                            </button>
+                          </div>
+                        </div>
+
+                        <div className="download-section-simple">
+                          <button
+                            className="big-download-btn"
+                            onClick={() => handleDownload('sheet')}
+                            disabled={!sheet || isExporting}
+                          >
+                            {isExporting ? 'Exporting...' : 'Download SHEET'}
+                            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <circle cx="12" cy="12" r="10" />
+                              <path d="M12 8v8M8 12l4 4 4-4" />
+                            </svg>
+                          </button>
+                          <button className="reset-link" onClick={() => handleDownload('single')} disabled={isExporting}>
+                            Download a single photo
+                          </button>
+                          <button className="reset-link" onClick={() => setStep('crop')}>
+                            ← Adjust crop
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      </main>
+
+      <footer className="footer">
+        <p>Your images are processed locally in your browser. Nothing is uploaded to any server.</p>
+      </footer>
+    </div>
+  );
+}
@@ -1,7 +1,20 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { FileUpload } from '../components/FileUpload';
 import { Header } from '../components/Header';
-import { loadImage, isHeicFile } from '../processor';
+import { DpiSelector } from '../components/DpiSelector';
+import { MetadataPanel } from '../components/MetadataPanel';
+import { ColorProfilePanel } from '../components/ColorProfilePanel';
+import { LinearLightPanel } from '../components/LinearLightPanel';
+import { SharpenPanel } from '../components/SharpenPanel';
+import { BatchQueue, BatchOutput } from '../components/BatchQueue';
+import { loadImage, LoadOptions, isHeicFile, downloadBlob } from '../processor';
+import { A4, SCREEN_DPI, ResampleKernel, RESAMPLE_KERNELS, DEFAULT_RESAMPLE_KERNEL, SharpenOptions, SHARPEN_PRESETS } from '../constants';
+import { setImageDpi } from '../utils/dpi';
+import { ImageMetadata, MetadataMode, EMPTY_METADATA, readImageMetadata, embedMetadata } from '../utils/metadata';
+import { ColorProfileMode, resolveColorHandling, embedIccProfile } from '../utils/icc';
+import { Operation } from '../utils/operations';
+import { runJob, encodeImage, ProgressCallback } from '../utils/processing';
+import { clickOnActivateKey } from '../utils/a11y';
 
 type ResizeMode = 'dimensions' | 'percentage' | 'preset';
 
@@ -10,21 +23,22 @@ interface Preset {
   width: number;
   height: number;
   category: 'social' | 'print';
+  dpi: number;
 }
 
 const PRESETS: Preset[] = [
   // Social media
-  { name: 'Instagram Post', width: 1080, height: 1080, category: 'social' },
-  { name: 'Instagram Story', width: 1080, height: 1920, category: 'social' },
-  { name: 'Twitter Post', width: 1200, height: 675, category: 'social' },
-  { name: 'Facebook Cover', width: 851, height: 315, category: 'social' },
-  { name: 'YouTube Thumbnail', width: 1280, height: 720, category: 'social' },
-  { name: 'LinkedIn Banner', width: 1584, height: 396, category: 'social' },
+  { name: 'Instagram Post', width: 1080, height: 1080, category: 'social', dpi: SCREEN_DPI },
+  { name: 'Instagram Story', width: 1080, height: 1920, category: 'social', dpi: SCREEN_DPI },
+  { name: 'Twitter Post', width: 1200, height: 675, category: 'social', dpi: SCREEN_DPI },
+  { name: 'Facebook Cover', width: 851, height: 315, category: 'social', dpi: SCREEN_DPI },
+  { name: 'YouTube Thumbnail', width: 1280, height: 720, category: 'social', dpi: SCREEN_DPI },
+  { name: 'LinkedIn Banner', width: 1584, height: 396, category: 'social', dpi: SCREEN_DPI },
   // Print (at 300 DPI)
-  { name: '4x6" Photo', width: 1200, height: 1800, category: 'print' },
-  { name: '5x7" Photo', width: 1500, height: 2100, category: 'print' },
-  { name: '8x10" Photo', width: 2400, height: 3000, category: 'print' },
-  { name: 'A4 (300 DPI)', width: 2480, height: 3508, category: 'print' },
+  { name: '4x6" Photo', width: 1200, height: 1800, category: 'print', dpi: 300 },
+  { name: '5x7" Photo', width: 1500, height: 2100, category: 'print', dpi: 300 },
+  { name: '8x10" Photo', width: 2400, height: 3000, category: 'print', dpi: 300 },
+  { name: 'A4 (300 DPI)', width: 2480, height: 3508, category: 'print', dpi: A4.DPI },
 ];
 
 const PERCENTAGE_OPTIONS = [25, 50, 75, 100, 125, 150, 200];
@@ -43,12 +57,23 @@ export function ResizeImage() {
   const [percentage, setPercentage] = useState<number>(100);
   const [lockAspectRatio, setLockAspectRatio] = useState(true);
   const [selectedPreset, setSelectedPreset] = useState<Preset | null>(null);
+  const [kernel, setKernel] = useState<ResampleKernel>(DEFAULT_RESAMPLE_KERNEL);
+  const [linearLight, setLinearLight] = useState(false);
+  const [sharpen, setSharpen] = useState<SharpenOptions>(SHARPEN_PRESETS.off.options);
 
   // Output
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [exportFormat, setExportFormat] = useState<'png' | 'jpeg'>('jpeg');
+  const [dpi, setDpi] = useState<number>(SCREEN_DPI);
+  const [metadata, setMetadata] = useState<ImageMetadata>(EMPTY_METADATA);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>('strip');
+  const [colorMode, setColorMode] = useState<ColorProfileMode>('convert');
   const [isResizing, setIsResizing] = useState(false);
 
+  // Batch
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchLoadOptions, setBatchLoadOptions] = useState<LoadOptions>({});
+
   // Refs for debouncing and cleanup
   const resizeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const resizedCanvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -62,12 +87,8 @@ export function ResizeImage() {
     };
   }, []);
 
-  // Calculate effective dimensions based on mode
-  const getEffectiveDimensions = useCallback((): { width: number; height: number } => {
-    if (!originalImage) return { width: 0, height: 0 };
-
-    const origW = originalImage.naturalWidth;
-    const origH = originalImage.naturalHeight;
+  // Output size for an image of the given size, based on mode
+  const getTargetSize = useCallback((origW: number, origH: number): { width: number; height: number } => {
     const aspectRatio = origW / origH;
 
     switch (resizeMode) {
@@ -93,51 +114,21 @@ export function ResizeImage() {
       default:
         return { width: origW, height: origH };
     }
-  }, [originalImage, resizeMode, targetWidth, targetHeight, percentage, lockAspectRatio, selectedPreset]);
-
-  // High-quality resize using step-down algorithm
-  const resizeImage = useCallback((
-    source: HTMLImageElement,
-    targetW: number,
-    targetH: number
-  ): HTMLCanvasElement => {
-    const origW = source.naturalWidth;
-    const origH = source.naturalHeight;
-
-    // Create source canvas
-    let currentCanvas = document.createElement('canvas');
-    currentCanvas.width = origW;
-    currentCanvas.height = origH;
-    const currentCtx = currentCanvas.getContext('2d')!;
-    currentCtx.drawImage(source, 0, 0);
-
-    // Step-down algorithm for high-quality downscaling
-    while (currentCanvas.width > targetW * 2 || currentCanvas.height > targetH * 2) {
-      const halfW = Math.max(Math.floor(currentCanvas.width / 2), targetW);
-      const halfH = Math.max(Math.floor(currentCanvas.height / 2), targetH);
-
-      const halfCanvas = document.createElement('canvas');
-      halfCanvas.width = halfW;
-      halfCanvas.height = halfH;
-      const halfCtx = halfCanvas.getContext('2d')!;
-      halfCtx.imageSmoothingEnabled = true;
-      halfCtx.imageSmoothingQuality = 'high';
-      halfCtx.drawImage(currentCanvas, 0, 0, halfW, halfH);
-
-      currentCanvas = halfCanvas;
-    }
+  }, [resizeMode, targetWidth, targetHeight, percentage, lockAspectRatio, selectedPreset]);
 
-    // Final resize to exact target
-    const finalCanvas = document.createElement('canvas');
-    finalCanvas.width = targetW;
-    finalCanvas.height = targetH;
-    const finalCtx = finalCanvas.getContext('2d')!;
-    finalCtx.imageSmoothingEnabled = true;
-    finalCtx.imageSmoothingQuality = 'high';
-    finalCtx.drawImage(currentCanvas, 0, 0, targetW, targetH);
+  // Calculate effective dimensions of the loaded image
+  const getEffectiveDimensions = useCallback((): { width: number; height: number } => {
+    if (!originalImage) return { width: 0, height: 0 };
+    return getTargetSize(originalImage.naturalWidth, originalImage.naturalHeight);
+  }, [originalImage, getTargetSize]);
 
-    return finalCanvas;
-  }, []);
+  // Resample with the chosen kernel, then sharpen
+  const getResizeOperations = useCallback((width: number, height: number): Operation[] => [
+    { type: 'resize', width, height, kernel, linearLight },
+    ...(sharpen.amount > 0 ? [{ type: 'sharpen' as const, options: sharpen }] : []),
+  ], [kernel, linearLight, sharpen]);
+
+  const { colorSpace, embed: iccProfile } = resolveColorHandling(metadata.icc, colorMode);
 
   // Debounced resize processing - takes dimensions as parameters to avoid stale closures
   const processResize = useCallback((width: number, height: number) => {
@@ -151,8 +142,22 @@ export function ResizeImage() {
     }
 
     // Debounce the actual resize operation
-    resizeTimeoutRef.current = setTimeout(() => {
-      const canvas = resizeImage(originalImage, width, height);
+    resizeTimeoutRef.current = setTimeout(async () => {
+      // Resize in the processing worker
+      let canvas: HTMLCanvasElement;
+      try {
+        const result = await runJob(originalImage, {
+          operations: getResizeOperations(width, height),
+          output: { type: 'canvas' },
+          colorSpace,
+        });
+        canvas = result.canvas!;
+      } catch (err) {
+        console.error('Resize error:', err);
+        setError('Failed to resize image');
+        setIsResizing(false);
+        return;
+      }
       resizedCanvasRef.current = canvas;
 
       // Revoke old URL using ref (avoids stale closure)
@@ -170,7 +175,7 @@ export function ResizeImage() {
         setIsResizing(false);
       }, 'image/jpeg', 0.85);
     }, 300); // 300ms debounce
-  }, [originalImage, resizeImage]);
+  }, [originalImage, colorSpace, getResizeOperations]);
 
   // Trigger resize when dimensions change
   useEffect(() => {
@@ -182,7 +187,7 @@ export function ResizeImage() {
     }
   }, [originalImage, getEffectiveDimensions, processResize]);
 
-  const handleFileSelect = useCallback(async (file: File) => {
+  const handleFileSelect = useCallback(async (file: File, options: LoadOptions = {}) => {
     setIsProcessing(true);
     setError(null);
     setOriginalFile(file);
@@ -195,9 +200,10 @@ export function ResizeImage() {
     }
 
     try {
-      const image = await loadImage(file);
+      const [image, fileMetadata] = await Promise.all([loadImage(file, options), readImageMetadata(file)]);
       setIsConvertingHeic(false);
       setOriginalImage(image);
+      setMetadata(fileMetadata);
 
       // Initialize dimensions
       setTargetWidth(image.naturalWidth);
@@ -215,6 +221,36 @@ export function ResizeImage() {
     }
   }, []);
 
+  const handleFilesSelect = useCallback((files: File[], options: LoadOptions = {}) => {
+    setBatchFiles(files.length > 1 ? files : []);
+    setBatchLoadOptions(options);
+    handleFileSelect(files[0], options);
+  }, [handleFileSelect]);
+
+  const processBatchFile = useCallback(async (file: File, onProgress: ProgressCallback): Promise<BatchOutput> => {
+    const [image, fileMetadata] = await Promise.all([loadImage(file, batchLoadOptions), readImageMetadata(file)]);
+    const { width, height } = getTargetSize(image.naturalWidth, image.naturalHeight);
+    const { colorSpace: fileColorSpace, embed: fileIccProfile } = resolveColorHandling(fileMetadata.icc, colorMode);
+
+    const result = await runJob(image, {
+      operations: getResizeOperations(width, height),
+      output: exportFormat === 'jpeg'
+        ? { type: 'blob', mimeType: 'image/jpeg', quality: 0.92 }
+        : { type: 'blob', mimeType: 'image/png' },
+      colorSpace: fileColorSpace,
+    }, onProgress);
+
+    let blob = await setImageDpi(result.blob!, dpi);
+    if (fileIccProfile) {
+      blob = await embedIccProfile(blob, fileIccProfile);
+    }
+    blob = await embedMetadata(blob, fileMetadata, metadataMode);
+
+    const baseName = file.name.replace(/\.[^/.]+$/, '');
+    const ext = exportFormat === 'jpeg' ? 'jpg' : 'png';
+    return { blob, filename: `${baseName}-${width}x${height}.${ext}` };
+  }, [batchLoadOptions, getTargetSize, getResizeOperations, exportFormat, dpi, metadataMode, colorMode]);
+
   const handleWidthChange = useCallback((value: number) => {
     const newWidth = Math.max(1, Math.min(10000, value || 1));
     setTargetWidth(newWidth);
@@ -236,6 +272,7 @@ export function ResizeImage() {
   const handlePresetSelect = useCallback((preset: Preset) => {
     setSelectedPreset(preset);
     setResizeMode('preset');
+    setDpi(preset.dpi);
     setTargetWidth(preset.width);
     setTargetHeight(preset.height);
     setLockAspectRatio(false);
@@ -253,27 +290,23 @@ export function ResizeImage() {
     const quality = exportFormat === 'jpeg' ? 0.92 : undefined;
     const { width, height } = getEffectiveDimensions();
 
-    resizedCanvasRef.current.toBlob(
-      (blob) => {
-        if (!blob) return;
-
-        const baseName = originalFile.name.replace(/\.[^/.]+$/, '');
-        const ext = exportFormat === 'jpeg' ? 'jpg' : 'png';
-        const filename = `${baseName}-${width}x${height}.${ext}`;
-
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-      },
-      mimeType,
-      quality
-    );
-  }, [originalFile, exportFormat, getEffectiveDimensions]);
+    setError(null);
+    try {
+      const encoded = await encodeImage(resizedCanvasRef.current, { type: 'blob', mimeType, quality }, colorSpace);
+      let blob = await setImageDpi(encoded, dpi);
+      if (iccProfile) {
+        blob = await embedIccProfile(blob, iccProfile);
+      }
+      blob = await embedMetadata(blob, metadata, metadataMode);
+
+      const baseName = originalFile.name.replace(/\.[^/.]+$/, '');
+      const ext = exportFormat === 'jpeg' ? 'jpg' : 'png';
+      downloadBlob(blob, `${baseName}-${width}x${height}.${ext}`);
+    } catch (err) {
+      console.error('Download error:', err);
+      setError('Failed to save image');
+    }
+  }, [originalFile, exportFormat, dpi, metadata, metadataMode, colorSpace, iccProfile, getEffectiveDimensions]);
 
   const handleReset = useCallback(() => {
     if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
@@ -288,6 +321,7 @@ export function ResizeImage() {
     setTargetHeight(0);
     setPercentage(100);
     setSelectedPreset(null);
+    setBatchFiles([]);
   }, []);
 
   const effectiveDims = getEffectiveDimensions();
@@ -334,7 +368,7 @@ export function ResizeImage() {
                 </div>
               </div>
 
-              <FileUpload onFileSelect={handleFileSelect} disabled={isProcessing} />
+              <FileUpload onFilesSelect={handleFilesSelect} multiple tiled disabled={isProcessing} />
 
               <div className="features">
                 <div className="feature">
@@ -436,12 +470,14 @@ export function ResizeImage() {
                       <div className="aspect-grid">
                         <button
                           className={`aspect-btn-new ${resizeMode === 'dimensions' ? 'active' : ''}`}
+                          aria-pressed={resizeMode === 'dimensions'}
                           onClick={() => setResizeMode('dimensions')}
                         >
                           Pixels
                         </button>
                         <button
                           className={`aspect-btn-new ${resizeMode === 'percentage' ? 'active' : ''}`}
+                          aria-pressed={resizeMode === 'percentage'}
                           onClick={() => setResizeMode('percentage')}
                         >
                           Percentage
@@ -473,7 +509,14 @@ export function ResizeImage() {
                           />
                         </div>
 
-                        <label className="checkbox-option" onClick={() => setLockAspectRatio(!lockAspectRatio)}>
+                        <label
+                          className="checkbox-option"
+                          onClick={() => setLockAspectRatio(!lockAspectRatio)}
+                          onKeyDown={clickOnActivateKey}
+                          role="checkbox"
+                          aria-checked={lockAspectRatio}
+                          tabIndex={0}
+                        >
                           <span className={`checkbox ${lockAspectRatio ? 'checked' : ''}`}>
                             {lockAspectRatio && <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><polyline points="20 6 9 17 4 12" /></svg>}
                           </span>
@@ -491,6 +534,7 @@ export function ResizeImage() {
                             <button
                               key={pct}
                               className={`aspect-btn-new ${percentage === pct ? 'active' : ''}`}
+                              aria-pressed={percentage === pct}
                               onClick={() => handlePercentageChange(pct)}
                             >
                               {pct}%
@@ -528,6 +572,7 @@ export function ResizeImage() {
                             <button
                               key={preset.name}
                               className={`preset-option ${selectedPreset?.name === preset.name ? 'active' : ''}`}
+                              aria-pressed={selectedPreset?.name === preset.name}
                               onClick={() => handlePresetSelect(preset)}
                             >
                               <span className="preset-title">{preset.name}</span>
@@ -542,6 +587,7 @@ export function ResizeImage() {
                             <button
                               key={preset.name}
                               className={`preset-option ${selectedPreset?.name === preset.name ? 'active' : ''}`}
+                              aria-pressed={selectedPreset?.name === preset.name}
                               onClick={() => handlePresetSelect(preset)}
                             >
                               <span className="preset-title">{preset.name}</span>
@@ -552,6 +598,35 @@ export function ResizeImage() {
                       </div>
                     )}
 
+                    {/* Resampling Kernel */}
+                    <div className="resize-controls-simple">
+                      <p className="helper-text">Resampling:</p>
+                      <div className="aspect-grid">
+                        {(Object.keys(RESAMPLE_KERNELS) as ResampleKernel[]).map((key) => (
+                          <button
+                            key={key}
+                            className={`aspect-btn-new ${kernel === key ? 'active' : ''}`}
+                            aria-pressed={kernel === key}
+                            onClick={() => setKernel(key)}
+                          >
+                            {RESAMPLE_KERNELS[key].name}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="format-hint">{RESAMPLE_KERNELS[kernel].description}</p>
+                    </div>
+
+                    <LinearLightPanel
+                      source={originalImage}
+                      scale={scaleFactor}
+                      kernel={kernel}
+                      colorSpace={colorSpace}
+                      enabled={linearLight}
+                      onChange={setLinearLight}
+                    />
+
+                    <SharpenPanel options={sharpen} onChange={setSharpen} />
+
                     {/* Warning */}
                     {isUpscaling && scaleFactor > 1.5 && (
                       <div className="quality-warning">
@@ -564,18 +639,31 @@ export function ResizeImage() {
                       </div>
                     )}
 
+                    <ColorProfilePanel profile={metadata.icc} mode={colorMode} onModeChange={setColorMode} />
+
+                    <MetadataPanel metadata={metadata} mode={metadataMode} onModeChange={setMetadataMode} />
+
+                    <DpiSelector
+                      dpi={dpi}
+                      width={getEffectiveDimensions().width}
+                      height={getEffectiveDimensions().height}
+                      onChange={setDpi}
+                    />
+
                     {/* Output Format */}
                     <div className="format-section">
                       <p className="helper-text">Output format:</p>
                       <div className="format-toggle-btns">
                         <button
                           className={`format-toggle-btn ${exportFormat === 'jpeg' ? 'active' : ''}`}
+                          aria-pressed={exportFormat === 'jpeg'}
                           onClick={() => setExportFormat('jpeg')}
                         >
                           JPEG
                         </button>
                         <button
                           className={`format-toggle-btn ${exportFormat === 'png' ? 'active' : ''}`}
+                          aria-pressed={exportFormat === 'png'}
                           onClick={() => setExportFormat('png')}
                         >
                           PNG
@@ -588,6 +676,15 @@ export function ResizeImage() {
                       </p>
                     </div>
 
+                    {batchFiles.length > 1 && (
+                      <BatchQueue
+                        files={batchFiles}
+                        processFile={processBatchFile}
+                        archiveName="resized-images.zip"
+                        onClear={() => setBatchFiles([])}
+                      />
+                    )}
+
                     {/* Download Section */}
                     <div className="download-section-simple">
                       <button
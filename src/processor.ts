@@ -1,11 +1,55 @@
-import { heicTo } from 'heic-to';
-import { A4, WHATSAPP_DP, JPEG_QUALITY, OutputFormat, HEIC_FORMATS } from './constants';
+import { JPEG_QUALITY, OutputFormat, HEIC_FORMATS, FitMode, BackgroundMode, DEFAULT_PADDING_COLOR, DEFAULT_GRADIENT, PRINT, MM_PER_INCH, ResampleKernel, DEFAULT_RESAMPLE_KERNEL, SharpenOptions } from './constants';
+import { getCanvasTarget, getTargetPixelSize, mmToPixels } from './targets';
+import { createImagePdf } from './utils/pdf';
+import { setImageDpi } from './utils/dpi';
+import { ImageMetadata, MetadataMode, embedMetadata } from './utils/metadata';
+import { embedIccProfile } from './utils/icc';
+import { AnyCanvas, AnyContext2D, createCanvas, getContext2D, canvasToBlob, getSourceSize } from './utils/canvas';
+import { readImageDimensions, fitToPixelCount } from './utils/memory';
+import { resampleToCanvas } from './utils/resample';
+import { sharpenCanvas } from './utils/sharpen';
+import { ExifOrientation, readExifOrientation, setExifOrientation, getOrientedSize, getOrientationTransform } from './utils/exif';
 
 export type Orientation = 'portrait' | 'landscape';
-export type ExportFormat = 'png' | 'jpeg';
+export type ExportFormat = 'png' | 'jpeg' | 'pdf';
 
-export interface ProcessingResult {
-  canvas: HTMLCanvasElement;
+export interface BackgroundOptions {
+  mode: BackgroundMode;
+  color?: string;                 // Used by 'solid' (and filled in for 'dominant')
+  gradient?: [string, string];    // Used by 'gradient' (top, bottom)
+}
+
+/**
+ * Point of interest in the source image, normalized to 0-1 on each axis
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PrintOptions {
+  marginMm: number;     // Unprintable border kept clear inside the trim edge
+  bleedMm: number;      // Background extension beyond the trim edge
+  cropMarks: boolean;   // Draw trim marks outside the bleed
+}
+
+export interface PrintLayout {
+  canvasWidth: number;
+  canvasHeight: number;
+  trimRect: Rect;       // Finished page size
+  bleedRect: Rect;      // Trim plus bleed
+  printableRect: Rect;  // Trim minus margins
+}
+
+export interface ProcessingResult<C extends AnyCanvas = HTMLCanvasElement> {
+  canvas: C;
   originalWidth: number;
   originalHeight: number;
   scaledWidth: number;
@@ -15,13 +59,40 @@ export interface ProcessingResult {
   outputFormat: OutputFormat;
   canvasWidth: number;
   canvasHeight: number;
+  background: BackgroundOptions;
+  fitMode: FitMode;
+  focalPoint: FocalPoint;
+  sourceRect: Rect;   // Region of the original image that was drawn
+  print: PrintOptions;
+  layout: PrintLayout;
+  colorSpace: PredefinedColorSpace;
+}
+
+/**
+ * Physical page size in millimetres, used for PDF export
+ */
+export interface PageSize {
+  widthMm: number;
+  heightMm: number;
 }
 
 export interface ProcessingOptions {
   outputFormat: OutputFormat;
   orientation?: Orientation;
+  background?: BackgroundOptions;
+  fitMode?: FitMode;
+  focalPoint?: FocalPoint;
+  print?: PrintOptions;
+  colorSpace?: PredefinedColorSpace;   // Working space of the output canvas (default sRGB)
+  kernel?: ResampleKernel;             // Filter used to scale the image (default Lanczos3)
+  linearLight?: boolean;               // Scale in linear light (gamma-correct) instead of on sRGB values
+  sharpen?: SharpenOptions;            // Unsharp mask applied to the scaled image (not the background)
 }
 
+const CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+const NO_PRINT_OPTIONS: PrintOptions = { marginMm: 0, bleedMm: 0, cropMarks: false };
+
 /**
  * Checks if a file is HEIC/HEIF format
  */
@@ -42,7 +113,8 @@ export async function convertHeicToJpeg(file: File): Promise<Blob> {
   try {
     console.log('Starting HEIC conversion for:', file.name, 'Size:', file.size, 'Type:', file.type);
 
-    // Convert HEIC to JPEG using heic-to
+    // Convert HEIC to JPEG using heic-to (loaded on demand; it is large)
+    const { heicTo } = await import('heic-to');
     const jpegBlob = await heicTo({
       blob: file,
       type: 'image/jpeg',
@@ -82,26 +154,84 @@ export function detectOrientation(width: number, height: number): Orientation {
  * Gets canvas dimensions for the given output format and orientation
  */
 export function getCanvasDimensions(outputFormat: OutputFormat, orientation: Orientation) {
-  if (outputFormat === 'whatsapp-dp') {
-    return { width: WHATSAPP_DP.width, height: WHATSAPP_DP.height };
+  const target = getCanvasTarget(outputFormat);
+  const { width, height } = getTargetPixelSize(target);
+
+  if (!target.supportsOrientation) {
+    return { width, height };
   }
-  return orientation === 'landscape' ? A4.LANDSCAPE : A4.PORTRAIT;
+
+  const short = Math.min(width, height);
+  const long = Math.max(width, height);
+  return orientation === 'landscape'
+    ? { width: long, height: short }
+    : { width: short, height: long };
+}
+
+/**
+ * Calculates the effective print DPI of a scaled image on the given target
+ */
+export function getEffectiveDPI(outputFormat: OutputFormat, scale: number): number {
+  return Math.round(getCanvasTarget(outputFormat).dpi * scale);
+}
+
+export interface LoadOptions {
+  maxPixels?: number;   // Downscale while decoding to at most this many pixels
 }
 
 /**
- * Loads an image from a File object (handles HEIC conversion automatically)
+ * Loads an image from a File object (handles HEIC conversion and EXIF orientation automatically)
  */
-export async function loadImage(file: File): Promise<HTMLImageElement> {
+export async function loadImage(file: File, options: LoadOptions = {}): Promise<HTMLImageElement> {
   let imageBlob: Blob = file;
+  let orientation: ExifOrientation = 1;
 
-  // Convert HEIC to JPEG if needed
   if (isHeicFile(file)) {
+    // The HEIF decoder applies the container's rotation and mirroring, so this is already upright
     imageBlob = await convertHeicToJpeg(file);
+  } else if (file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name)) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    orientation = readExifOrientation(bytes);
+    if (orientation !== 1) {
+      // Neutralize the tag so every browser decodes the stored pixels as-is, then orient them here
+      setExifOrientation(bytes, 1);
+      imageBlob = new Blob([bytes as BlobPart], { type: 'image/jpeg' });
+    }
+  }
+
+  const image = options.maxPixels
+    ? await decodeImageWithin(imageBlob, options.maxPixels)
+    : await decodeImage(imageBlob);
+  return orientation === 1 ? image : orientImage(image, orientation);
+}
+
+/**
+ * Decodes a blob scaled down to at most `maxPixels`, without a full-size intermediate canvas
+ */
+async function decodeImageWithin(blob: Blob, maxPixels: number): Promise<HTMLImageElement> {
+  const size = await readImageDimensions(blob);
+  if (!size || size.width * size.height <= maxPixels) {
+    return decodeImage(blob);
   }
 
+  const { width, height } = fitToPixelCount(size.width, size.height, maxPixels);
+  const bitmap = await createImageBitmap(blob, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+
+  // Drawing at the target size also covers browsers that ignore the resize options
+  const canvas = createCanvas(width, height);
+  getContext2D(canvas).drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return decodeImage(await canvasToBlob(canvas, 'image/png'));
+}
+
+/**
+ * Decodes a blob into an image element
+ */
+function decodeImage(blob: Blob): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image();
-    const url = URL.createObjectURL(imageBlob);
+    const url = URL.createObjectURL(blob);
 
     img.onload = () => {
       URL.revokeObjectURL(url);
@@ -117,64 +247,418 @@ export async function loadImage(file: File): Promise<HTMLImageElement> {
   });
 }
 
+/**
+ * Redraws stored pixels upright for an EXIF orientation (lossless PNG round-trip)
+ */
+async function orientImage(image: HTMLImageElement, orientation: ExifOrientation): Promise<HTMLImageElement> {
+  const { width, height } = getOrientedSize(image.naturalWidth, image.naturalHeight, orientation);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.transform(...getOrientationTransform(image.naturalWidth, image.naturalHeight, orientation));
+  ctx.drawImage(image, 0, 0);
+
+  return decodeImage(await canvasToBlob(canvas, 'image/png'));
+}
+
+/**
+ * Finds the most common colour in an image (quantized to 4 bits per channel)
+ */
+export function getDominantColor(image: CanvasImageSource): string {
+  const size = 64;
+  const ctx = getContext2D(createCanvas(size, size), { willReadFrequently: true });
+  ctx.drawImage(image, 0, 0, size, size);
+  const data = ctx.getImageData(0, 0, size, size).data;
+
+  // Bucket pixels and keep running sums so we can average the winning bucket
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let best = { count: 0, r: 255, g: 255, b: 255 };
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue; // Ignore (mostly) transparent pixels
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+    if (bucket.count > best.count) best = bucket;
+  }
+
+  if (best.count === 0) return DEFAULT_PADDING_COLOR;
+
+  const toHex = (sum: number) => Math.round(sum / best.count).toString(16).padStart(2, '0');
+  return `#${toHex(best.r)}${toHex(best.g)}${toHex(best.b)}`;
+}
+
+/**
+ * Fills in defaults for a background option (and computes the dominant colour)
+ */
+function resolveBackground(image: CanvasImageSource, background?: BackgroundOptions): BackgroundOptions {
+  const mode = background?.mode ?? 'blur';
+
+  switch (mode) {
+    case 'solid':
+      return { mode, color: background?.color ?? DEFAULT_PADDING_COLOR };
+    case 'dominant':
+      return { mode, color: getDominantColor(image) };
+    case 'gradient':
+      return { mode, gradient: background?.gradient ?? [DEFAULT_GRADIENT[0], DEFAULT_GRADIENT[1]] };
+    default:
+      return { mode };
+  }
+}
+
+/**
+ * Paints the padding area of the canvas using the chosen background mode.
+ * `placement` is where the fitted image will be drawn.
+ */
+function paintBackground(
+  ctx: AnyContext2D,
+  image: CanvasImageSource,
+  background: BackgroundOptions,
+  canvasDims: { width: number; height: number },
+  placement: Rect
+): void {
+  const { width, height } = canvasDims;
+
+  switch (background.mode) {
+    case 'transparent':
+      ctx.clearRect(0, 0, width, height);
+      return;
+
+    case 'solid':
+    case 'dominant':
+      ctx.fillStyle = background.color ?? DEFAULT_PADDING_COLOR;
+      ctx.fillRect(0, 0, width, height);
+      return;
+
+    case 'gradient': {
+      const [top, bottom] = background.gradient ?? DEFAULT_GRADIENT;
+      const gradient = ctx.createLinearGradient(0, 0, 0, height);
+      gradient.addColorStop(0, top);
+      gradient.addColorStop(1, bottom);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+
+    case 'edge':
+      paintEdgeExtension(ctx, image, canvasDims, placement);
+      return;
+
+    case 'mirror':
+      paintMirror(ctx, image, canvasDims, placement);
+      return;
+
+    case 'blur':
+    default:
+      // Draw blurred, stretched background
+      ctx.save();
+      ctx.filter = 'blur(50px)';
+      ctx.drawImage(image, 0, 0, width, height);
+      ctx.restore();
+  }
+}
+
+/**
+ * Stretches the outermost row/column of pixels out to the canvas edges
+ */
+function paintEdgeExtension(
+  ctx: AnyContext2D,
+  image: CanvasImageSource,
+  canvasDims: { width: number; height: number },
+  placement: Rect
+): void {
+  const { width: imgW, height: imgH } = getSourceSize(image);
+  const { x, y, width: w, height: h } = placement;
+  const right = x + w;
+  const bottom = y + h;
+  const rightBand = canvasDims.width - right;
+  const bottomBand = canvasDims.height - bottom;
+
+  ctx.imageSmoothingEnabled = false;
+
+  // Sides
+  if (x > 0) ctx.drawImage(image, 0, 0, 1, imgH, 0, y, x, h);
+  if (rightBand > 0) ctx.drawImage(image, imgW - 1, 0, 1, imgH, right, y, rightBand, h);
+  if (y > 0) ctx.drawImage(image, 0, 0, imgW, 1, x, 0, w, y);
+  if (bottomBand > 0) ctx.drawImage(image, 0, imgH - 1, imgW, 1, x, bottom, w, bottomBand);
+
+  // Corners
+  if (x > 0 && y > 0) ctx.drawImage(image, 0, 0, 1, 1, 0, 0, x, y);
+  if (rightBand > 0 && y > 0) ctx.drawImage(image, imgW - 1, 0, 1, 1, right, 0, rightBand, y);
+  if (x > 0 && bottomBand > 0) ctx.drawImage(image, 0, imgH - 1, 1, 1, 0, bottom, x, bottomBand);
+  if (rightBand > 0 && bottomBand > 0) {
+    ctx.drawImage(image, imgW - 1, imgH - 1, 1, 1, right, bottom, rightBand, bottomBand);
+  }
+
+  ctx.imageSmoothingEnabled = true;
+}
+
+/**
+ * Tiles mirrored copies of the image outward from its placement
+ */
+function paintMirror(
+  ctx: AnyContext2D,
+  image: CanvasImageSource,
+  canvasDims: { width: number; height: number },
+  placement: Rect
+): void {
+  const { x, y, width: w, height: h } = placement;
+  if (w <= 0 || h <= 0) return;
+
+  const colsBefore = Math.ceil(x / w);
+  const colsAfter = Math.ceil((canvasDims.width - x - w) / w);
+  const rowsBefore = Math.ceil(y / h);
+  const rowsAfter = Math.ceil((canvasDims.height - y - h) / h);
+
+  for (let row = -rowsBefore; row <= rowsAfter; row++) {
+    for (let col = -colsBefore; col <= colsAfter; col++) {
+      if (row === 0 && col === 0) continue; // The image itself is drawn later
+
+      const flipX = Math.abs(col) % 2 === 1;
+      const flipY = Math.abs(row) % 2 === 1;
+
+      ctx.save();
+      ctx.translate(x + col * w + (flipX ? w : 0), y + row * h + (flipY ? h : 0));
+      ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+      ctx.drawImage(image, 0, 0, w, h);
+      ctx.restore();
+    }
+  }
+}
+
+/**
+ * Works out the trim, bleed and printable boxes for a page.
+ * Bleed and the crop-mark slug grow the canvas; margins shrink the printable area.
+ */
+export function computePrintLayout(
+  trimWidth: number,
+  trimHeight: number,
+  print: PrintOptions,
+  dpi: number
+): PrintLayout {
+  const bleed = Math.round(mmToPixels(Math.max(0, print.bleedMm), dpi));
+  const slug = print.cropMarks ? Math.round(mmToPixels(PRINT.CROP_MARK_SLUG_MM, dpi)) : 0;
+  const margin = Math.min(
+    Math.round(mmToPixels(Math.max(0, print.marginMm), dpi)),
+    Math.floor((Math.min(trimWidth, trimHeight) - 1) / 2)
+  );
+  const outer = bleed + slug;
+
+  return {
+    canvasWidth: trimWidth + outer * 2,
+    canvasHeight: trimHeight + outer * 2,
+    trimRect: { x: outer, y: outer, width: trimWidth, height: trimHeight },
+    bleedRect: { x: slug, y: slug, width: trimWidth + bleed * 2, height: trimHeight + bleed * 2 },
+    printableRect: {
+      x: outer + margin,
+      y: outer + margin,
+      width: trimWidth - margin * 2,
+      height: trimHeight - margin * 2,
+    },
+  };
+}
+
+/**
+ * Draws corner crop marks in the slug, lined up with the trim edges
+ */
+function drawCropMarks(ctx: AnyContext2D, layout: PrintLayout, dpi: number): void {
+  const { trimRect, bleedRect } = layout;
+  const gap = mmToPixels(PRINT.CROP_MARK_GAP_MM, dpi);
+  const length = bleedRect.x - gap; // Marks run from just outside the bleed to the paper edge
+  if (length <= 0) return;
+
+  const left = trimRect.x;
+  const right = trimRect.x + trimRect.width;
+  const top = trimRect.y;
+  const bottom = trimRect.y + trimRect.height;
+  const bleedLeft = bleedRect.x;
+  const bleedRight = bleedRect.x + bleedRect.width;
+  const bleedTop = bleedRect.y;
+  const bleedBottom = bleedRect.y + bleedRect.height;
+
+  ctx.save();
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = Math.max(1, mmToPixels(PRINT.CROP_MARK_WIDTH_MM, dpi));
+  ctx.beginPath();
+
+  for (const x of [left, right]) {
+    // Vertical marks above and below the page
+    ctx.moveTo(x, bleedTop - gap);
+    ctx.lineTo(x, bleedTop - gap - length);
+    ctx.moveTo(x, bleedBottom + gap);
+    ctx.lineTo(x, bleedBottom + gap + length);
+  }
+  for (const y of [top, bottom]) {
+    // Horizontal marks left and right of the page
+    ctx.moveTo(bleedLeft - gap, y);
+    ctx.lineTo(bleedLeft - gap - length, y);
+    ctx.moveTo(bleedRight + gap, y);
+    ctx.lineTo(bleedRight + gap + length, y);
+  }
+
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Works out which part of the source is drawn where for a fit mode.
+ * - contain: whole image, centered, letterboxed
+ * - cover: canvas filled, overflow cropped around the focal point
+ * - stretch: whole image stretched to the canvas
+ */
+export function computeFitLayout(
+  srcWidth: number,
+  srcHeight: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  fitMode: FitMode = 'contain',
+  focalPoint: FocalPoint = CENTER
+): { scale: number; sourceRect: Rect; destRect: Rect } {
+  const scaleX = canvasWidth / srcWidth;
+  const scaleY = canvasHeight / srcHeight;
+  const fullSource: Rect = { x: 0, y: 0, width: srcWidth, height: srcHeight };
+  const fullCanvas: Rect = { x: 0, y: 0, width: canvasWidth, height: canvasHeight };
+
+  if (fitMode === 'stretch') {
+    return { scale: Math.min(scaleX, scaleY), sourceRect: fullSource, destRect: fullCanvas };
+  }
+
+  if (fitMode === 'cover') {
+    const scale = Math.max(scaleX, scaleY);
+    const visibleW = Math.min(srcWidth, canvasWidth / scale);
+    const visibleH = Math.min(srcHeight, canvasHeight / scale);
+
+    // Center the visible window on the focal point, clamped to the image
+    const fx = Math.max(0, Math.min(1, focalPoint.x));
+    const fy = Math.max(0, Math.min(1, focalPoint.y));
+    const x = Math.max(0, Math.min(srcWidth - visibleW, fx * srcWidth - visibleW / 2));
+    const y = Math.max(0, Math.min(srcHeight - visibleH, fy * srcHeight - visibleH / 2));
+
+    return {
+      scale,
+      sourceRect: { x, y, width: visibleW, height: visibleH },
+      destRect: fullCanvas,
+    };
+  }
+
+  // Calculate scale factor to fit image inside canvas (never exceed, never crop)
+  const scale = Math.min(scaleX, scaleY);
+  const scaledWidth = Math.round(srcWidth * scale);
+  const scaledHeight = Math.round(srcHeight * scale);
+
+  // Calculate offsets to center the image
+  return {
+    scale,
+    sourceRect: fullSource,
+    destRect: {
+      x: Math.round((canvasWidth - scaledWidth) / 2),
+      y: Math.round((canvasHeight - scaledHeight) / 2),
+      width: scaledWidth,
+      height: scaledHeight,
+    },
+  };
+}
+
 /**
  * Core image processing function
- * Takes an image and fits it onto a canvas with white padding
+ * Takes an image and fits it onto a canvas (padded, cropped or stretched per fit mode)
  */
 export function processImage(
-  image: HTMLImageElement,
+  image: CanvasImageSource,
   options: ProcessingOptions = { outputFormat: 'a4' }
-): ProcessingResult {
-  const originalWidth = image.naturalWidth;
-  const originalHeight = image.naturalHeight;
+): ProcessingResult<AnyCanvas> {
+  const { width: originalWidth, height: originalHeight } = getSourceSize(image);
 
   const { outputFormat, orientation: requestedOrientation } = options;
 
-  // Auto-detect orientation if not specified (only relevant for A4)
+  // Auto-detect orientation if not specified (only relevant for targets that support it)
   const finalOrientation = requestedOrientation ?? detectOrientation(originalWidth, originalHeight);
 
-  // Get canvas dimensions based on format
-  const canvasDims = getCanvasDimensions(outputFormat, finalOrientation);
+  // Get trim (page) dimensions based on format, then add bleed/margins
+  const trimDims = getCanvasDimensions(outputFormat, finalOrientation);
+  const dpi = getCanvasTarget(outputFormat).dpi;
+  const print = options.print ?? NO_PRINT_OPTIONS;
+  const layout = computePrintLayout(trimDims.width, trimDims.height, print, dpi);
+  const canvasDims = { width: layout.canvasWidth, height: layout.canvasHeight };
 
-  // Calculate scale factor to fit image inside canvas (never exceed, never crop)
-  const scaleX = canvasDims.width / originalWidth;
-  const scaleY = canvasDims.height / originalHeight;
-  const scale = Math.min(scaleX, scaleY);
+  // Fit into the printable area; full-bleed fills reach into the bleed instead
+  const fitMode = options.fitMode ?? 'contain';
+  const focalPoint = options.focalPoint ?? CENTER;
+  const hasMargins = layout.printableRect.width < trimDims.width;
+  const fitArea = fitMode === 'contain' || hasMargins ? layout.printableRect : layout.bleedRect;
+  const fit = computeFitLayout(
+    originalWidth,
+    originalHeight,
+    fitArea.width,
+    fitArea.height,
+    fitMode,
+    focalPoint
+  );
+  const { scale, sourceRect } = fit;
+  const destRect: Rect = {
+    ...fit.destRect,
+    x: fit.destRect.x + fitArea.x,
+    y: fit.destRect.y + fitArea.y,
+  };
 
-  // Calculate final dimensions after scaling
+  // Final dimensions of the whole image after scaling
   const scaledWidth = Math.round(originalWidth * scale);
   const scaledHeight = Math.round(originalHeight * scale);
 
-  // Calculate offsets to center the image
-  const offsetX = Math.round((canvasDims.width - scaledWidth) / 2);
-  const offsetY = Math.round((canvasDims.height - scaledHeight) / 2);
-
   // Create canvas at target dimensions
-  const canvas = document.createElement('canvas');
-  canvas.width = canvasDims.width;
-  canvas.height = canvasDims.height;
+  const canvas = createCanvas(canvasDims.width, canvasDims.height);
+  const colorSpace = options.colorSpace ?? 'srgb';
+  const ctx = getContext2D(canvas, { colorSpace });
 
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    throw new Error('Failed to get canvas context');
+  const background = resolveBackground(image, options.background);
+
+  // Paper outside the bleed (holds the crop marks) stays white
+  if (layout.bleedRect.x > 0 && background.mode !== 'transparent') {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvasDims.width, canvasDims.height);
   }
 
-  // Draw blurred, stretched background
-  ctx.save();
-  ctx.filter = 'blur(50px)';
-  ctx.drawImage(
-    image,
-    0, 0, originalWidth, originalHeight,  // Source rectangle
-    0, 0, canvasDims.width, canvasDims.height  // Stretch to fill entire canvas
-  );
-  ctx.restore();
+  // Fill the padding around the image, clipped to the bleed box
+  if (fitMode === 'contain' || hasMargins) {
+    const { bleedRect } = layout;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(bleedRect.x, bleedRect.y, bleedRect.width, bleedRect.height);
+    ctx.clip();
+    ctx.translate(bleedRect.x, bleedRect.y);
+    paintBackground(ctx, image, background, bleedRect, {
+      ...destRect,
+      x: destRect.x - bleedRect.x,
+      y: destRect.y - bleedRect.y,
+    });
+    ctx.restore();
+  }
 
-  // Draw the image centered (no blur)
-  ctx.drawImage(
+  // Draw the image (no blur), scaled with the chosen filter rather than the browser's
+  const resampled = resampleToCanvas(
     image,
-    0, 0, originalWidth, originalHeight,  // Source rectangle
-    offsetX, offsetY, scaledWidth, scaledHeight  // Destination rectangle
+    sourceRect,
+    Math.max(1, Math.round(destRect.width)),
+    Math.max(1, Math.round(destRect.height)),
+    options.kernel ?? DEFAULT_RESAMPLE_KERNEL,
+    options.linearLight ?? false,
+    colorSpace
   );
+  const sharpened = options.sharpen ? sharpenCanvas(resampled, options.sharpen, colorSpace) : resampled;
+  ctx.drawImage(sharpened, destRect.x, destRect.y);
+
+  if (print.cropMarks) {
+    drawCropMarks(ctx, layout, dpi);
+  }
 
   return {
     canvas,
@@ -187,32 +671,348 @@ export function processImage(
     outputFormat,
     canvasWidth: canvasDims.width,
     canvasHeight: canvasDims.height,
+    background,
+    fitMode,
+    focalPoint,
+    sourceRect,
+    print,
+    layout,
+    colorSpace,
   };
 }
 
+export interface SheetOptions {
+  outputFormat: OutputFormat;
+  orientation: Orientation;
+  columns: number;
+  rows: number;
+  gutterMm: number;
+  background?: BackgroundOptions;
+  print?: PrintOptions;
+}
+
+export interface SheetResult<C extends AnyCanvas = AnyCanvas> {
+  canvas: C;
+  outputFormat: OutputFormat;
+  orientation: Orientation;
+  canvasWidth: number;
+  canvasHeight: number;
+  cells: Rect[];
+  minScale: number;   // Smallest scale used by any cell, for DPI warnings
+  layout: PrintLayout;
+}
+
 /**
- * Exports canvas as a downloadable blob
+ * Splits an area into a grid of equal cells separated by gutters
  */
-export function exportCanvas(
-  canvas: HTMLCanvasElement,
-  format: ExportFormat = 'png'
-): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
-    const quality = format === 'jpeg' ? JPEG_QUALITY : undefined;
-
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          resolve(blob);
-        } else {
-          reject(new Error('Failed to export canvas'));
-        }
-      },
-      mimeType,
-      quality
+export function computeSheetCells(area: Rect, columns: number, rows: number, gutter: number): Rect[] {
+  const cellWidth = (area.width - gutter * (columns - 1)) / columns;
+  const cellHeight = (area.height - gutter * (rows - 1)) / rows;
+  const cells: Rect[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      cells.push({
+        x: Math.round(area.x + col * (cellWidth + gutter)),
+        y: Math.round(area.y + row * (cellHeight + gutter)),
+        width: Math.round(cellWidth),
+        height: Math.round(cellHeight),
+      });
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Lays several images out on one page in a grid (N-up).
+ * Each image is fitted into its cell with the same contain + background logic as processImage.
+ */
+export function composeSheet(images: CanvasImageSource[], options: SheetOptions): SheetResult {
+  const { outputFormat, orientation, columns, rows } = options;
+  if (columns < 1 || rows < 1) {
+    throw new Error('Sheet needs at least one row and one column');
+  }
+
+  const trimDims = getCanvasDimensions(outputFormat, orientation);
+  const dpi = getCanvasTarget(outputFormat).dpi;
+  const print = options.print ?? NO_PRINT_OPTIONS;
+  const layout = computePrintLayout(trimDims.width, trimDims.height, print, dpi);
+  const gutter = Math.round(mmToPixels(Math.max(0, options.gutterMm), dpi));
+  const cells = computeSheetCells(layout.printableRect, columns, rows, gutter);
+
+  const canvas = createCanvas(layout.canvasWidth, layout.canvasHeight);
+  const ctx = getContext2D(canvas);
+
+  // Sheets are printed, so start from white paper
+  ctx.fillStyle = DEFAULT_PADDING_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  let minScale = Infinity;
+
+  cells.forEach((cell, index) => {
+    const image = images[index];
+    if (!image) return;
+
+    const { width, height } = getSourceSize(image);
+    const fit = computeFitLayout(width, height, cell.width, cell.height, 'contain');
+    minScale = Math.min(minScale, fit.scale);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(cell.x, cell.y, cell.width, cell.height);
+    ctx.clip();
+    ctx.translate(cell.x, cell.y);
+    paintBackground(ctx, image, resolveBackground(image, options.background), cell, fit.destRect);
+    ctx.drawImage(
+      image,
+      0, 0, width, height,
+      fit.destRect.x, fit.destRect.y, fit.destRect.width, fit.destRect.height
     );
+    ctx.restore();
   });
+
+  if (print.cropMarks) {
+    drawCropMarks(ctx, layout, dpi);
+  }
+
+  return {
+    canvas,
+    outputFormat,
+    orientation,
+    canvasWidth: canvas.width,
+    canvasHeight: canvas.height,
+    cells,
+    minScale: Number.isFinite(minScale) ? minScale : 1,
+    layout,
+  };
+}
+
+export interface PhotoSheetOptions {
+  gapMm: number;
+  marginMm: number;
+  cutMarks: boolean;
+}
+
+export interface PhotoSheetResult<C extends AnyCanvas = HTMLCanvasElement> {
+  canvas: C;
+  outputFormat: OutputFormat;
+  orientation: Orientation;
+  columns: number;
+  rows: number;
+  count: number;
+}
+
+/**
+ * Tiles as many copies of a photo of fixed physical size as fit on a page,
+ * trying both page orientations. The photo is drawn at the target's DPI.
+ */
+export function tilePhotoSheet(
+  photo: CanvasImageSource,
+  photoMm: { width: number; height: number },
+  outputFormat: OutputFormat,
+  options: PhotoSheetOptions
+): PhotoSheetResult<AnyCanvas> {
+  const dpi = getCanvasTarget(outputFormat).dpi;
+  const photoW = Math.round(mmToPixels(photoMm.width, dpi));
+  const photoH = Math.round(mmToPixels(photoMm.height, dpi));
+  const gap = Math.round(mmToPixels(options.gapMm, dpi));
+  const margin = Math.round(mmToPixels(options.marginMm, dpi));
+
+  // Pick whichever orientation holds more copies
+  const fitCount = (orientation: Orientation) => {
+    const page = getCanvasDimensions(outputFormat, orientation);
+    const columns = Math.max(0, Math.floor((page.width - margin * 2 + gap) / (photoW + gap)));
+    const rows = Math.max(0, Math.floor((page.height - margin * 2 + gap) / (photoH + gap)));
+    return { page, columns, rows, orientation };
+  };
+  const portrait = fitCount('portrait');
+  const landscape = fitCount('landscape');
+  const best = landscape.columns * landscape.rows > portrait.columns * portrait.rows ? landscape : portrait;
+  const { page, columns, rows, orientation } = best;
+
+  if (columns * rows === 0) {
+    throw new Error('The photo is too large for this sheet');
+  }
+
+  const canvas = createCanvas(page.width, page.height);
+  const ctx = getContext2D(canvas);
+
+  ctx.fillStyle = DEFAULT_PADDING_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Center the grid on the page
+  const gridW = columns * photoW + (columns - 1) * gap;
+  const gridH = rows * photoH + (rows - 1) * gap;
+  const startX = Math.round((page.width - gridW) / 2);
+  const startY = Math.round((page.height - gridH) / 2);
+
+  ctx.imageSmoothingQuality = 'high';
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      ctx.drawImage(photo, startX + col * (photoW + gap), startY + row * (photoH + gap), photoW, photoH);
+    }
+  }
+
+  if (options.cutMarks) {
+    // Ticks in the outer margin, lined up with every photo edge
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let col = 0; col < columns; col++) {
+      const x = startX + col * (photoW + gap);
+      xs.push(x, x + photoW);
+    }
+    for (let row = 0; row < rows; row++) {
+      const y = startY + row * (photoH + gap);
+      ys.push(y, y + photoH);
+    }
+    const markGap = mmToPixels(PRINT.CROP_MARK_GAP_MM, dpi);
+
+    ctx.save();
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = Math.max(1, mmToPixels(PRINT.CROP_MARK_WIDTH_MM, dpi));
+    ctx.beginPath();
+    for (const x of xs) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, startY - markGap);
+      ctx.moveTo(x, startY + gridH + markGap);
+      ctx.lineTo(x, page.height);
+    }
+    for (const y of ys) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(startX - markGap, y);
+      ctx.moveTo(startX + gridW + markGap, y);
+      ctx.lineTo(page.width, y);
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  return {
+    canvas,
+    outputFormat,
+    orientation,
+    columns,
+    rows,
+    count: columns * rows,
+  };
+}
+
+/**
+ * Physical page size of a rendered canvas for a target.
+ * The trim size comes straight from the target definition so A4 is exactly
+ * 210×297 mm; any bleed or slug around it is added from the pixel difference.
+ */
+export function getPageSize(
+  outputFormat: OutputFormat,
+  orientation: Orientation,
+  canvasWidth: number,
+  canvasHeight: number
+): PageSize {
+  const target = getCanvasTarget(outputFormat);
+  const trimPx = getTargetPixelSize(target);
+  const toMm = target.unit === 'mm' ? 1 : MM_PER_INCH;
+  let trimW = target.width * toMm;
+  let trimH = target.height * toMm;
+  let trimPxW = trimPx.width;
+  let trimPxH = trimPx.height;
+
+  // Pixel targets have no physical size; map them at their nominal DPI
+  if (target.unit === 'px') {
+    trimW = (trimPx.width / target.dpi) * MM_PER_INCH;
+    trimH = (trimPx.height / target.dpi) * MM_PER_INCH;
+  }
+
+  if (orientation === 'landscape' && target.supportsOrientation) {
+    [trimW, trimH] = [trimH, trimW];
+    [trimPxW, trimPxH] = [trimPxH, trimPxW];
+  }
+
+  return {
+    widthMm: trimW + ((canvasWidth - trimPxW) / target.dpi) * MM_PER_INCH,
+    heightMm: trimH + ((canvasHeight - trimPxH) / target.dpi) * MM_PER_INCH,
+  };
+}
+
+/**
+ * Compresses a canvas to fit a byte budget by binary-searching the encoder quality.
+ * Falls back to the lowest quality when nothing fits.
+ */
+export async function compressToTargetSize(
+  canvas: AnyCanvas,
+  targetBytes: number,
+  format: 'image/jpeg' | 'image/webp',
+  minQuality = 0.1,
+  maxQuality = 0.95
+): Promise<Blob> {
+  let low = minQuality;
+  let high = maxQuality;
+  let bestBlob: Blob | null = null;
+
+  // Binary search for optimal quality (8 iterations = good precision)
+  for (let i = 0; i < 8; i++) {
+    const mid = (low + high) / 2;
+    const blob = await canvasToBlob(canvas, format, mid);
+
+    if (blob.size <= targetBytes) {
+      bestBlob = blob;
+      low = mid; // Try higher quality
+    } else {
+      high = mid; // Need lower quality
+    }
+  }
+
+  return bestBlob || await canvasToBlob(canvas, format, minQuality);
+}
+
+export interface ExportOptions {
+  page?: PageSize;                // PDF page size; without one the canvas is mapped at 72 DPI
+  dpi?: number;                   // Density written into PNG/JPEG metadata
+  metadata?: ImageMetadata;       // Source EXIF/XMP/IPTC to carry over
+  metadataMode?: MetadataMode;    // Defaults to 'strip'
+  iccProfile?: Uint8Array | null; // Colour profile matching the canvas colour space
+}
+
+/**
+ * Exports canvas as a downloadable blob.
+ * PDF output embeds the JPEG encoding on a page of `page` size.
+ */
+export async function exportCanvas(
+  canvas: AnyCanvas,
+  format: ExportFormat = 'png',
+  options: ExportOptions = {}
+): Promise<Blob> {
+  const { page, dpi, metadata, metadataMode = 'strip', iccProfile } = options;
+
+  const finish = async (blob: Blob) => {
+    let tagged = dpi ? await setImageDpi(blob, dpi) : blob;
+    tagged = iccProfile ? await embedIccProfile(tagged, iccProfile) : tagged;
+    return metadata ? embedMetadata(tagged, metadata, metadataMode) : tagged;
+  };
+
+  if (format === 'png') {
+    return finish(await canvasToBlob(canvas, 'image/png'));
+  }
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY);
+  if (format === 'jpeg') {
+    return finish(jpeg);
+  }
+
+  return createImagePdf([{
+    jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+    pixelWidth: canvas.width,
+    pixelHeight: canvas.height,
+    widthMm: page?.widthMm ?? (canvas.width / 72) * MM_PER_INCH,
+    heightMm: page?.heightMm ?? (canvas.height / 72) * MM_PER_INCH,
+  }]);
+}
+
+/**
+ * File extension for an export format
+ */
+export function getFileExtension(format: ExportFormat): string {
+  return format === 'jpeg' ? 'jpg' : format;
 }
 
 /**
@@ -230,15 +1030,17 @@ export function downloadBlob(blob: Blob, filename: string): void {
 }
 
 /**
- * Generates a filename for the processed image
+ * Generates a filename for the processed image.
+ * `label` goes between the original name and the target suffix (e.g. a photo spec).
  */
 export function generateFilename(
   originalName: string,
   format: ExportFormat,
-  outputFormat: OutputFormat
+  outputFormat: OutputFormat,
+  label?: string
 ): string {
   const baseName = originalName.replace(/\.[^/.]+$/, '');
-  const extension = format === 'jpeg' ? 'jpg' : 'png';
-  const suffix = outputFormat === 'whatsapp-dp' ? 'whatsapp-dp' : 'a4';
-  return `${baseName}-${suffix}.${extension}`;
+  const extension = getFileExtension(format);
+  const suffix = getCanvasTarget(outputFormat).filenameSuffix;
+  return label ? `${baseName}-${label}-${suffix}.${extension}` : `${baseName}-${suffix}.${extension}`;
 }
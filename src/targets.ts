@@ -0,0 +1,91 @@
+import { CANVAS_TARGETS, CanvasTarget, MM_PER_INCH, OutputFormat } from './constants';
+
+const registry = new Map<OutputFormat, CanvasTarget>(
+  CANVAS_TARGETS.map((target) => [target.id, target])
+);
+
+/**
+ * Whether an id belongs to one of the built-in targets
+ */
+export function isBuiltInCanvasTarget(id: OutputFormat): boolean {
+  return CANVAS_TARGETS.some((target) => target.id === id);
+}
+
+/**
+ * Registers a canvas target at runtime (replaces any runtime target with the same id).
+ * Built-in targets cannot be replaced.
+ */
+export function registerCanvasTarget(target: CanvasTarget): CanvasTarget {
+  if (!target.id.trim()) {
+    throw new Error('Canvas target needs an id');
+  }
+  if (isBuiltInCanvasTarget(target.id)) {
+    throw new Error(`"${target.id}" is a built-in size and cannot be replaced`);
+  }
+  if (!(target.width > 0) || !(target.height > 0) || !(target.dpi > 0)) {
+    throw new Error('Canvas target size and DPI must be positive');
+  }
+  registry.set(target.id, target);
+  return target;
+}
+
+/**
+ * Removes a runtime-registered target. Built-in targets cannot be removed.
+ */
+export function unregisterCanvasTarget(id: OutputFormat): boolean {
+  if (isBuiltInCanvasTarget(id)) {
+    return false;
+  }
+  return registry.delete(id);
+}
+
+/**
+ * Looks up a canvas target by id
+ */
+export function getCanvasTarget(id: OutputFormat): CanvasTarget {
+  const target = registry.get(id);
+  if (!target) {
+    throw new Error(`Unknown output format: ${id}`);
+  }
+  return target;
+}
+
+/**
+ * Lists all registered targets in registration order
+ */
+export function listCanvasTargets(): CanvasTarget[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Converts a physical length in the given unit to pixels at the given DPI
+ */
+export function toPixels(value: number, unit: CanvasTarget['unit'], dpi: number): number {
+  if (unit === 'px') return Math.round(value);
+  const inches = unit === 'mm' ? value / MM_PER_INCH : value;
+  return Math.round(inches * dpi);
+}
+
+/**
+ * Converts millimetres to pixels at the given DPI (not rounded)
+ */
+export function mmToPixels(mm: number, dpi: number): number {
+  return (mm / MM_PER_INCH) * dpi;
+}
+
+/**
+ * Pixel size of a target in its natural (as-defined) orientation
+ */
+export function getTargetPixelSize(target: CanvasTarget): { width: number; height: number } {
+  return {
+    width: toPixels(target.width, target.unit, target.dpi),
+    height: toPixels(target.height, target.unit, target.dpi),
+  };
+}
+
+/**
+ * Human-readable physical size, e.g. "210×297 mm" or "1080×1080 px"
+ */
+export function formatTargetSize(target: CanvasTarget): string {
+  return `${target.width}×${target.height} ${target.unit}`;
+}
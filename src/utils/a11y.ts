@@ -0,0 +1,33 @@
+/**
+ * Keyboard helpers for custom controls (drop zones, checkbox rows, the crop box)
+ */
+import type { KeyboardEvent } from 'react';
+
+/**
+ * Lets Enter and Space activate an element that is not a native button,
+ * by clicking it so mouse and keyboard share one handler
+ */
+export function clickOnActivateKey(e: KeyboardEvent<HTMLElement>) {
+  if (e.key === 'Enter' || e.key === ' ') {
+    e.preventDefault();
+    e.currentTarget.click();
+  }
+}
+
+/**
+ * Direction of an arrow key press, scaled by `step`; null for other keys
+ */
+export function getArrowKeyDelta(key: string, step: number): { x: number; y: number } | null {
+  switch (key) {
+    case 'ArrowLeft':
+      return { x: -step, y: 0 };
+    case 'ArrowRight':
+      return { x: step, y: 0 };
+    case 'ArrowUp':
+      return { x: 0, y: -step };
+    case 'ArrowDown':
+      return { x: 0, y: step };
+    default:
+      return null;
+  }
+}
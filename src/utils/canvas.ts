@@ -0,0 +1,111 @@
+/**
+ * Canvas helpers that work both on the main thread (HTMLCanvasElement)
+ * and inside a worker (OffscreenCanvas).
+ */
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+let offscreenSupport: boolean | null = null;
+
+/**
+ * Whether OffscreenCanvas with a 2D context and blob encoding is available
+ */
+export function supportsOffscreenCanvas(): boolean {
+  if (offscreenSupport === null) {
+    try {
+      offscreenSupport = typeof OffscreenCanvas !== 'undefined' &&
+        typeof OffscreenCanvas.prototype.convertToBlob === 'function' &&
+        new OffscreenCanvas(1, 1).getContext('2d') !== null;
+    } catch {
+      offscreenSupport = false;
+    }
+  }
+  return offscreenSupport;
+}
+
+/**
+ * Creates a canvas of the given size: an element on the main thread, an OffscreenCanvas in a worker
+ */
+export function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Gets the 2D context of either kind of canvas
+ */
+export function getContext2D(canvas: AnyCanvas, settings?: CanvasRenderingContext2DSettings): AnyContext2D {
+  const ctx = typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas
+    ? canvas.getContext('2d', settings)
+    : (canvas as HTMLCanvasElement).getContext('2d', settings);
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  return ctx;
+}
+
+/**
+ * Encodes either kind of canvas
+ */
+export function canvasToBlob(canvas: AnyCanvas, mimeType: string, quality?: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: mimeType, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to export canvas'));
+        }
+      },
+      mimeType,
+      quality
+    );
+  });
+}
+
+/**
+ * Intrinsic pixel size of any canvas image source
+ */
+export function getSourceSize(image: CanvasImageSource): { width: number; height: number } {
+  if (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  if (typeof HTMLVideoElement !== 'undefined' && image instanceof HTMLVideoElement) {
+    return { width: image.videoWidth, height: image.videoHeight };
+  }
+  if (typeof SVGImageElement !== 'undefined' && image instanceof SVGImageElement) {
+    return { width: image.width.baseVal.value, height: image.height.baseVal.value };
+  }
+  if ('displayWidth' in image) {
+    return { width: image.displayWidth, height: image.displayHeight };
+  }
+  // Canvases and bitmaps (the element checks above do not narrow when guarded by typeof)
+  const sized = image as HTMLCanvasElement | OffscreenCanvas | ImageBitmap;
+  return { width: sized.width, height: sized.height };
+}
+
+/**
+ * Copies a bitmap into a new main-thread canvas (for previews, toDataURL and toBlob)
+ */
+export function bitmapToCanvas(bitmap: ImageBitmap, colorSpace: PredefinedColorSpace = 'srgb'): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d', { colorSpace });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
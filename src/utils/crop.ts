@@ -0,0 +1,245 @@
+/**
+ * Crop rectangle geometry shared by the crop-based tools.
+ * All values are in source image pixels.
+ */
+
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+/**
+ * Minimum crop size in source pixels
+ */
+export const MIN_CROP_SIZE = 50;
+
+/**
+ * Initial centered crop covering `fill` of the image, optionally locked to a ratio
+ */
+export function getInitialCropArea(
+  imageWidth: number,
+  imageHeight: number,
+  ratio: number | null,
+  fill = 0.8
+): CropArea {
+  let cropW = imageWidth * fill;
+  let cropH = imageHeight * fill;
+
+  if (ratio) {
+    if (cropW / cropH > ratio) {
+      cropW = cropH * ratio;
+    } else {
+      cropH = cropW / ratio;
+    }
+  }
+
+  return {
+    x: (imageWidth - cropW) / 2,
+    y: (imageHeight - cropH) / 2,
+    width: cropW,
+    height: cropH,
+  };
+}
+
+/**
+ * Shrinks a crop area to a ratio around its center, kept inside the image
+ */
+export function applyAspectRatio(
+  area: CropArea,
+  ratio: number,
+  imageWidth: number,
+  imageHeight: number
+): CropArea {
+  let newW = area.width;
+  let newH = area.height;
+
+  if (newW / newH > ratio) {
+    newW = newH * ratio;
+  } else {
+    newH = newW / ratio;
+  }
+
+  const centerX = area.x + area.width / 2;
+  const centerY = area.y + area.height / 2;
+
+  return {
+    x: Math.max(0, Math.min(imageWidth - newW, centerX - newW / 2)),
+    y: Math.max(0, Math.min(imageHeight - newH, centerY - newH / 2)),
+    width: newW,
+    height: newH,
+  };
+}
+
+/**
+ * Moves a crop area by a delta, clamped to the image
+ */
+export function moveCropArea(
+  start: CropArea,
+  deltaX: number,
+  deltaY: number,
+  imageWidth: number,
+  imageHeight: number
+): CropArea {
+  return {
+    ...start,
+    x: Math.max(0, Math.min(imageWidth - start.width, start.x + deltaX)),
+    y: Math.max(0, Math.min(imageHeight - start.height, start.y + deltaY)),
+  };
+}
+
+/**
+ * Resizes a crop area by dragging one corner handle.
+ * The opposite corner stays put; the size is clamped so the box never leaves
+ * the image, never flips and (where the image allows) never gets below MIN_CROP_SIZE.
+ */
+export function resizeCropArea(
+  start: CropArea,
+  handle: CropHandle,
+  deltaX: number,
+  deltaY: number,
+  imageWidth: number,
+  imageHeight: number,
+  ratio: number | null
+): CropArea {
+  const west = handle === 'nw' || handle === 'sw';
+  const north = handle === 'nw' || handle === 'ne';
+
+  // Fixed corner, and the room there is from it towards the dragged corner
+  const anchorX = west ? start.x + start.width : start.x;
+  const anchorY = north ? start.y + start.height : start.y;
+  const maxW = west ? anchorX : imageWidth - anchorX;
+  const maxH = north ? anchorY : imageHeight - anchorY;
+  const minW = Math.min(MIN_CROP_SIZE, maxW);
+  const minH = Math.min(MIN_CROP_SIZE, maxH);
+
+  let width = west ? start.width - deltaX : start.width + deltaX;
+  let height = north ? start.height - deltaY : start.height + deltaY;
+
+  if (ratio) {
+    // Follow whichever side is dragged further, then fit the room and minimum size
+    if (Math.abs(height - start.height) * ratio > Math.abs(width - start.width)) {
+      width = height * ratio;
+    }
+    width = Math.max(width, minW, minH * ratio);
+    width = Math.min(width, maxW, maxH * ratio);
+    height = width / ratio;
+  } else {
+    width = Math.max(minW, Math.min(maxW, width));
+    height = Math.max(minH, Math.min(maxH, height));
+  }
+
+  return {
+    x: west ? anchorX - width : anchorX,
+    y: north ? anchorY - height : anchorY,
+    width,
+    height,
+  };
+}
+
+/**
+ * Fine rotation range for straightening, in degrees either way
+ */
+export const MAX_STRAIGHTEN_ANGLE = 45;
+
+/**
+ * Size of an image after a rotation by a multiple of 90°
+ */
+export function getRotatedSize(width: number, height: number, rotation: number): { width: number; height: number } {
+  return Math.abs(rotation % 180) === 90 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Largest axis-aligned rectangle, centred in a width × height frame, that stays inside
+ * the image when it is rotated by `angle` degrees about the centre (so no blank corners show).
+ * With a ratio the rectangle keeps it; without one it has the largest area.
+ */
+export function getStraightenedBounds(
+  width: number,
+  height: number,
+  angle: number,
+  ratio: number | null
+): CropArea {
+  const sin = Math.abs(Math.sin((angle * Math.PI) / 180));
+  const cos = Math.abs(Math.cos((angle * Math.PI) / 180));
+  let boundsW: number;
+  let boundsH: number;
+
+  if (ratio) {
+    // Corners (±w/2, ±h/2) must satisfy w·cos + h·sin ≤ W and w·sin + h·cos ≤ H
+    boundsW = Math.min(width / (cos + sin / ratio), height / (sin + cos / ratio));
+    boundsH = boundsW / ratio;
+  } else {
+    const longSide = Math.max(width, height);
+    const shortSide = Math.min(width, height);
+    if (shortSide <= 2 * sin * cos * longSide || Math.abs(sin - cos) < 1e-10) {
+      // Narrow image or 45°: the rectangle touches both long sides
+      const half = shortSide / 2;
+      [boundsW, boundsH] = width >= height ? [half / sin, half / cos] : [half / cos, half / sin];
+    } else {
+      const cos2 = cos * cos - sin * sin;
+      boundsW = (width * cos - height * sin) / cos2;
+      boundsH = (height * cos - width * sin) / cos2;
+    }
+  }
+
+  return {
+    x: (width - boundsW) / 2,
+    y: (height - boundsH) / 2,
+    width: boundsW,
+    height: boundsH,
+  };
+}
+
+/**
+ * Applies a crop edit (move, resize) inside `bounds` rather than the whole image
+ */
+export function editWithinBounds(
+  area: CropArea,
+  bounds: CropArea,
+  edit: (local: CropArea, width: number, height: number) => CropArea
+): CropArea {
+  const local = edit({ ...area, x: area.x - bounds.x, y: area.y - bounds.y }, bounds.width, bounds.height);
+  return { ...local, x: local.x + bounds.x, y: local.y + bounds.y };
+}
+
+/**
+ * Sets one value of a crop area from a numeric field, keeping a locked ratio
+ * and keeping the area inside `bounds`
+ */
+export function setCropAreaValue(
+  area: CropArea,
+  key: keyof CropArea,
+  value: number,
+  bounds: CropArea,
+  ratio: number | null
+): CropArea {
+  let { x, y, width, height } = area;
+
+  if (key === 'width') {
+    width = Math.max(1, Math.min(bounds.width, value));
+    if (ratio) height = width / ratio;
+  } else if (key === 'height') {
+    height = Math.max(1, Math.min(bounds.height, value));
+    if (ratio) width = height * ratio;
+  } else if (key === 'x') {
+    x = value;
+  } else {
+    y = value;
+  }
+
+  // The side that follows a locked ratio may not fit
+  const fit = Math.min(1, bounds.width / width, bounds.height / height);
+  width *= fit;
+  height *= fit;
+
+  return {
+    x: Math.max(bounds.x, Math.min(bounds.x + bounds.width - width, x)),
+    y: Math.max(bounds.y, Math.min(bounds.y + bounds.height - height, y)),
+    width,
+    height,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Writes print density into encoded PNG and JPEG files.
+ * Canvas encoders leave it out, so printers and office apps fall back to 72/96 DPI.
+ */
+
+import { MM_PER_INCH } from '../constants';
+
+const PNG_SIGNATURE_LENGTH = 8;
+const JFIF_IDENTIFIER = [0x4a, 0x46, 0x49, 0x46, 0x00]; // "JFIF\0"
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 as used by PNG chunks
+ */
+export function crc32(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds a complete PNG chunk (length, type, data, CRC)
+ */
+export function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk, 4, 8 + data.length));
+  return chunk;
+}
+
+/**
+ * Splits a PNG into its chunks as [type, bytes] pairs (signature excluded)
+ */
+export function readPngChunks(bytes: Uint8Array): Array<[string, Uint8Array]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Array<[string, Uint8Array]> = [];
+  let offset = PNG_SIGNATURE_LENGTH;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      throw new Error('Truncated PNG chunk');
+    }
+    chunks.push([type, bytes.subarray(offset, end)]);
+    offset = end;
+    if (type === 'IEND') break;
+  }
+
+  return chunks;
+}
+
+/**
+ * Joins byte arrays into one
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Replaces any pHYs chunk with one for the given DPI, right after IHDR
+ */
+function setPngDpi(bytes: Uint8Array, dpi: number): Uint8Array {
+  const pixelsPerMeter = Math.round((dpi / MM_PER_INCH) * 1000);
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, pixelsPerMeter);
+  view.setUint32(4, pixelsPerMeter);
+  data[8] = 1; // Unit: metre
+
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE_LENGTH)];
+  for (const [type, chunk] of readPngChunks(bytes)) {
+    if (type === 'pHYs') continue;
+    parts.push(chunk);
+    if (type === 'IHDR') {
+      parts.push(createPngChunk('pHYs', data));
+    }
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Sets the JFIF density fields, adding a JFIF APP0 segment if the encoder left it out
+ */
+function setJpegDpi(bytes: Uint8Array, dpi: number): Uint8Array {
+  const density = Math.max(1, Math.min(0xffff, Math.round(dpi)));
+  const hasJfif = bytes[2] === 0xff && bytes[3] === 0xe0 &&
+    JFIF_IDENTIFIER.every((byte, i) => bytes[6 + i] === byte);
+
+  if (hasJfif) {
+    const result = bytes.slice();
+    const view = new DataView(result.buffer);
+    result[13] = 1; // Units: dots per inch
+    view.setUint16(14, density);
+    view.setUint16(16, density);
+    return result;
+  }
+
+  const app0 = new Uint8Array(18);
+  const view = new DataView(app0.buffer);
+  view.setUint16(0, 0xffe0);
+  view.setUint16(2, 16);
+  app0.set(JFIF_IDENTIFIER, 4);
+  app0[9] = 1;   // Version 1.01
+  app0[10] = 1;
+  app0[11] = 1;  // Units: dots per inch
+  view.setUint16(12, density);
+  view.setUint16(14, density);
+  // No thumbnail (bytes 16-17 stay zero)
+
+  return concatBytes([bytes.subarray(0, 2), app0, bytes.subarray(2)]);
+}
+
+/**
+ * Returns a copy of a PNG or JPEG blob tagged with the given DPI.
+ * Other formats are returned unchanged.
+ */
+export async function setImageDpi(blob: Blob, dpi: number): Promise<Blob> {
+  if (blob.type !== 'image/png' && blob.type !== 'image/jpeg') {
+    return blob;
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const tagged = blob.type === 'image/png' ? setPngDpi(bytes, dpi) : setJpegDpi(bytes, dpi);
+  return new Blob([tagged as BlobPart], { type: blob.type });
+}
@@ -0,0 +1,153 @@
+/**
+ * EXIF Orientation (tag 0x0112) parsing and the matching canvas transforms.
+ *
+ *   1 normal          2 mirrored horizontally
+ *   3 rotated 180°    4 mirrored vertically
+ *   5 transposed      6 rotated 90° CW
+ *   7 transversed     8 rotated 90° CCW
+ */
+
+import { ImageTransform, IDENTITY_TRANSFORM, getTransformMatrix } from './transform';
+
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const ORIENTATION_TAG = 0x0112;
+export const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+function matchesAt(bytes: Uint8Array, offset: number, pattern: number[]): boolean {
+  return pattern.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/**
+ * Finds the TIFF header of the EXIF block.
+ * JPEG: walks the marker segments up to the first APP1 "Exif" segment.
+ * HEIC and others: scans for the "Exif\0\0" header that precedes the TIFF data.
+ */
+export function findTiffHeader(bytes: Uint8Array): number | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      // Start of scan: no more metadata segments
+      if (marker === 0xda) break;
+      if (marker === 0xe1 && matchesAt(bytes, offset + 4, EXIF_HEADER)) {
+        return offset + 4 + EXIF_HEADER.length;
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  for (let i = 0; i + EXIF_HEADER.length + 4 <= bytes.length; i++) {
+    if (bytes[i] === 0x45 && matchesAt(bytes, i, EXIF_HEADER)) {
+      const tiff = i + EXIF_HEADER.length;
+      const isTiff = (bytes[tiff] === 0x49 && bytes[tiff + 1] === 0x49) ||
+        (bytes[tiff] === 0x4d && bytes[tiff + 1] === 0x4d);
+      if (isTiff) return tiff;
+    }
+  }
+  return null;
+}
+
+/**
+ * Byte offset of the Orientation value in IFD0, or null if the tag is absent.
+ * `tiff` is the TIFF header offset (0 for a bare EXIF block).
+ */
+function findOrientationValue(
+  bytes: Uint8Array,
+  tiff = findTiffHeader(bytes)
+): { offset: number; littleEndian: boolean } | null {
+  if (tiff === null || tiff + 8 > bytes.length) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[tiff] === 0x49;
+  const ifd0 = tiff + view.getUint32(tiff + 4, littleEndian);
+  if (ifd0 + 2 > bytes.length) return null;
+
+  const entries = view.getUint16(ifd0, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > bytes.length) return null;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      return { offset: entry + 8, littleEndian };
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the EXIF orientation of a JPEG or HEIC file; 1 when missing or invalid
+ */
+export function readExifOrientation(bytes: Uint8Array): ExifOrientation {
+  const found = findOrientationValue(bytes);
+  if (!found) return 1;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const value = view.getUint16(found.offset, found.littleEndian);
+  return value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+}
+
+/**
+ * Overwrites the orientation tag in place. Returns false if the file has no tag.
+ * Pass `tiff = 0` when `bytes` is a bare EXIF (TIFF) block rather than a whole file.
+ */
+export function setExifOrientation(
+  bytes: Uint8Array,
+  orientation: ExifOrientation,
+  tiff: number | null = findTiffHeader(bytes)
+): boolean {
+  const found = findOrientationValue(bytes, tiff);
+  if (!found) return false;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  view.setUint16(found.offset, orientation, found.littleEndian);
+  return true;
+}
+
+/**
+ * Whether the orientation swaps width and height (5-8)
+ */
+export function swapsDimensions(orientation: ExifOrientation): boolean {
+  return orientation >= 5;
+}
+
+/**
+ * Size of the upright image for stored pixels of width × height
+ */
+export function getOrientedSize(
+  width: number,
+  height: number,
+  orientation: ExifOrientation
+): { width: number; height: number } {
+  return swapsDimensions(orientation) ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Rotation and mirroring that bring stored pixels upright.
+ * Mirrored orientations (2, 4, 5, 7) map to the same flips as the crop page.
+ */
+export function getOrientationImageTransform(orientation: ExifOrientation): ImageTransform {
+  switch (orientation) {
+    case 2: return { rotation: 0, flipHorizontal: true, flipVertical: false };
+    case 3: return { rotation: 180, flipHorizontal: false, flipVertical: false };
+    case 4: return { rotation: 0, flipHorizontal: false, flipVertical: true };
+    case 5: return { rotation: 90, flipHorizontal: true, flipVertical: false };
+    case 6: return { rotation: 90, flipHorizontal: false, flipVertical: false };
+    case 7: return { rotation: 90, flipHorizontal: false, flipVertical: true };
+    case 8: return { rotation: 270, flipHorizontal: false, flipVertical: false };
+    default: return IDENTITY_TRANSFORM;
+  }
+}
+
+/**
+ * Canvas transform that draws stored pixels (width × height) upright.
+ * Returns [a, b, c, d, e, f] for CanvasRenderingContext2D.transform.
+ */
+export function getOrientationTransform(
+  width: number,
+  height: number,
+  orientation: ExifOrientation
+): [number, number, number, number, number, number] {
+  return getTransformMatrix(width, height, getOrientationImageTransform(orientation));
+}
@@ -0,0 +1,318 @@
+/**
+ * Embedded ICC colour profile reading and re-embedding.
+ * JPEG keeps the profile in APP2 "ICC_PROFILE" segments, PNG in a zlib-compressed
+ * iCCP chunk, HEIC in a 'colr' box of type 'prof' and WebP in an ICCP chunk.
+ */
+
+import { concatBytes, createPngChunk, readPngChunks } from './dpi';
+
+export type ColorProfileMode = 'convert' | 'embed';
+
+export interface IccProfile {
+  data: Uint8Array;
+  description: string;
+  colorSpace: PredefinedColorSpace | null;  // Matching canvas colour space, or null if there is none
+  isWideGamut: boolean;
+}
+
+const ICC_HEADER = 'ICC_PROFILE\0';
+
+// Profile bytes per APP2 segment (65533 payload minus the header and sequence bytes)
+const ICC_CHUNK_SIZE = 65519;
+
+// Chromaticities of the sRGB primaries as profiles store them (adapted to D50)
+const SRGB_PRIMARIES: [number, number][] = [[0.6484, 0.3309], [0.3212, 0.5979], [0.1559, 0.0660]];
+// Gamut area beyond which an RGB profile counts as wide; leaves room for sRGB variants
+const WIDE_GAMUT_RATIO = 1.1;
+// For RGB profiles without primaries (LUT-based)
+const WIDE_GAMUT_NAMES = /P3|Adobe\s*RGB|ProPhoto|ROMM|2020|Wide\s*Gamut/i;
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+/**
+ * Offset of a tag's data, or null if the profile has no such tag
+ */
+function findTag(data: Uint8Array, signature: string): number | null {
+  if (data.length < 132) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tagCount = view.getUint32(128);
+
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > data.length) break;
+    if (ascii(data, entry, 4) === signature) return view.getUint32(entry + 4);
+  }
+  return null;
+}
+
+/**
+ * Reads the profile description ('desc' tag, v2 text or v4 multi-localized)
+ */
+function readDescription(data: Uint8Array): string {
+  const offset = findTag(data, 'desc');
+  if (offset === null) return 'Unknown profile';
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const type = ascii(data, offset, 4);
+  if (type === 'desc') {
+    const length = view.getUint32(offset + 8);
+    return ascii(data, offset + 12, Math.max(0, length - 1)).trim();
+  }
+  if (type === 'mluc') {
+    const recordSize = view.getUint32(offset + 12);
+    const length = view.getUint32(offset + 16 + 4);
+    const start = offset + view.getUint32(offset + 16 + 8);
+    if (recordSize < 12) return 'Unknown profile';
+    let text = '';
+    for (let c = 0; c + 1 < length; c += 2) {
+      text += String.fromCharCode(view.getUint16(start + c));
+    }
+    return text.trim();
+  }
+  return 'Unknown profile';
+}
+
+/**
+ * xy chromaticities of a matrix profile's red, green and blue primaries
+ */
+function readPrimaries(data: Uint8Array): [number, number][] | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const primaries: [number, number][] = [];
+  for (const signature of ['rXYZ', 'gXYZ', 'bXYZ']) {
+    const offset = findTag(data, signature);
+    if (offset === null || offset + 20 > data.length || ascii(data, offset, 4) !== 'XYZ ') return null;
+    // s15Fixed16 X, Y, Z
+    const [x, y, z] = [8, 12, 16].map((at) => view.getInt32(offset + at) / 65536);
+    const sum = x + y + z;
+    if (sum <= 0) return null;
+    primaries.push([x / sum, y / sum]);
+  }
+  return primaries;
+}
+
+function gamutArea([[rx, ry], [gx, gy], [bx, by]]: [number, number][]): number {
+  return Math.abs((gx - rx) * (by - ry) - (bx - rx) * (gy - ry)) / 2;
+}
+
+/**
+ * Whether an RGB profile's primaries reach clearly beyond sRGB (Display P3, Adobe RGB, ProPhoto…).
+ * Grey, CMYK and unreadable profiles are not wide gamut.
+ */
+function isWideGamutProfile(data: Uint8Array, description: string): boolean {
+  if (data.length < 132 || ascii(data, 16, 4) !== 'RGB ') return false;
+  const primaries = readPrimaries(data);
+  return primaries
+    ? gamutArea(primaries) > gamutArea(SRGB_PRIMARIES) * WIDE_GAMUT_RATIO
+    : WIDE_GAMUT_NAMES.test(description);
+}
+
+/**
+ * Describes raw profile bytes
+ */
+export function parseIccProfile(data: Uint8Array): IccProfile {
+  const description = readDescription(data);
+  const isP3 = /P3/i.test(description);
+  const isSrgb = /sRGB|IEC\s*61966/i.test(description);
+  return {
+    data,
+    description,
+    colorSpace: isP3 ? 'display-p3' : isSrgb ? 'srgb' : null,
+    isWideGamut: isWideGamutProfile(data, description),
+  };
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function indexOfAscii(bytes: Uint8Array, text: string, from = 0): number {
+  outer: for (let i = from; i + text.length <= bytes.length; i++) {
+    for (let j = 0; j < text.length; j++) {
+      if (bytes[i + j] !== text.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Extracts the embedded ICC profile of a JPEG, PNG, HEIC or WebP file
+ */
+export async function readIccProfile(bytes: Uint8Array): Promise<IccProfile | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // JPEG: APP2 segments, possibly split across several in sequence order
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const parts: Array<[number, Uint8Array]> = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xda) break;
+      if (marker === 0xe2 && ascii(bytes, offset + 4, ICC_HEADER.length) === ICC_HEADER) {
+        const sequence = bytes[offset + 4 + ICC_HEADER.length];
+        parts.push([sequence, bytes.subarray(offset + 4 + ICC_HEADER.length + 2, offset + 2 + length)]);
+      }
+      offset += 2 + length;
+    }
+    if (parts.length === 0) return null;
+    parts.sort((a, b) => a[0] - b[0]);
+    return parseIccProfile(concatBytes(parts.map(([, part]) => part)));
+  }
+
+  // PNG: iCCP = name, NUL, compression method, zlib data
+  if (ascii(bytes, 1, 3) === 'PNG') {
+    const chunk = readPngChunks(bytes).find(([type]) => type === 'iCCP');
+    if (!chunk) return null;
+    const data = chunk[1].subarray(8, chunk[1].length - 4);
+    const nameEnd = data.indexOf(0);
+    return parseIccProfile(await inflate(data.subarray(nameEnd + 2)));
+  }
+
+  // WebP: RIFF chunk 'ICCP'
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const size = view.getUint32(offset + 4, true);
+      if (ascii(bytes, offset, 4) === 'ICCP') {
+        return parseIccProfile(bytes.slice(offset + 8, offset + 8 + size));
+      }
+      offset += 8 + size + (size % 2);
+    }
+    return null;
+  }
+
+  // HEIC: 'colr' box with colour type 'prof'
+  const colr = indexOfAscii(bytes, 'colrprof');
+  if (colr >= 4) {
+    const boxSize = view.getUint32(colr - 4);
+    return parseIccProfile(bytes.slice(colr + 8, colr - 4 + boxSize));
+  }
+  return null;
+}
+
+let p3Support: boolean | null = null;
+
+/**
+ * Whether 2D canvases can work in the Display P3 colour space here
+ */
+export function supportsDisplayP3(): boolean {
+  if (p3Support === null) {
+    try {
+      const ctx = document.createElement('canvas').getContext('2d', { colorSpace: 'display-p3' });
+      p3Support = ctx?.getContextAttributes().colorSpace === 'display-p3';
+    } catch {
+      p3Support = false;
+    }
+  }
+  return p3Support;
+}
+
+/**
+ * Canvas colour space to process in, and the profile to write on export.
+ * The original profile can only be kept when the canvas can hold its pixel values.
+ */
+export function resolveColorHandling(
+  profile: IccProfile | null,
+  mode: ColorProfileMode
+): { colorSpace: PredefinedColorSpace; embed: Uint8Array | null } {
+  if (mode === 'convert' || !profile || !profile.colorSpace) {
+    return { colorSpace: 'srgb', embed: null };
+  }
+  if (profile.colorSpace === 'display-p3' && !supportsDisplayP3()) {
+    return { colorSpace: 'srgb', embed: null };
+  }
+  return { colorSpace: profile.colorSpace, embed: profile.data };
+}
+
+function jpegIccSegments(data: Uint8Array): Uint8Array[] {
+  const count = Math.ceil(data.length / ICC_CHUNK_SIZE);
+  const header = new TextEncoder().encode(ICC_HEADER);
+  const segments: Uint8Array[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const part = data.subarray(i * ICC_CHUNK_SIZE, (i + 1) * ICC_CHUNK_SIZE);
+    const size = header.length + 2 + part.length + 2;
+    const segment = new Uint8Array(2 + size);
+    segment[0] = 0xff;
+    segment[1] = 0xe2;
+    segment[2] = size >> 8;
+    segment[3] = size & 0xff;
+    segment.set(header, 4);
+    segment[4 + header.length] = i + 1;      // Sequence number (1-based)
+    segment[5 + header.length] = count;
+    segment.set(part, 6 + header.length);
+    segments.push(segment);
+  }
+  return segments;
+}
+
+function embedInJpeg(bytes: Uint8Array, data: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [];
+  let offset = 2;
+  let insertAfter = 0;
+
+  // Drop existing profile segments; remember where a leading APP0 ends
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const end = offset + 2 + view.getUint16(offset + 2);
+    const isIcc = marker === 0xe2 && ascii(bytes, offset + 4, ICC_HEADER.length) === ICC_HEADER;
+    if (!isIcc) kept.push(bytes.subarray(offset, end));
+    if (marker === 0xe0 && kept.length === 1) insertAfter = 1;
+    offset = end;
+  }
+
+  return concatBytes([
+    bytes.subarray(0, 2),
+    ...kept.slice(0, insertAfter),
+    ...jpegIccSegments(data),
+    ...kept.slice(insertAfter),
+    bytes.subarray(offset),
+  ]);
+}
+
+async function embedInPng(bytes: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const iccp = createPngChunk('iCCP', concatBytes([
+    new TextEncoder().encode('ICC profile\0\0'),  // Name, NUL, compression method 0
+    await deflate(data),
+  ]));
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  for (const [type, chunk] of readPngChunks(bytes)) {
+    // An sRGB chunk would override the profile
+    if (type === 'iCCP' || type === 'sRGB') continue;
+    parts.push(chunk);
+    if (type === 'IHDR') parts.push(iccp);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Writes an ICC profile into an encoded JPEG or PNG, replacing any existing one
+ */
+export async function embedIccProfile(blob: Blob, data: Uint8Array): Promise<Blob> {
+  if (blob.type !== 'image/jpeg' && blob.type !== 'image/png') {
+    return blob;
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const result = blob.type === 'image/jpeg' ? embedInJpeg(bytes, data) : await embedInPng(bytes, data);
+  return new Blob([result as BlobPart], { type: blob.type });
+}
+
+/**
+ * Bytes the profile adds to a JPEG (segment headers included)
+ */
+export function getIccEmbedSize(data: Uint8Array): number {
+  return data.length + Math.ceil(data.length / ICC_CHUNK_SIZE) * (4 + ICC_HEADER.length + 2);
+}
@@ -0,0 +1,126 @@
+/**
+ * Memory budget checks for large images.
+ * Pixel size is read from the file header so oversize photos are caught before decoding.
+ */
+
+import { MAX_SAFE_MEMORY } from '../constants';
+
+// Headers (including EXIF and HEIC meta boxes) sit within the first megabyte
+const HEADER_BYTES = 1024 * 1024;
+
+/**
+ * Bytes needed to work on an image: 4 bytes per pixel (RGBA) × 2 canvases (source + destination)
+ */
+export function estimateMemoryUsage(width: number, height: number): number {
+  return width * height * 4 * 2;
+}
+
+/**
+ * Whether working on an image of this size risks running out of memory
+ */
+export function isOverMemoryBudget(width: number, height: number): boolean {
+  return estimateMemoryUsage(width, height) > MAX_SAFE_MEMORY;
+}
+
+/**
+ * Largest pixel count that stays within the memory budget
+ */
+export function getMaxSafePixels(): number {
+  return Math.floor(MAX_SAFE_MEMORY / estimateMemoryUsage(1, 1));
+}
+
+/**
+ * Scales a size down (keeping its aspect ratio) to at most `maxPixels`
+ */
+export function fitToPixelCount(
+  width: number,
+  height: number,
+  maxPixels: number
+): { width: number; height: number } {
+  if (width * height <= maxPixels) {
+    return { width, height };
+  }
+  const scale = Math.sqrt(maxPixels / (width * height));
+  return {
+    width: Math.max(1, Math.floor(width * scale)),
+    height: Math.max(1, Math.floor(height * scale)),
+  };
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function readJpegSize(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    if (marker === 0xda) break;
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+function readWebpSize(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+  const chunk = ascii(bytes, 12, 4);
+  if (chunk === 'VP8X') {
+    const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+    const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+    return { width, height };
+  }
+  if (chunk === 'VP8 ') {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  return null;
+}
+
+/**
+ * HEIC stores sizes in 'ispe' boxes (one per item); the largest is the full image
+ */
+function readHeicSize(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+  let best: { width: number; height: number } | null = null;
+  for (let i = 4; i + 16 <= bytes.length; i++) {
+    if (bytes[i] !== 0x69 || ascii(bytes, i, 4) !== 'ispe') continue;
+    const width = view.getUint32(i + 8);
+    const height = view.getUint32(i + 12);
+    if (!best || width * height > best.width * best.height) {
+      best = { width, height };
+    }
+  }
+  return best;
+}
+
+/**
+ * Reads the stored pixel size of a JPEG, PNG, WebP or HEIC without decoding it.
+ * Returns null for unknown or unreadable headers.
+ */
+export async function readImageDimensions(blob: Blob): Promise<{ width: number; height: number } | null> {
+  try {
+    const bytes = new Uint8Array(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return readJpegSize(bytes, view);
+    }
+    if (ascii(bytes, 1, 3) === 'PNG' && ascii(bytes, 12, 4) === 'IHDR') {
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+      return readWebpSize(bytes, view);
+    }
+    if (ascii(bytes, 4, 4) === 'ftyp') {
+      return readHeicSize(bytes, view);
+    }
+  } catch {
+    // Truncated header
+  }
+  return null;
+}
@@ -0,0 +1,644 @@
+/**
+ * EXIF / XMP / IPTC reading for the metadata inspector, and re-insertion of
+ * the kept metadata into freshly encoded files (canvas encoders drop all of it).
+ */
+
+import { EXIF_HEADER, findTiffHeader, setExifOrientation } from './exif';
+import { concatBytes, createPngChunk, readPngChunks } from './dpi';
+import { IccProfile, readIccProfile } from './icc';
+
+export type MetadataMode = 'strip' | 'keep' | 'keep-no-gps';
+
+export type MetadataGroup = 'Camera' | 'Capture' | 'Location' | 'Image' | 'Author';
+
+export interface MetadataTag {
+  group: MetadataGroup;
+  name: string;
+  value: string;
+}
+
+export interface ImageMetadata {
+  exif: Uint8Array | null;   // TIFF-structured EXIF block (starts with "II" or "MM")
+  xmp: string | null;        // XMP packet
+  iptc: Uint8Array | null;   // Photoshop image resource block (APP13 payload)
+  icc: IccProfile | null;    // Embedded colour profile (handled separately from the strip/keep choice)
+  tags: MetadataTag[];
+  hasGps: boolean;
+}
+
+export const EMPTY_METADATA: ImageMetadata = { exif: null, xmp: null, iptc: null, icc: null, tags: [], hasGps: false };
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const IPTC_RESOURCE_ID = 0x0404;
+
+// Largest payload a JPEG APPn segment can carry (65535 minus the length field)
+const MAX_SEGMENT_PAYLOAD = 65533;
+
+// TIFF tags that point at sub-IFDs
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const THUMBNAIL_OFFSET = 0x0201;
+const THUMBNAIL_LENGTH = 0x0202;
+
+// Size and resolution tags that no longer match an exported image.
+// Without them, readers fall back to the real pixel size and the DPI written in JFIF or pHYs.
+const STALE_IFD0_TAGS = [0x011a, 0x011b, 0x0128];   // XResolution, YResolution, ResolutionUnit
+const STALE_EXIF_TAGS = [0xa002, 0xa003];           // PixelXDimension, PixelYDimension
+
+// Bytes per component for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const IFD0_TAGS: Record<number, [MetadataGroup, string]> = {
+  0x010e: ['Image', 'Description'],
+  0x010f: ['Camera', 'Make'],
+  0x0110: ['Camera', 'Model'],
+  0x0112: ['Image', 'Orientation'],
+  0x0131: ['Image', 'Software'],
+  0x0132: ['Capture', 'Modified'],
+  0x013b: ['Author', 'Artist'],
+  0x8298: ['Author', 'Copyright'],
+};
+
+const EXIF_TAGS: Record<number, [MetadataGroup, string]> = {
+  0x829a: ['Capture', 'Exposure'],
+  0x829d: ['Capture', 'Aperture'],
+  0x8827: ['Capture', 'ISO'],
+  0x9003: ['Capture', 'Taken'],
+  0x9209: ['Capture', 'Flash'],
+  0x920a: ['Capture', 'Focal length'],
+  0xa002: ['Image', 'Width'],
+  0xa003: ['Image', 'Height'],
+  0xa433: ['Camera', 'Lens make'],
+  0xa434: ['Camera', 'Lens'],
+};
+
+// IPTC IIM record 2 datasets
+const IPTC_TAGS: Record<number, [MetadataGroup, string]> = {
+  5: ['Image', 'Title'],
+  25: ['Image', 'Keywords'],
+  80: ['Author', 'By-line'],
+  90: ['Location', 'City'],
+  95: ['Location', 'State'],
+  101: ['Location', 'Country'],
+  116: ['Author', 'Copyright'],
+  120: ['Image', 'Caption'],
+};
+
+const XMP_TAGS: Array<[string, MetadataGroup, string]> = [
+  ['xmp:CreatorTool', 'Image', 'Created with'],
+  ['xmp:Rating', 'Image', 'Rating'],
+  ['dc:creator', 'Author', 'Creator'],
+  ['dc:rights', 'Author', 'Rights'],
+  ['photoshop:City', 'Location', 'City'],
+  ['photoshop:Country', 'Location', 'Country'],
+];
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  entryOffset: number;   // Offset of the 12-byte entry
+  valueOffset: number;   // Offset of the value (inline or out-of-line)
+  valueSize: number;
+}
+
+interface TiffReader {
+  bytes: Uint8Array;
+  view: DataView;
+  littleEndian: boolean;
+}
+
+function createTiffReader(exif: Uint8Array): TiffReader {
+  return {
+    bytes: exif,
+    view: new DataView(exif.buffer, exif.byteOffset, exif.byteLength),
+    littleEndian: exif[0] === 0x49,
+  };
+}
+
+function latin1(bytes: Uint8Array): string {
+  return String.fromCharCode(...bytes);
+}
+
+function indexOfBytes(bytes: Uint8Array, pattern: Uint8Array, from = 0): number {
+  outer: for (let i = from; i + pattern.length <= bytes.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Reads one IFD of a TIFF block. Offsets are relative to the TIFF header at 0.
+ */
+function readIfd(reader: TiffReader, offset: number): { entries: IfdEntry[]; next: number } | null {
+  const { bytes, view, littleEndian } = reader;
+  if (offset <= 0 || offset + 2 > bytes.length) return null;
+
+  const count = view.getUint16(offset, littleEndian);
+  if (offset + 2 + count * 12 + 4 > bytes.length) return null;
+
+  const entries: IfdEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12;
+    const type = view.getUint16(entryOffset + 2, littleEndian);
+    const itemCount = view.getUint32(entryOffset + 4, littleEndian);
+    const valueSize = (TYPE_SIZES[type] ?? 1) * itemCount;
+    const valueOffset = valueSize <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+    if (valueOffset + valueSize > bytes.length) continue;
+    entries.push({
+      tag: view.getUint16(entryOffset, littleEndian),
+      type,
+      count: itemCount,
+      entryOffset,
+      valueOffset,
+      valueSize,
+    });
+  }
+
+  return { entries, next: view.getUint32(offset + 2 + count * 12, littleEndian) };
+}
+
+/**
+ * Numeric components of an entry (rationals as floats)
+ */
+function readNumbers(reader: TiffReader, entry: IfdEntry): number[] {
+  const { view, littleEndian } = reader;
+  const values: number[] = [];
+  for (let i = 0; i < Math.min(entry.count, 16); i++) {
+    const at = entry.valueOffset + i * (TYPE_SIZES[entry.type] ?? 1);
+    switch (entry.type) {
+      case 3: values.push(view.getUint16(at, littleEndian)); break;
+      case 4: values.push(view.getUint32(at, littleEndian)); break;
+      case 8: values.push(view.getInt16(at, littleEndian)); break;
+      case 9: values.push(view.getInt32(at, littleEndian)); break;
+      case 5: values.push(view.getUint32(at, littleEndian) / (view.getUint32(at + 4, littleEndian) || 1)); break;
+      case 10: values.push(view.getInt32(at, littleEndian) / (view.getInt32(at + 4, littleEndian) || 1)); break;
+      default: values.push(view.getUint8(at));
+    }
+  }
+  return values;
+}
+
+function readString(reader: TiffReader, entry: IfdEntry): string {
+  return new TextDecoder()
+    .decode(reader.bytes.subarray(entry.valueOffset, entry.valueOffset + entry.valueSize))
+    .replace(/\0+$/, '')
+    .trim();
+}
+
+function formatExifValue(reader: TiffReader, entry: IfdEntry): string {
+  if (entry.type === 2) return readString(reader, entry);
+
+  const [value] = readNumbers(reader, entry);
+  switch (entry.tag) {
+    case 0x829a: return value >= 1 ? `${value} s` : `1/${Math.round(1 / value)} s`;
+    case 0x829d: return `f/${value.toFixed(1)}`;
+    case 0x920a: return `${Math.round(value * 10) / 10} mm`;
+    case 0x9209: return value & 1 ? 'Fired' : 'Did not fire';
+    default: return String(Math.round(value * 1000) / 1000);
+  }
+}
+
+function dmsToDegrees(dms: number[], ref: string): number {
+  const degrees = (dms[0] ?? 0) + (dms[1] ?? 0) / 60 + (dms[2] ?? 0) / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+/**
+ * Collects display tags from a TIFF block and reports where its structure ends
+ */
+function parseExif(exif: Uint8Array, tags: MetadataTag[]): { hasGps: boolean; end: number } {
+  const reader = createTiffReader(exif);
+  let end = 8;
+  let hasGps = false;
+
+  const track = (ifdOffset: number, ifd: { entries: IfdEntry[] }) => {
+    end = Math.max(end, ifdOffset + 2 + ifd.entries.length * 12 + 4);
+    for (const entry of ifd.entries) {
+      end = Math.max(end, entry.valueOffset + entry.valueSize);
+    }
+  };
+
+  const ifd0Offset = reader.view.getUint32(4, reader.littleEndian);
+  const ifd0 = readIfd(reader, ifd0Offset);
+  if (!ifd0) return { hasGps, end };
+  track(ifd0Offset, ifd0);
+
+  for (const entry of ifd0.entries) {
+    const known = IFD0_TAGS[entry.tag];
+    if (known) tags.push({ group: known[0], name: known[1], value: formatExifValue(reader, entry) });
+  }
+
+  const pointer = (ifd: { entries: IfdEntry[] }, tag: number) => {
+    const entry = ifd.entries.find((e) => e.tag === tag);
+    return entry ? readNumbers(reader, entry)[0] : 0;
+  };
+
+  const exifOffset = pointer(ifd0, EXIF_IFD_POINTER);
+  const exifIfd = readIfd(reader, exifOffset);
+  if (exifIfd) {
+    track(exifOffset, exifIfd);
+    for (const entry of exifIfd.entries) {
+      const known = EXIF_TAGS[entry.tag];
+      if (known) tags.push({ group: known[0], name: known[1], value: formatExifValue(reader, entry) });
+    }
+  }
+
+  const gpsOffset = pointer(ifd0, GPS_IFD_POINTER);
+  const gpsIfd = readIfd(reader, gpsOffset);
+  if (gpsIfd) {
+    track(gpsOffset, gpsIfd);
+    const find = (tag: number) => gpsIfd.entries.find((e) => e.tag === tag);
+    const lat = find(2);
+    const lon = find(4);
+    if (lat && lon) {
+      hasGps = true;
+      const latRef = find(1) ? readString(reader, find(1)!) : 'N';
+      const lonRef = find(3) ? readString(reader, find(3)!) : 'E';
+      const latitude = dmsToDegrees(readNumbers(reader, lat), latRef);
+      const longitude = dmsToDegrees(readNumbers(reader, lon), lonRef);
+      tags.push({ group: 'Location', name: 'GPS', value: `${latitude.toFixed(6)}, ${longitude.toFixed(6)}` });
+    }
+    const altitude = find(6);
+    if (altitude) {
+      const below = find(5) && readNumbers(reader, find(5)!)[0] === 1;
+      tags.push({ group: 'Location', name: 'Altitude', value: `${below ? '-' : ''}${Math.round(readNumbers(reader, altitude)[0])} m` });
+    }
+  }
+
+  // IFD1 holds the embedded thumbnail; its JPEG data lives outside the entries
+  const ifd1 = readIfd(reader, ifd0.next);
+  if (ifd1) {
+    track(ifd0.next, ifd1);
+    const thumbOffset = pointer(ifd1, THUMBNAIL_OFFSET);
+    const thumbLength = pointer(ifd1, THUMBNAIL_LENGTH);
+    if (thumbOffset && thumbOffset + thumbLength <= exif.length) {
+      end = Math.max(end, thumbOffset + thumbLength);
+    }
+  }
+
+  return { hasGps, end: Math.min(end, exif.length) };
+}
+
+function xmpValue(xmp: string, name: string): string | null {
+  const attribute = xmp.match(new RegExp(`${name}="([^"]*)"`));
+  if (attribute) return attribute[1];
+  const element = xmp.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  if (!element) return null;
+  // Containers (rdf:Seq / rdf:Alt) list values as rdf:li items
+  const items = [...element[1].matchAll(/<rdf:li[^>]*>([^<]*)<\/rdf:li>/g)].map((m) => m[1]);
+  return (items.length > 0 ? items.join(', ') : element[1]).trim() || null;
+}
+
+function parseXmp(xmp: string, tags: MetadataTag[]): boolean {
+  for (const [name, group, label] of XMP_TAGS) {
+    const value = xmpValue(xmp, name);
+    if (value) tags.push({ group, name: label, value });
+  }
+  return /exif:GPSLatitude/.test(xmp);
+}
+
+/**
+ * Extracts IPTC IIM datasets from a Photoshop image resource block
+ */
+function parseIptc(irb: Uint8Array, tags: MetadataTag[]): void {
+  const view = new DataView(irb.buffer, irb.byteOffset, irb.byteLength);
+  let offset = 0;
+
+  while (offset + 12 <= irb.length && latin1(irb.subarray(offset, offset + 4)) === '8BIM') {
+    const id = view.getUint16(offset + 4);
+    const nameLength = irb[offset + 6];
+    const nameSize = nameLength + 1 + ((nameLength + 1) % 2);   // Pascal string padded to even
+    const sizeAt = offset + 6 + nameSize;
+    if (sizeAt + 4 > irb.length) return;
+    const size = view.getUint32(sizeAt);
+    const dataAt = sizeAt + 4;
+
+    if (id === IPTC_RESOURCE_ID) {
+      const values = new Map<number, string[]>();
+      let at = dataAt;
+      while (at + 5 <= dataAt + size && irb[at] === 0x1c) {
+        const record = irb[at + 1];
+        const dataset = irb[at + 2];
+        const length = view.getUint16(at + 3);
+        if (record === 2 && IPTC_TAGS[dataset]) {
+          const value = new TextDecoder().decode(irb.subarray(at + 5, at + 5 + length)).trim();
+          values.set(dataset, [...(values.get(dataset) ?? []), value]);
+        }
+        at += 5 + length;
+      }
+      for (const [dataset, list] of values) {
+        const [group, name] = IPTC_TAGS[dataset];
+        tags.push({ group, name, value: list.join(', ') });
+      }
+    }
+
+    offset = dataAt + size + (size % 2);
+  }
+}
+
+/**
+ * Finds an uncompressed XMP packet anywhere in a file
+ */
+function scanXmp(bytes: Uint8Array): string | null {
+  const encoder = new TextEncoder();
+  const closing = '</x:xmpmeta>';
+  const start = indexOfBytes(bytes, encoder.encode('<x:xmpmeta'));
+  const end = start >= 0 ? indexOfBytes(bytes, encoder.encode(closing), start) : -1;
+  return end > start ? new TextDecoder().decode(bytes.subarray(start, end + closing.length)) : null;
+}
+
+/**
+ * Reads EXIF, XMP and IPTC from JPEG segments, PNG chunks, or by scanning other containers (HEIC, WebP)
+ */
+export function readMetadata(bytes: Uint8Array): ImageMetadata {
+  let exif: Uint8Array | null = null;
+  let xmp: string | null = null;
+  let iptc: Uint8Array | null = null;
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (marker === 0xda) break;
+      const payload = bytes.subarray(offset + 4, offset + 2 + length);
+
+      if (marker === 0xe1 && !exif && EXIF_HEADER.every((byte, i) => payload[i] === byte)) {
+        exif = payload.slice(EXIF_HEADER.length);
+      } else if (marker === 0xe1 && !xmp && latin1(payload.subarray(0, XMP_HEADER.length)) === XMP_HEADER) {
+        xmp = new TextDecoder().decode(payload.subarray(XMP_HEADER.length));
+      } else if (marker === 0xed && !iptc && latin1(payload.subarray(0, PHOTOSHOP_HEADER.length)) === PHOTOSHOP_HEADER) {
+        iptc = payload.slice(PHOTOSHOP_HEADER.length);
+      }
+      offset += 2 + length;
+    }
+  } else if (latin1(bytes.subarray(1, 4)) === 'PNG') {
+    for (const [type, chunk] of readPngChunks(bytes)) {
+      if (type === 'eXIf') exif = chunk.slice(8, chunk.length - 4);
+    }
+    xmp = scanXmp(bytes);
+  } else {
+    const tiff = findTiffHeader(bytes);
+    if (tiff !== null) {
+      exif = bytes.slice(tiff, Math.min(bytes.length, tiff + MAX_SEGMENT_PAYLOAD - EXIF_HEADER.length));
+    }
+    xmp = scanXmp(bytes);
+  }
+
+  const tags: MetadataTag[] = [];
+  let hasGps = false;
+
+  if (exif) {
+    const parsed = parseExif(exif, tags);
+    hasGps = parsed.hasGps;
+    // Scanned blocks run into unrelated data; keep only the TIFF structure itself
+    exif = exif.slice(0, parsed.end);
+  }
+  if (xmp) {
+    hasGps = parseXmp(xmp, tags) || hasGps;
+  }
+  if (iptc) {
+    parseIptc(iptc, tags);
+  }
+
+  return { exif, xmp, iptc, icc: null, tags, hasGps };
+}
+
+/**
+ * Reads metadata and the colour profile from an uploaded file
+ */
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  let bytes: Uint8Array;
+  let metadata: ImageMetadata;
+  try {
+    bytes = new Uint8Array(await file.arrayBuffer());
+    metadata = readMetadata(bytes);
+  } catch (err) {
+    console.warn('Could not read metadata:', err);
+    return EMPTY_METADATA;
+  }
+
+  // A broken profile should not cost the rest of the metadata
+  try {
+    return { ...metadata, icc: await readIccProfile(bytes) };
+  } catch (err) {
+    console.warn('Could not read colour profile:', err);
+    return metadata;
+  }
+}
+
+/**
+ * Drops entries from an IFD in place: later entries and the next-IFD link move up one slot,
+ * and out-of-line values are zeroed
+ */
+function removeIfdEntries(reader: TiffReader, ifdOffset: number, tags: number[]): void {
+  const { bytes, view, littleEndian } = reader;
+  for (let ifd = readIfd(reader, ifdOffset); ifd; ifd = readIfd(reader, ifdOffset)) {
+    const entry = ifd.entries.find((e) => tags.includes(e.tag));
+    if (!entry) return;
+
+    if (entry.valueSize > 4) {
+      bytes.fill(0, entry.valueOffset, entry.valueOffset + entry.valueSize);
+    }
+    const count = view.getUint16(ifdOffset, littleEndian);
+    const tableEnd = ifdOffset + 2 + count * 12 + 4;
+    bytes.copyWithin(entry.entryOffset, entry.entryOffset + 12, tableEnd);
+    bytes.fill(0, tableEnd - 12, tableEnd);
+    view.setUint16(ifdOffset, count - 1, littleEndian);
+  }
+}
+
+/**
+ * Removes IFD1 and its embedded thumbnail, which still shows the uncropped original
+ */
+function dropExifThumbnail(exif: Uint8Array): void {
+  const reader = createTiffReader(exif);
+  const { view, littleEndian } = reader;
+  const ifd0Offset = view.getUint32(4, littleEndian);
+  const ifd0 = readIfd(reader, ifd0Offset);
+  if (!ifd0) return;
+
+  const ifd1 = readIfd(reader, ifd0.next);
+  if (ifd1) {
+    const find = (tag: number) => ifd1.entries.find((e) => e.tag === tag);
+    const thumbOffset = find(THUMBNAIL_OFFSET);
+    const thumbLength = find(THUMBNAIL_LENGTH);
+    if (thumbOffset && thumbLength) {
+      const start = readNumbers(reader, thumbOffset)[0];
+      const end = Math.min(exif.length, start + readNumbers(reader, thumbLength)[0]);
+      if (start > 0 && start < end) exif.fill(0, start, end);
+    }
+    for (const entry of ifd1.entries) {
+      exif.fill(0, entry.valueOffset, entry.valueOffset + entry.valueSize);
+    }
+    exif.fill(0, ifd0.next, ifd0.next + 2 + ifd1.entries.length * 12 + 4);
+  }
+
+  // IFD0 becomes the last IFD
+  const count = view.getUint16(ifd0Offset, littleEndian);
+  view.setUint32(ifd0Offset + 2 + count * 12, 0, littleEndian);
+}
+
+/**
+ * Removes the size and resolution tags of the original pixels
+ */
+function removeStaleSizeTags(exif: Uint8Array): void {
+  const reader = createTiffReader(exif);
+  const ifd0Offset = reader.view.getUint32(4, reader.littleEndian);
+  const ifd0 = readIfd(reader, ifd0Offset);
+  if (!ifd0) return;
+
+  const exifPointer = ifd0.entries.find((e) => e.tag === EXIF_IFD_POINTER);
+  if (exifPointer) {
+    removeIfdEntries(reader, readNumbers(reader, exifPointer)[0], STALE_EXIF_TAGS);
+  }
+  removeIfdEntries(reader, ifd0Offset, STALE_IFD0_TAGS);
+}
+
+/**
+ * Removes the GPS IFD: its pointer entry in IFD0 and the coordinates themselves
+ */
+function scrubExifGps(exif: Uint8Array): void {
+  const reader = createTiffReader(exif);
+  const { view, littleEndian } = reader;
+  const ifd0Offset = view.getUint32(4, littleEndian);
+  const ifd0 = readIfd(reader, ifd0Offset);
+  const pointer = ifd0?.entries.find((e) => e.tag === GPS_IFD_POINTER);
+  if (!ifd0 || !pointer) return;
+
+  // Zero the GPS values and the GPS IFD
+  const gpsOffset = view.getUint32(pointer.valueOffset, littleEndian);
+  const gpsIfd = readIfd(reader, gpsOffset);
+  if (gpsIfd) {
+    for (const entry of gpsIfd.entries) {
+      exif.fill(0, entry.valueOffset, entry.valueOffset + entry.valueSize);
+    }
+    exif.fill(0, gpsOffset, gpsOffset + 2 + gpsIfd.entries.length * 12 + 4);
+  }
+
+  removeIfdEntries(reader, ifd0Offset, [GPS_IFD_POINTER]);
+}
+
+function scrubXmpGps(xmp: string): string {
+  return xmp
+    .replace(/\s+exif:GPS\w+="[^"]*"/g, '')
+    .replace(/<exif:GPS(\w+)>[\s\S]*?<\/exif:GPS\1>/g, '')
+    .replace(/<exif:GPS\w+\/>/g, '');
+}
+
+/**
+ * Metadata to write for a mode: orientation reset (pixels are already upright), the thumbnail and
+ * the original size and resolution dropped (they describe other pixels), and GPS removed if asked
+ */
+function prepareMetadata(metadata: ImageMetadata, mode: MetadataMode): { exif: Uint8Array | null; xmp: string | null; iptc: Uint8Array | null } {
+  let exif = metadata.exif ? metadata.exif.slice() : null;
+  let xmp = metadata.xmp;
+
+  if (exif) {
+    try {
+      setExifOrientation(exif, 1, 0);
+      dropExifThumbnail(exif);
+      removeStaleSizeTags(exif);
+      if (mode === 'keep-no-gps') scrubExifGps(exif);
+    } catch (err) {
+      console.warn('Dropping unreadable EXIF block:', err);
+      exif = null;
+    }
+  }
+  if (xmp && mode === 'keep-no-gps') {
+    xmp = scrubXmpGps(xmp);
+  }
+
+  return { exif, xmp, iptc: metadata.iptc };
+}
+
+/**
+ * Bytes the kept metadata adds to an export, so size targets can leave room for it
+ */
+export function getMetadataSize(metadata: ImageMetadata, mode: MetadataMode): number {
+  if (mode === 'strip') return 0;
+  const data = prepareMetadata(metadata, mode);
+  const encoder = new TextEncoder();
+  return (data.exif ? data.exif.length + 4 + EXIF_HEADER.length : 0) +
+    (data.xmp ? encoder.encode(data.xmp).length + 4 + XMP_HEADER.length : 0) +
+    (data.iptc ? data.iptc.length + 4 + PHOTOSHOP_HEADER.length : 0);
+}
+
+function jpegSegment(marker: number, header: Uint8Array, payload: Uint8Array): Uint8Array | null {
+  const size = header.length + payload.length;
+  if (size > MAX_SEGMENT_PAYLOAD) return null;
+  const segment = new Uint8Array(4 + size);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  segment[2] = ((size + 2) >> 8) & 0xff;
+  segment[3] = (size + 2) & 0xff;
+  segment.set(header, 4);
+  segment.set(payload, 4 + header.length);
+  return segment;
+}
+
+function embedInJpeg(bytes: Uint8Array, data: ReturnType<typeof prepareMetadata>): Uint8Array {
+  const encoder = new TextEncoder();
+  const segments = [
+    data.exif && jpegSegment(0xe1, new Uint8Array(EXIF_HEADER), data.exif),
+    data.xmp && jpegSegment(0xe1, encoder.encode(XMP_HEADER), encoder.encode(data.xmp)),
+    data.iptc && jpegSegment(0xed, encoder.encode(PHOTOSHOP_HEADER), data.iptc),
+  ].filter((segment): segment is Uint8Array => !!segment);
+
+  // Keep SOI and a leading JFIF APP0 first
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concatBytes([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+}
+
+function embedInPng(bytes: Uint8Array, data: ReturnType<typeof prepareMetadata>): Uint8Array {
+  const encoder = new TextEncoder();
+  const extra: Uint8Array[] = [];
+  if (data.exif) {
+    extra.push(createPngChunk('eXIf', data.exif));
+  }
+  if (data.xmp) {
+    // iTXt: keyword, no compression, empty language tag and translated keyword
+    extra.push(createPngChunk('iTXt', concatBytes([
+      encoder.encode('XML:com.adobe.xmp\0\0\0\0\0'),
+      encoder.encode(data.xmp),
+    ])));
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let inserted = false;
+  for (const [type, chunk] of readPngChunks(bytes)) {
+    if (type === 'IDAT' && !inserted) {
+      parts.push(...extra);
+      inserted = true;
+    }
+    parts.push(chunk);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Writes the source metadata into an encoded JPEG or PNG according to the mode.
+ * 'strip' and other formats return the blob unchanged.
+ */
+export async function embedMetadata(blob: Blob, metadata: ImageMetadata, mode: MetadataMode): Promise<Blob> {
+  if (mode === 'strip' || (blob.type !== 'image/jpeg' && blob.type !== 'image/png')) {
+    return blob;
+  }
+
+  const data = prepareMetadata(metadata, mode);
+  if (!data.exif && !data.xmp && !data.iptc) {
+    return blob;
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const result = blob.type === 'image/jpeg' ? embedInJpeg(bytes, data) : embedInPng(bytes, data);
+  return new Blob([result as BlobPart], { type: blob.type });
+}
@@ -0,0 +1,302 @@
+/**
+ * Serialisable pixel operations and the executor that runs them.
+ * The same code runs inside the processing worker (on OffscreenCanvas)
+ * and on the main thread when workers cannot render.
+ */
+
+import { CanvasTarget, ResampleKernel, DEFAULT_RESAMPLE_KERNEL, SharpenOptions, TILE_SIZE } from '../constants';
+import { isBuiltInCanvasTarget, registerCanvasTarget } from '../targets';
+import {
+  ProcessingOptions,
+  ProcessingResult,
+  PhotoSheetOptions,
+  PhotoSheetResult,
+  SheetOptions,
+  SheetResult,
+  Rect,
+  processImage,
+  tilePhotoSheet,
+  composeSheet,
+  compressToTargetSize,
+} from '../processor';
+import { AnyCanvas, createCanvas, getContext2D, canvasToBlob, getSourceSize } from './canvas';
+import { isOverMemoryBudget } from './memory';
+import { resampleToCanvas } from './resample';
+import { sharpenCanvas } from './sharpen';
+
+export type Operation =
+  | { type: 'crop'; rect: Rect; rotation: number; straighten?: number; flipHorizontal?: boolean; flipVertical?: boolean; relative?: boolean }   // Quarter-turn rotation and fine straightening (degrees, ±45), mirroring, then a crop in rotated coordinates (fractions 0-1 when relative)
+  | { type: 'rotate'; degrees: number }   // Multiple of 90°
+  | { type: 'resize'; width: number; height: number; kernel?: ResampleKernel; linearLight?: boolean }
+  | { type: 'sharpen'; options: SharpenOptions }
+  | { type: 'fit'; options: ProcessingOptions; target: CanvasTarget }
+  | { type: 'photo-sheet'; photoMm: { width: number; height: number }; target: CanvasTarget; options: PhotoSheetOptions }
+  | { type: 'sheet'; options: SheetOptions; target: CanvasTarget };   // N-up grid of the image followed by the job's other sources
+
+export type OperationOutput =
+  | { type: 'canvas' }
+  | { type: 'blob'; mimeType: string; quality?: number }
+  | { type: 'target-size'; mimeType: 'image/jpeg' | 'image/webp'; targetBytes: number };
+
+export interface ProcessingJob {
+  operations: Operation[];
+  output: OperationOutput;
+  colorSpace?: PredefinedColorSpace;
+}
+
+export type FitLayout = Omit<ProcessingResult, 'canvas'>;
+export type SheetLayout = Omit<PhotoSheetResult, 'canvas'>;
+export type GridLayout = Omit<SheetResult, 'canvas'>;
+
+export interface JobResult<C> {
+  canvas: C | null;     // Set for 'canvas' output
+  blob: Blob | null;    // Set for encoded output
+  width: number;
+  height: number;
+  fit: FitLayout | null;        // Layout of the last 'fit' step
+  sheet: SheetLayout | null;    // Layout of the last 'photo-sheet' step
+  grid: GridLayout | null;      // Layout of the last 'sheet' step
+}
+
+/**
+ * Rotates by a multiple of 90°
+ */
+function rotateSource(
+  source: CanvasImageSource,
+  rotation: number,
+  colorSpace: PredefinedColorSpace
+): CanvasImageSource {
+  if (rotation % 360 === 0) {
+    return source;
+  }
+
+  const { width: srcW, height: srcH } = getSourceSize(source);
+  const quarterTurn = Math.abs(rotation % 180) === 90;
+  const rotated = createCanvas(quarterTurn ? srcH : srcW, quarterTurn ? srcW : srcH);
+  const rctx = getContext2D(rotated, { colorSpace });
+  rctx.translate(rotated.width / 2, rotated.height / 2);
+  rctx.rotate((rotation * Math.PI) / 180);
+  rctx.drawImage(source, -srcW / 2, -srcH / 2);
+  return rotated;
+}
+
+/**
+ * Rotates by a multiple of 90° plus a fine straightening angle, mirrors, and crops.
+ * The crop is drawn straight from the source through one transform, so the
+ * source is resampled once and no full-size rotated copy is made.
+ * A relative rect is given in fractions of the rotated image, so it applies to any image size.
+ */
+function cropSource(
+  source: CanvasImageSource,
+  rect: Rect,
+  rotation: number,
+  straighten: number,
+  flip: { horizontal: boolean; vertical: boolean },
+  relative: boolean,
+  colorSpace: PredefinedColorSpace
+): AnyCanvas {
+  const { width: srcW, height: srcH } = getSourceSize(source);
+  const quarterTurn = Math.abs(rotation % 180) === 90;
+  const imageW = quarterTurn ? srcH : srcW;
+  const imageH = quarterTurn ? srcW : srcH;
+  const { x, y, width, height } = relative
+    ? { x: rect.x * imageW, y: rect.y * imageH, width: rect.width * imageW, height: rect.height * imageH }
+    : rect;
+
+  const canvas = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const ctx = getContext2D(canvas, { colorSpace });
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  // Rotated image centre, in crop coordinates
+  ctx.translate(imageW / 2 - x, imageH / 2 - y);
+  // Mirrored after rotating, as the image appears on screen
+  ctx.scale(flip.horizontal ? -1 : 1, flip.vertical ? -1 : 1);
+  ctx.rotate(((rotation + straighten) * Math.PI) / 180);
+  ctx.drawImage(source, -srcW / 2, -srcH / 2);
+  return canvas;
+}
+
+/**
+ * Source-space tiles covering an image
+ */
+function getTiles(width: number, height: number): Rect[] {
+  const tiles: Rect[] = [];
+  for (let y = 0; y < height; y += TILE_SIZE) {
+    for (let x = 0; x < width; x += TILE_SIZE) {
+      tiles.push({ x, y, width: Math.min(TILE_SIZE, width - x), height: Math.min(TILE_SIZE, height - y) });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Resizes an oversize image one source tile at a time, so no intermediate canvas is larger than a tile.
+ * Each tile reads the neighbouring pixels its filter reaches, so the seams are exact.
+ */
+function resizeTiled(
+  source: CanvasImageSource,
+  srcW: number,
+  srcH: number,
+  targetW: number,
+  targetH: number,
+  kernel: ResampleKernel,
+  linearLight: boolean,
+  colorSpace: PredefinedColorSpace
+): AnyCanvas {
+  const scaleX = targetW / srcW;
+  const scaleY = targetH / srcH;
+  const canvas = createCanvas(targetW, targetH);
+  const ctx = getContext2D(canvas, { colorSpace });
+
+  for (const tile of getTiles(srcW, srcH)) {
+    // Output pixels owned by this tile
+    const outX = Math.round(tile.x * scaleX);
+    const outY = Math.round(tile.y * scaleY);
+    const outW = Math.round((tile.x + tile.width) * scaleX) - outX;
+    const outH = Math.round((tile.y + tile.height) * scaleY) - outY;
+    if (outW <= 0 || outH <= 0) continue;
+
+    const resized = resampleToCanvas(
+      source,
+      { x: outX / scaleX, y: outY / scaleY, width: outW / scaleX, height: outH / scaleY },
+      outW,
+      outH,
+      kernel,
+      linearLight,
+      colorSpace
+    );
+    ctx.drawImage(resized, outX, outY);
+  }
+  return canvas;
+}
+
+/**
+ * Draws the source onto a canvas of its own size (for jobs with no operations).
+ * The copy and its encoding need the whole image at once, even for oversize images.
+ */
+function copySource(source: CanvasImageSource, colorSpace: PredefinedColorSpace): AnyCanvas {
+  const { width, height } = getSourceSize(source);
+  const canvas = createCanvas(width, height);
+  getContext2D(canvas, { colorSpace }).drawImage(source, 0, 0);
+  return canvas;
+}
+
+/**
+ * Runs a job's operations in order and produces its output.
+ * `onProgress` receives the completed fraction (0-1) after every step.
+ * `others` are the images placed after the source by a 'sheet' step.
+ */
+export async function runOperations(
+  source: CanvasImageSource,
+  job: ProcessingJob,
+  onProgress?: (progress: number) => void,
+  others: CanvasImageSource[] = []
+): Promise<JobResult<AnyCanvas>> {
+  const { operations, output } = job;
+  const colorSpace = job.colorSpace ?? 'srgb';
+  const steps = operations.length + (output.type === 'canvas' ? 0 : 1);
+  let fit: FitLayout | null = null;
+  let sheet: SheetLayout | null = null;
+  let grid: GridLayout | null = null;
+  let current: CanvasImageSource = source;
+
+  for (const [index, operation] of operations.entries()) {
+    switch (operation.type) {
+      case 'crop':
+        current = cropSource(
+          current,
+          operation.rect,
+          operation.rotation,
+          operation.straighten ?? 0,
+          { horizontal: operation.flipHorizontal ?? false, vertical: operation.flipVertical ?? false },
+          operation.relative ?? false,
+          colorSpace
+        );
+        break;
+
+      case 'rotate':
+        current = rotateSource(current, operation.degrees, colorSpace);
+        break;
+
+      case 'resize': {
+        const { width, height } = getSourceSize(current);
+        const kernel = operation.kernel ?? DEFAULT_RESAMPLE_KERNEL;
+        const linearLight = operation.linearLight ?? false;
+        current = isOverMemoryBudget(width, height)
+          ? resizeTiled(current, width, height, operation.width, operation.height, kernel, linearLight, colorSpace)
+          : resampleToCanvas(
+            current,
+            { x: 0, y: 0, width, height },
+            operation.width,
+            operation.height,
+            kernel,
+            linearLight,
+            colorSpace
+          );
+        break;
+      }
+
+      case 'sharpen': {
+        // Sharpening reads pixels back, so it needs a canvas rather than the source image
+        const canvas = current === source ? copySource(source, colorSpace) : current as AnyCanvas;
+        current = sharpenCanvas(canvas, operation.options, colorSpace);
+        break;
+      }
+
+      case 'fit': {
+        // Runtime-registered targets only exist in the registry of the thread that added them
+        if (!isBuiltInCanvasTarget(operation.target.id)) registerCanvasTarget(operation.target);
+        const { canvas, ...layout } = processImage(current, { ...operation.options, colorSpace });
+        current = canvas;
+        fit = layout;
+        break;
+      }
+
+      case 'photo-sheet': {
+        if (!isBuiltInCanvasTarget(operation.target.id)) registerCanvasTarget(operation.target);
+        const { canvas, ...layout } = tilePhotoSheet(current, operation.photoMm, operation.target.id, operation.options);
+        current = canvas;
+        sheet = layout;
+        break;
+      }
+
+      case 'sheet': {
+        if (!isBuiltInCanvasTarget(operation.target.id)) registerCanvasTarget(operation.target);
+        const { canvas, ...layout } = composeSheet([current, ...others], operation.options);
+        current = canvas;
+        grid = layout;
+        break;
+      }
+    }
+    onProgress?.((index + 1) / steps);
+  }
+
+  // A job whose steps all left the image untouched still needs a canvas to encode
+  const canvas = current === source ? copySource(source, colorSpace) : current as AnyCanvas;
+  const result = { width: canvas.width, height: canvas.height, fit, sheet, grid };
+
+  if (output.type === 'canvas') {
+    return { ...result, canvas, blob: null };
+  }
+
+  const blob = output.type === 'target-size'
+    ? await compressToTargetSize(canvas, output.targetBytes, output.mimeType)
+    : await canvasToBlob(canvas, output.mimeType, output.quality);
+  onProgress?.(1);
+  return { ...result, canvas: null, blob };
+}
+
+/**
+ * Messages exchanged with the processing worker
+ */
+export interface WorkerRequest {
+  id: number;
+  source: ImageBitmap;
+  others: ImageBitmap[];
+  job: ProcessingJob;
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; result: JobResult<ImageBitmap> }
+  | { id: number; type: 'error'; message: string };
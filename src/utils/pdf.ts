@@ -0,0 +1,105 @@
+/**
+ * Minimal PDF writer for image-only documents.
+ * Each page holds a single JPEG, embedded as-is with DCTDecode (no re-encoding)
+ * and stretched to fill a page of the given physical size.
+ */
+
+import { MM_PER_INCH } from '../constants';
+
+const POINTS_PER_INCH = 72;
+
+export interface PdfPage {
+  jpeg: Uint8Array;     // Baseline or progressive JPEG file bytes
+  pixelWidth: number;   // Pixel size of the encoded JPEG
+  pixelHeight: number;
+  widthMm: number;      // Physical page size; width > height gives a landscape page
+  heightMm: number;
+}
+
+/**
+ * Converts millimetres to PDF points (1/72 inch)
+ */
+export function mmToPoints(mm: number): number {
+  return (mm / MM_PER_INCH) * POINTS_PER_INCH;
+}
+
+/**
+ * Formats a number for PDF syntax (no exponent, trailing zeros trimmed)
+ */
+function num(value: number): string {
+  return value.toFixed(3).replace(/\.?0+$/, '');
+}
+
+/**
+ * Builds a PDF with one JPEG per page
+ */
+export function createImagePdf(pages: PdfPage[]): Blob {
+  if (pages.length === 0) {
+    throw new Error('PDF needs at least one page');
+  }
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Object ids: 1 catalog, 2 page tree, then page / contents / image per page
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+  const objectCount = 2 + pages.length * 3;
+
+  // Header, with a binary comment so transfer tools treat the file as binary
+  write('%PDF-1.4\n%âãÏÓ\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const contentsId = pageId + 1;
+    const imageId = pageId + 2;
+    const width = num(mmToPoints(page.widthMm));
+    const height = num(mmToPoints(page.heightMm));
+    const content = `q\n${width} 0 0 ${height} 0 0 cm\n/Im0 Do\nQ\n`;
+
+    beginObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentsId} 0 R >>\nendobj\n`
+    );
+
+    beginObject(contentsId);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}endstream\nendobj\n`);
+
+    beginObject(imageId);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  // Cross-reference table: every entry is exactly 20 bytes
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
@@ -0,0 +1,253 @@
+/**
+ * Editor pipelines: an ordered list of operations plus a single final encode.
+ * Pipelines are plain JSON, so a recipe can be saved and applied to other images.
+ */
+
+import {
+  JPEG_QUALITY,
+  RESAMPLE_KERNELS,
+  SHARPEN_PRESETS,
+  SHARPEN_LIMITS,
+  FIT_MODES,
+  BACKGROUND_MODES,
+  TargetUnit,
+} from '../constants';
+import { getCanvasTarget, isBuiltInCanvasTarget, toPixels } from '../targets';
+import { Operation, OperationOutput, ProcessingJob } from './operations';
+import { findSharpenPreset } from './sharpen';
+import { MAX_STRAIGHTEN_ANGLE } from './crop';
+import { isOverMemoryBudget } from './memory';
+
+export const PIPELINE_VERSION = 1;
+
+export type PipelineOutput = Exclude<OperationOutput, { type: 'canvas' }>;
+
+export interface Pipeline {
+  version: number;
+  operations: Operation[];
+  output: PipelineOutput;
+}
+
+export const DEFAULT_PIPELINE_OUTPUT: PipelineOutput = { type: 'blob', mimeType: 'image/jpeg', quality: JPEG_QUALITY };
+
+const OPERATION_TYPES: Operation['type'][] = ['crop', 'rotate', 'resize', 'sharpen', 'fit', 'photo-sheet'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+const TARGET_UNITS: TargetUnit[] = ['mm', 'in', 'px'];
+const COLOR_SPACES: PredefinedColorSpace[] = ['srgb', 'display-p3'];
+
+// Margins, bleed and gaps beyond this are not a real print layout
+const MAX_LAYOUT_MM = 100;
+
+function isInRange(value: unknown, min: number, max: number): value is number {
+  return isNumber(value) && value >= min && value <= max;
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isSharpenOptions(value: unknown): boolean {
+  return isObject(value) &&
+    isInRange(value.amount, 0, SHARPEN_LIMITS.AMOUNT_MAX) &&
+    isInRange(value.radius, SHARPEN_LIMITS.RADIUS_MIN, SHARPEN_LIMITS.RADIUS_MAX) &&
+    isInRange(value.threshold, 0, SHARPEN_LIMITS.THRESHOLD_MAX);
+}
+
+function isBackgroundOptions(value: unknown): boolean {
+  return isObject(value) && typeof value.mode === 'string' && value.mode in BACKGROUND_MODES &&
+    isOptional(value.color, (color) => typeof color === 'string') &&
+    isOptional(value.gradient, (gradient) => Array.isArray(gradient) && gradient.length === 2 &&
+      gradient.every((color) => typeof color === 'string'));
+}
+
+function isPrintOptions(value: unknown): boolean {
+  return isObject(value) && isInRange(value.marginMm, 0, MAX_LAYOUT_MM) &&
+    isInRange(value.bleedMm, 0, MAX_LAYOUT_MM) && isBoolean(value.cropMarks);
+}
+
+/**
+ * Fit settings, checked field by field; `outputFormat` must name the step's own target
+ */
+function isFitOptions(value: unknown, targetId: unknown): boolean {
+  return isObject(value) && value.outputFormat === targetId &&
+    isOptional(value.orientation, (orientation) => orientation === 'portrait' || orientation === 'landscape') &&
+    isOptional(value.fitMode, (mode) => typeof mode === 'string' && mode in FIT_MODES) &&
+    isOptional(value.background, isBackgroundOptions) &&
+    isOptional(value.focalPoint, (point) => isObject(point) && isInRange(point.x, 0, 1) && isInRange(point.y, 0, 1)) &&
+    isOptional(value.print, isPrintOptions) &&
+    isOptional(value.colorSpace, (space) => COLOR_SPACES.includes(space as PredefinedColorSpace)) &&
+    isOptional(value.kernel, (kernel) => typeof kernel === 'string' && kernel in RESAMPLE_KERNELS) &&
+    isOptional(value.linearLight, isBoolean) &&
+    isOptional(value.sharpen, isSharpenOptions);
+}
+
+function isPhotoSheetOptions(value: unknown): boolean {
+  return isObject(value) && isInRange(value.gapMm, 0, MAX_LAYOUT_MM) &&
+    isInRange(value.marginMm, 0, MAX_LAYOUT_MM) && isBoolean(value.cutMarks);
+}
+
+/**
+ * Crop rectangle: fractions within the image when relative, otherwise a non-negative position and a size within the memory budget
+ */
+function isCropRect(rect: unknown, relative: boolean): boolean {
+  if (!isObject(rect)) return false;
+  if (relative) {
+    return isInRange(rect.x, 0, 1) && isInRange(rect.y, 0, 1) &&
+      isInRange(rect.width, 0, 1) && isInRange(rect.height, 0, 1) &&
+      rect.width > 0 && rect.height > 0;
+  }
+  return isNumber(rect.x) && isNumber(rect.y) && rect.x >= 0 && rect.y >= 0 && isValidSize(rect.width, rect.height);
+}
+
+/**
+ * Positive pixel size that fits the memory budget
+ */
+function isValidSize(width: unknown, height: unknown): boolean {
+  return isNumber(width) && isNumber(height) && width >= 1 && height >= 1 && !isOverMemoryBudget(width, height);
+}
+
+/**
+ * A built-in target must match the built-in definition, so a file cannot redefine it;
+ * custom targets need a sane size and DPI
+ */
+function isValidTarget(value: unknown): boolean {
+  if (!isObject(value) || typeof value.id !== 'string' || !value.id.trim()) {
+    return false;
+  }
+  if (!isNumber(value.width) || !isNumber(value.height) || !isNumber(value.dpi) || value.dpi <= 0 ||
+    !TARGET_UNITS.includes(value.unit as TargetUnit)) {
+    return false;
+  }
+  if (isBuiltInCanvasTarget(value.id)) {
+    const builtIn = getCanvasTarget(value.id);
+    return builtIn.width === value.width && builtIn.height === value.height &&
+      builtIn.unit === value.unit && builtIn.dpi === value.dpi;
+  }
+  const unit = value.unit as TargetUnit;
+  return isValidSize(toPixels(value.width, unit, value.dpi), toPixels(value.height, unit, value.dpi));
+}
+
+function isValidOperation(value: unknown): value is Operation {
+  if (!isObject(value) || !OPERATION_TYPES.includes(value.type as Operation['type'])) {
+    return false;
+  }
+
+  switch (value.type) {
+    case 'crop':
+      return isOptional(value.relative, isBoolean) && isCropRect(value.rect, value.relative === true) &&
+        isNumber(value.rotation) && value.rotation % 90 === 0 &&
+        isOptional(value.straighten, (angle) => isInRange(angle, -MAX_STRAIGHTEN_ANGLE, MAX_STRAIGHTEN_ANGLE)) &&
+        isOptional(value.flipHorizontal, isBoolean) &&
+        isOptional(value.flipVertical, isBoolean);
+    case 'rotate':
+      return isNumber(value.degrees) && value.degrees % 90 === 0;
+    case 'resize':
+      return isValidSize(value.width, value.height) &&
+        isOptional(value.kernel, (kernel) => typeof kernel === 'string' && kernel in RESAMPLE_KERNELS) &&
+        isOptional(value.linearLight, isBoolean);
+    case 'sharpen':
+      return isSharpenOptions(value.options);
+    case 'fit':
+      return isValidTarget(value.target) && isObject(value.target) && isFitOptions(value.options, value.target.id);
+    case 'photo-sheet':
+      return isPhotoSheetOptions(value.options) && isValidTarget(value.target) &&
+        isObject(value.photoMm) && isNumber(value.photoMm.width) && isNumber(value.photoMm.height) &&
+        value.photoMm.width > 0 && value.photoMm.height > 0;
+  }
+  return false;
+}
+
+function isValidOutput(value: unknown): value is PipelineOutput {
+  if (!isObject(value) || typeof value.mimeType !== 'string') {
+    return false;
+  }
+  if (value.type === 'blob') {
+    return value.quality === undefined || isNumber(value.quality);
+  }
+  if (value.type === 'target-size') {
+    return (value.mimeType === 'image/jpeg' || value.mimeType === 'image/webp') && isNumber(value.targetBytes);
+  }
+  return false;
+}
+
+/**
+ * Converts a pipeline to JSON for saving
+ */
+export function serializePipeline(pipeline: Pipeline): string {
+  return JSON.stringify(pipeline, null, 2);
+}
+
+/**
+ * Reads a saved pipeline, throwing if the JSON is not one
+ */
+export function parsePipeline(json: string): Pipeline {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not a saved pipeline');
+  }
+
+  if (!isObject(data) || !Array.isArray(data.operations) || !isValidOutput(data.output)) {
+    throw new Error('This file is not a saved pipeline');
+  }
+  if (!isNumber(data.version) || data.version > PIPELINE_VERSION) {
+    throw new Error('This pipeline was saved by a newer version');
+  }
+
+  const invalid = data.operations.findIndex((operation) => !isValidOperation(operation));
+  if (invalid !== -1) {
+    throw new Error(`Step ${invalid + 1} of the pipeline is not valid`);
+  }
+
+  return { version: data.version, operations: data.operations as Operation[], output: data.output };
+}
+
+/**
+ * Turns a pipeline into a job for the processing service
+ */
+export function pipelineToJob(pipeline: Pipeline, colorSpace?: PredefinedColorSpace): ProcessingJob {
+  return { operations: pipeline.operations, output: pipeline.output, colorSpace };
+}
+
+/**
+ * Short label for a step in the operation list
+ */
+export function describeOperation(operation: Operation): string {
+  switch (operation.type) {
+    case 'crop': {
+      const { width, height } = operation.rect;
+      const straightened = operation.straighten ? `, straightened ${operation.straighten}°` : '';
+      const flipped = operation.flipHorizontal || operation.flipVertical ? ', flipped' : '';
+      return operation.relative
+        ? `Crop to ${Math.round(width * 100)}% × ${Math.round(height * 100)}%${straightened}${flipped}`
+        : `Crop to ${Math.round(width)} × ${Math.round(height)}${straightened}${flipped}`;
+    }
+    case 'rotate':
+      return `Rotate ${operation.degrees}°`;
+    case 'resize':
+      return `Resize to ${operation.width} × ${operation.height}`;
+    case 'sharpen': {
+      const preset = findSharpenPreset(operation.options);
+      return `Sharpen (${preset ? SHARPEN_PRESETS[preset].name : `${operation.options.amount}%`})`;
+    }
+    case 'fit':
+      return `Fit to ${operation.target.name}`;
+    case 'photo-sheet':
+      return `Photo sheet on ${operation.target.name}`;
+    case 'sheet':
+      return `${operation.options.columns} × ${operation.options.rows} sheet on ${operation.target.name}`;
+  }
+}
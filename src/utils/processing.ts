@@ -0,0 +1,213 @@
+/**
+ * Processing service: sends operation jobs to a Web Worker that renders on OffscreenCanvas,
+ * so large photos do not freeze the page. Falls back to the main thread where
+ * OffscreenCanvas or module workers are unavailable.
+ */
+
+import { ProcessingOptions, ProcessingResult, PhotoSheetOptions, PhotoSheetResult, SheetOptions } from '../processor';
+import { OutputFormat } from '../constants';
+import { getCanvasTarget } from '../targets';
+import { supportsOffscreenCanvas, bitmapToCanvas, getSourceSize } from './canvas';
+import { isOverMemoryBudget } from './memory';
+import { JobResult, OperationOutput, ProcessingJob, WorkerRequest, WorkerResponse, runOperations } from './operations';
+
+export type ProcessingSource = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+export type ProgressCallback = (progress: number) => void;
+
+interface PendingJob {
+  source: ProcessingSource;
+  others: ProcessingSource[];
+  job: ProcessingJob;
+  onProgress?: ProgressCallback;
+  resolve: (result: JobResult<HTMLCanvasElement>) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+// Decoded bitmaps of source images, cloned into the worker for each job
+const bitmapCache = new WeakMap<object, Promise<ImageBitmap>>();
+
+function getSourceBitmap(source: ProcessingSource): Promise<ImageBitmap> {
+  if (source instanceof ImageBitmap) {
+    return Promise.resolve(source);
+  }
+  // Canvases are redrawn between jobs, and oversize images would keep a second full copy alive,
+  // so only images within the memory budget are cached
+  const { width, height } = getSourceSize(source);
+  if (source instanceof HTMLCanvasElement || isOverMemoryBudget(width, height)) {
+    return createImageBitmap(source);
+  }
+  let bitmap = bitmapCache.get(source);
+  if (!bitmap) {
+    bitmap = createImageBitmap(source);
+    bitmapCache.set(source, bitmap);
+  }
+  return bitmap;
+}
+
+/**
+ * Runs a job on the main thread, reporting through the same callbacks
+ */
+async function runOnMainThread(
+  source: ProcessingSource,
+  job: ProcessingJob,
+  onProgress?: ProgressCallback,
+  others: ProcessingSource[] = []
+): Promise<JobResult<HTMLCanvasElement>> {
+  // Without a worker, createCanvas hands out regular canvas elements
+  return await runOperations(source, job, onProgress, others) as JobResult<HTMLCanvasElement>;
+}
+
+/**
+ * Moves every queued job to the main thread after the worker fails to start
+ */
+function abandonWorker(): void {
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+
+  for (const [id, entry] of pending) {
+    pending.delete(id);
+    runOnMainThread(entry.source, entry.job, entry.onProgress, entry.others).then(entry.resolve, entry.reject);
+  }
+}
+
+function handleMessage(event: MessageEvent<WorkerResponse>): void {
+  const response = event.data;
+  const entry = pending.get(response.id);
+  if (!entry) return;
+
+  if (response.type === 'progress') {
+    entry.onProgress?.(response.progress);
+    return;
+  }
+
+  pending.delete(response.id);
+  if (response.type === 'error') {
+    entry.reject(new Error(response.message));
+    return;
+  }
+
+  const { canvas: bitmap, ...result } = response.result;
+  entry.resolve({
+    ...result,
+    canvas: bitmap ? bitmapToCanvas(bitmap, entry.job.colorSpace) : null,
+  });
+}
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+
+  if (typeof Worker === 'undefined' || !supportsOffscreenCanvas()) {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('../workers/processing.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = (event) => {
+      console.error('Processing worker failed, using the main thread:', event.message);
+      abandonWorker();
+    };
+  } catch (err) {
+    console.error('Processing worker unavailable, using the main thread:', err);
+    workerFailed = true;
+    worker = null;
+  }
+  return worker;
+}
+
+/**
+ * Runs a job in the worker (or on the main thread as a fallback).
+ * Canvas output comes back as a regular canvas element.
+ * `others` are the further images a 'sheet' step lays out after the source.
+ */
+export async function runJob(
+  source: ProcessingSource,
+  job: ProcessingJob,
+  onProgress?: ProgressCallback,
+  others: ProcessingSource[] = []
+): Promise<JobResult<HTMLCanvasElement>> {
+  const target = getWorker();
+  if (!target) {
+    return runOnMainThread(source, job, onProgress, others);
+  }
+
+  const sources = [source, ...others];
+  const bitmaps = await Promise.all(sources.map(getSourceBitmap));
+  // Uncached bitmaps are handed over rather than copied
+  const transfer = bitmaps.filter((bitmap, index) => sources[index] !== bitmap && !bitmapCache.has(sources[index]));
+
+  return new Promise((resolve, reject) => {
+    const id = nextJobId++;
+    pending.set(id, { source, others, job, onProgress, resolve, reject });
+    const request: WorkerRequest = { id, source: bitmaps[0], others: bitmaps.slice(1), job };
+    target.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Fits an image onto a canvas target (worker version of processImage)
+ */
+export async function fitImage(
+  source: ProcessingSource,
+  options: ProcessingOptions,
+  onProgress?: ProgressCallback
+): Promise<ProcessingResult> {
+  const { canvas, fit } = await runJob(source, {
+    operations: [{ type: 'fit', options, target: getCanvasTarget(options.outputFormat) }],
+    output: { type: 'canvas' },
+    colorSpace: options.colorSpace,
+  }, onProgress);
+  return { ...fit!, canvas: canvas! };
+}
+
+/**
+ * Tiles a photo across a sheet (worker version of tilePhotoSheet)
+ */
+export async function tileSheet(
+  photo: ProcessingSource,
+  photoMm: { width: number; height: number },
+  outputFormat: OutputFormat,
+  options: PhotoSheetOptions
+): Promise<PhotoSheetResult> {
+  const { canvas, sheet } = await runJob(photo, {
+    operations: [{ type: 'photo-sheet', photoMm, target: getCanvasTarget(outputFormat), options }],
+    output: { type: 'canvas' },
+  });
+  return { ...sheet!, canvas: canvas! };
+}
+
+/**
+ * Lays images out in a grid on one page (worker version of composeSheet).
+ * Returns the sheet as a canvas, or encoded when `output` asks for a blob.
+ */
+export async function composeSheetImage(
+  images: ProcessingSource[],
+  options: SheetOptions,
+  output: OperationOutput = { type: 'canvas' }
+): Promise<JobResult<HTMLCanvasElement>> {
+  const [first, ...others] = images;
+  return runJob(first, {
+    operations: [{ type: 'sheet', options, target: getCanvasTarget(options.outputFormat) }],
+    output,
+  }, undefined, others);
+}
+
+/**
+ * Encodes the source as-is (e.g. for display URLs of decoded uploads)
+ */
+export async function encodeImage(
+  source: ProcessingSource,
+  output: Exclude<OperationOutput, { type: 'canvas' }>,
+  colorSpace?: PredefinedColorSpace,
+  onProgress?: ProgressCallback
+): Promise<Blob> {
+  const { blob } = await runJob(source, { operations: [], output, colorSpace }, onProgress);
+  return blob!;
+}
@@ -0,0 +1,263 @@
+/**
+ * Separable image resampling on ImageData.
+ * The filter runs as two 1D passes (horizontal, then vertical) on premultiplied alpha,
+ * so output is identical in every browser and transparent edges do not darken.
+ * Optionally filters in linear light, so thin lines and fine detail keep their brightness.
+ */
+
+import { ResampleKernel } from '../constants';
+import { Rect } from '../processor';
+import { AnyCanvas, createCanvas, getContext2D, getSourceSize } from './canvas';
+
+interface Filter {
+  support: number;                  // Radius in source pixels at 1:1
+  weight: (x: number) => number;
+}
+
+/**
+ * Mitchell-Netravali cubic family: B=0, C=0.5 is Catmull-Rom; B=C=1/3 is Mitchell
+ */
+function cubic(x: number, b: number, c: number): number {
+  const t = Math.abs(x);
+  if (t < 1) {
+    return ((12 - 9 * b - 6 * c) * t ** 3 + (-18 + 12 * b + 6 * c) * t ** 2 + (6 - 2 * b)) / 6;
+  }
+  if (t < 2) {
+    return ((-b - 6 * c) * t ** 3 + (6 * b + 30 * c) * t ** 2 + (-12 * b - 48 * c) * t + (8 * b + 24 * c)) / 6;
+  }
+  return 0;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+const FILTERS: Record<Exclude<ResampleKernel, 'nearest'>, Filter> = {
+  lanczos3: { support: 3, weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+  mitchell: { support: 2, weight: (x) => cubic(x, 1 / 3, 1 / 3) },
+  bicubic: { support: 2, weight: (x) => cubic(x, 0, 0.5) },
+  bilinear: { support: 1, weight: (x) => Math.max(0, 1 - Math.abs(x)) },
+};
+
+// 8-bit sRGB to 0-255 (gamma encoded) or 0-1 (linear light); Display P3 shares the sRGB curve
+const GAMMA_DECODE = Float32Array.from({ length: 256 }, (_, value) => value);
+const LINEAR_DECODE = Float32Array.from({ length: 256 }, (_, value) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+// Linear light back to 8-bit sRGB, sampled finely enough to keep shadow steps distinct
+const LINEAR_ENCODE_STEPS = 65535;
+let linearEncode: Uint8ClampedArray | null = null;
+
+function getLinearEncode(): Uint8ClampedArray {
+  if (!linearEncode) {
+    linearEncode = Uint8ClampedArray.from({ length: LINEAR_ENCODE_STEPS + 1 }, (_, i) => {
+      const c = i / LINEAR_ENCODE_STEPS;
+      return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055);
+    });
+  }
+  return linearEncode;
+}
+
+interface Contributions {
+  indices: Int32Array[];    // Source pixels per output pixel
+  weights: Float32Array[];  // Matching normalized weights
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Radius in source pixels a kernel reads when mapping `srcLength` to `dstLength`
+ */
+function getReach(kernel: ResampleKernel, srcLength: number, dstLength: number): number {
+  if (kernel === 'nearest') return 1;
+  return Math.ceil(FILTERS[kernel].support * Math.max(1, srcLength / dstLength)) + 1;
+}
+
+/**
+ * Works out which source pixels (and how much of each) make up every output pixel along one axis.
+ * `start`/`length` select a (possibly fractional) span of the `srcSize` source pixels.
+ */
+function computeContributions(
+  srcSize: number,
+  start: number,
+  length: number,
+  dstSize: number,
+  kernel: ResampleKernel
+): Contributions {
+  const scale = dstSize / length;
+  const indices: Int32Array[] = [];
+  const weights: Float32Array[] = [];
+
+  for (let i = 0; i < dstSize; i++) {
+    // Pixel k covers [k, k + 1), so centres sit on half-pixels
+    const center = start + (i + 0.5) / scale;
+
+    if (kernel === 'nearest') {
+      indices.push(Int32Array.of(clamp(Math.floor(center), 0, srcSize - 1)));
+      weights.push(Float32Array.of(1));
+      continue;
+    }
+
+    // Widen the filter when shrinking so every source pixel is averaged in (anti-aliasing)
+    const filter = FILTERS[kernel];
+    const filterScale = Math.max(1, 1 / scale);
+    const support = filter.support * filterScale;
+    const first = Math.floor(center - support);
+    const last = Math.ceil(center + support);
+
+    const pixelIndices: number[] = [];
+    const pixelWeights: number[] = [];
+    let sum = 0;
+    for (let k = first; k <= last; k++) {
+      const weight = filter.weight((k + 0.5 - center) / filterScale);
+      if (weight === 0) continue;
+      pixelIndices.push(clamp(k, 0, srcSize - 1));  // Edges repeat outward
+      pixelWeights.push(weight);
+      sum += weight;
+    }
+
+    indices.push(Int32Array.from(pixelIndices));
+    weights.push(Float32Array.from(pixelWeights, (weight) => weight / sum));
+  }
+
+  return { indices, weights };
+}
+
+/**
+ * Resamples `srcRect` of an ImageData to exactly `dstWidth` × `dstHeight` pixels.
+ * With `linearLight`, colour values are averaged as light intensities rather than as sRGB codes.
+ */
+export function resampleImageData(
+  src: ImageData,
+  srcRect: Rect,
+  dstWidth: number,
+  dstHeight: number,
+  kernel: ResampleKernel,
+  linearLight = false
+): ImageData {
+  const { width: srcWidth, height: srcHeight, data } = src;
+  const decode = linearLight ? LINEAR_DECODE : GAMMA_DECODE;
+  const encode = linearLight ? getLinearEncode() : null;
+  const horizontal = computeContributions(srcWidth, srcRect.x, srcRect.width, dstWidth, kernel);
+  const vertical = computeContributions(srcHeight, srcRect.y, srcRect.height, dstHeight, kernel);
+
+  // Only the rows the vertical pass reads need a horizontal pass
+  let rowStart = srcHeight;
+  let rowEnd = 0;
+  for (const rows of vertical.indices) {
+    rowStart = Math.min(rowStart, rows[0]);
+    rowEnd = Math.max(rowEnd, rows[rows.length - 1]);
+  }
+  const rowCount = rowEnd - rowStart + 1;
+
+  // Horizontal pass into premultiplied floats
+  const temp = new Float32Array(dstWidth * rowCount * 4);
+  for (let row = 0; row < rowCount; row++) {
+    const srcRow = (rowStart + row) * srcWidth * 4;
+    const tempRow = row * dstWidth * 4;
+    for (let x = 0; x < dstWidth; x++) {
+      const columns = horizontal.indices[x];
+      const columnWeights = horizontal.weights[x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < columns.length; k++) {
+        const p = srcRow + columns[k] * 4;
+        const alpha = data[p + 3] * columnWeights[k];
+        r += decode[data[p]] * alpha;
+        g += decode[data[p + 1]] * alpha;
+        b += decode[data[p + 2]] * alpha;
+        a += alpha;
+      }
+      const t = tempRow + x * 4;
+      temp[t] = r;
+      temp[t + 1] = g;
+      temp[t + 2] = b;
+      temp[t + 3] = a;
+    }
+  }
+
+  // Vertical pass, then back to straight alpha
+  const out = new ImageData(dstWidth, dstHeight, { colorSpace: src.colorSpace });
+  const outData = out.data;
+  for (let y = 0; y < dstHeight; y++) {
+    const rows = vertical.indices[y];
+    const rowWeights = vertical.weights[y];
+    for (let x = 0; x < dstWidth; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < rows.length; k++) {
+        const t = ((rows[k] - rowStart) * dstWidth + x) * 4;
+        const weight = rowWeights[k];
+        r += temp[t] * weight;
+        g += temp[t + 1] * weight;
+        b += temp[t + 2] * weight;
+        a += temp[t + 3] * weight;
+      }
+      const o = (y * dstWidth + x) * 4;
+      if (a <= 0) continue;
+      if (encode) {
+        outData[o] = encode[Math.round(clamp(r / a, 0, 1) * LINEAR_ENCODE_STEPS)];
+        outData[o + 1] = encode[Math.round(clamp(g / a, 0, 1) * LINEAR_ENCODE_STEPS)];
+        outData[o + 2] = encode[Math.round(clamp(b / a, 0, 1) * LINEAR_ENCODE_STEPS)];
+      } else {
+        // Uint8ClampedArray rounds and clamps the overshoot of negative lobes
+        outData[o] = r / a;
+        outData[o + 1] = g / a;
+        outData[o + 2] = b / a;
+      }
+      outData[o + 3] = a;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Resamples a region of any image source into a new canvas of exactly `dstWidth` × `dstHeight`.
+ * Only the source pixels the filter can reach are read back.
+ */
+export function resampleToCanvas(
+  source: CanvasImageSource,
+  srcRect: Rect,
+  dstWidth: number,
+  dstHeight: number,
+  kernel: ResampleKernel,
+  linearLight = false,
+  colorSpace: PredefinedColorSpace = 'srgb'
+): AnyCanvas {
+  const { width, height } = getSourceSize(source);
+  const reachX = getReach(kernel, srcRect.width, dstWidth);
+  const reachY = getReach(kernel, srcRect.height, dstHeight);
+  const x0 = clamp(Math.floor(srcRect.x) - reachX, 0, width);
+  const y0 = clamp(Math.floor(srcRect.y) - reachY, 0, height);
+  const x1 = clamp(Math.ceil(srcRect.x + srcRect.width) + reachX, x0 + 1, width);
+  const y1 = clamp(Math.ceil(srcRect.y + srcRect.height) + reachY, y0 + 1, height);
+
+  const region = createCanvas(x1 - x0, y1 - y0);
+  const regionCtx = getContext2D(region, { colorSpace, willReadFrequently: true });
+  regionCtx.drawImage(source, x0, y0, x1 - x0, y1 - y0, 0, 0, x1 - x0, y1 - y0);
+  const pixels = regionCtx.getImageData(0, 0, x1 - x0, y1 - y0);
+
+  const resampled = resampleImageData(
+    pixels,
+    { x: srcRect.x - x0, y: srcRect.y - y0, width: srcRect.width, height: srcRect.height },
+    dstWidth,
+    dstHeight,
+    kernel,
+    linearLight
+  );
+
+  const canvas = createCanvas(dstWidth, dstHeight);
+  getContext2D(canvas, { colorSpace }).putImageData(resampled, 0, 0);
+  return canvas;
+}
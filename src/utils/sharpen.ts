@@ -0,0 +1,166 @@
+/**
+ * Unsharp mask: adds back the difference between an image and a blurred copy of it,
+ * restoring the edge contrast that resampling softens.
+ */
+
+import { SharpenOptions, SharpenPreset, SHARPEN_PRESETS, TILE_SIZE } from '../constants';
+import { AnyCanvas, createCanvas, getContext2D } from './canvas';
+
+/**
+ * The preset these settings match, if any (any zero amount counts as 'off')
+ */
+export function findSharpenPreset(options: SharpenOptions): SharpenPreset | null {
+  if (options.amount === 0) return 'off';
+  const match = (Object.keys(SHARPEN_PRESETS) as SharpenPreset[]).find((key) => {
+    const preset = SHARPEN_PRESETS[key].options;
+    return preset.amount === options.amount && preset.radius === options.radius && preset.threshold === options.threshold;
+  });
+  return match ?? null;
+}
+
+/**
+ * Pixels the blur kernel reaches on each side (its half-width)
+ */
+function getKernelReach(radius: number): number {
+  return Math.max(1, Math.ceil(radius * 3));
+}
+
+/**
+ * Normalized 1D Gaussian with sigma = radius, truncated at 3 sigma
+ */
+function gaussianKernel(radius: number): Float32Array {
+  const reach = getKernelReach(radius);
+  const kernel = new Float32Array(reach * 2 + 1);
+  let sum = 0;
+  for (let i = -reach; i <= reach; i++) {
+    const weight = Math.exp(-(i * i) / (2 * radius * radius));
+    kernel[i + reach] = weight;
+    sum += weight;
+  }
+  return kernel.map((weight) => weight / sum);
+}
+
+/**
+ * Blurs premultiplied RGBA with a separable Gaussian (edges repeat outward)
+ */
+function blurPremultiplied(src: ImageData, kernel: Float32Array): Float32Array {
+  const { width, height, data } = src;
+  const reach = (kernel.length - 1) / 2;
+  const temp = new Float32Array(width * height * 4);
+  const out = new Float32Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = -reach; k <= reach; k++) {
+        const p = (y * width + Math.min(width - 1, Math.max(0, x + k))) * 4;
+        const alpha = data[p + 3] * kernel[k + reach];
+        r += data[p] * alpha;
+        g += data[p + 1] * alpha;
+        b += data[p + 2] * alpha;
+        a += alpha;
+      }
+      const t = (y * width + x) * 4;
+      temp[t] = r;
+      temp[t + 1] = g;
+      temp[t + 2] = b;
+      temp[t + 3] = a;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = -reach; k <= reach; k++) {
+        const t = (Math.min(height - 1, Math.max(0, y + k)) * width + x) * 4;
+        const weight = kernel[k + reach];
+        r += temp[t] * weight;
+        g += temp[t + 1] * weight;
+        b += temp[t + 2] * weight;
+        a += temp[t + 3] * weight;
+      }
+      const o = (y * width + x) * 4;
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = a;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Sharpens an ImageData, returning a new one. Alpha is left unchanged, and
+ * colour differences below `threshold` are ignored so flat areas and noise stay smooth.
+ */
+export function unsharpMask(src: ImageData, options: SharpenOptions): ImageData {
+  const { data } = src;
+  const amount = options.amount / 100;
+  const blurred = blurPremultiplied(src, gaussianKernel(options.radius));
+  const out = new ImageData(new Uint8ClampedArray(data), src.width, src.height, { colorSpace: src.colorSpace });
+  const outData = out.data;
+
+  for (let p = 0; p < data.length; p += 4) {
+    const blurAlpha = blurred[p + 3];
+    if (data[p + 3] === 0 || blurAlpha === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      // Straight colour of the blurred copy, so transparent neighbours do not darken edges
+      const diff = data[p + c] - blurred[p + c] / blurAlpha;
+      if (Math.abs(diff) >= options.threshold) {
+        outData[p + c] = data[p + c] + diff * amount;
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Sharpens a canvas into a new canvas of the same size.
+ * Large canvases are processed in tiles that read the neighbouring pixels the blur reaches,
+ * so the seams are exact.
+ */
+export function sharpenCanvas(
+  canvas: AnyCanvas,
+  options: SharpenOptions,
+  colorSpace: PredefinedColorSpace = 'srgb'
+): AnyCanvas {
+  if (options.amount <= 0) {
+    return canvas;
+  }
+
+  const { width, height } = canvas;
+  const margin = getKernelReach(options.radius);
+  const sourceCtx = getContext2D(canvas, { colorSpace, willReadFrequently: true });
+  const output = createCanvas(width, height);
+  const outputCtx = getContext2D(output, { colorSpace });
+
+  for (let y = 0; y < height; y += TILE_SIZE) {
+    for (let x = 0; x < width; x += TILE_SIZE) {
+      const x0 = Math.max(0, x - margin);
+      const y0 = Math.max(0, y - margin);
+      const x1 = Math.min(width, x + TILE_SIZE + margin);
+      const y1 = Math.min(height, y + TILE_SIZE + margin);
+      const sharpened = unsharpMask(sourceCtx.getImageData(x0, y0, x1 - x0, y1 - y0), options);
+      // Only the tile itself is written back; its margin belongs to the neighbours
+      outputCtx.putImageData(
+        sharpened,
+        x0,
+        y0,
+        x - x0,
+        y - y0,
+        Math.min(TILE_SIZE, width - x),
+        Math.min(TILE_SIZE, height - y)
+      );
+    }
+  }
+
+  return output;
+}
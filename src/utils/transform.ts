@@ -0,0 +1,50 @@
+/**
+ * Quarter-turn rotation and mirroring of an image, shared by the crop page
+ * and EXIF orientation handling.
+ *
+ * The image is rotated clockwise first, then mirrored as it appears on screen,
+ * so "flip horizontal" always swaps the visible left and right.
+ */
+
+export interface ImageTransform {
+  rotation: number;          // Clockwise, multiple of 90°
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+export const IDENTITY_TRANSFORM: ImageTransform = { rotation: 0, flipHorizontal: false, flipVertical: false };
+
+// [cos, sin] of each quarter turn, exact so matrices stay integral
+const QUARTER_TURNS: [number, number][] = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+/**
+ * Whether exactly one axis is mirrored, which reverses the visible direction of rotation
+ */
+export function isMirrored(transform: ImageTransform): boolean {
+  return transform.flipHorizontal !== transform.flipVertical;
+}
+
+/**
+ * Canvas transform that draws a width × height image with the transform applied,
+ * into a canvas of the transformed size.
+ * Returns [a, b, c, d, e, f] for CanvasRenderingContext2D.transform.
+ */
+export function getTransformMatrix(
+  width: number,
+  height: number,
+  transform: ImageTransform
+): [number, number, number, number, number, number] {
+  const turns = ((Math.round(transform.rotation / 90) % 4) + 4) % 4;
+  const [cos, sin] = QUARTER_TURNS[turns];
+  const scaleX = transform.flipHorizontal ? -1 : 1;
+  const scaleY = transform.flipVertical ? -1 : 1;
+  const outW = turns % 2 === 1 ? height : width;
+  const outH = turns % 2 === 1 ? width : height;
+
+  const a = scaleX * cos;
+  const b = scaleY * sin;
+  const c = -scaleX * sin;
+  const d = scaleY * cos;
+  // Maps the image centre onto the output centre
+  return [a, b, c, d, outW / 2 - (a * width + c * height) / 2, outH / 2 - (b * width + d * height) / 2];
+}
@@ -0,0 +1,116 @@
+/**
+ * Minimal ZIP writer for downloading many results at once.
+ * Entries are stored uncompressed: JPEG, PNG and WebP are already compressed,
+ * so deflating them again would cost time for almost no saving.
+ */
+
+import { crc32 } from './dpi';
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  lastModified?: Date;
+}
+
+// Without ZIP64, sizes and offsets are 32-bit
+const ZIP_SIZE_LIMIT = 0xffffffff;
+
+/**
+ * MS-DOS date and time fields (2-second resolution, years from 1980)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Makes every name unique by adding " (2)", " (3)"... before the extension
+ */
+export function uniqueFileNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    let candidate = name;
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.slice(0, dot) : name;
+    const extension = dot > 0 ? name.slice(dot) : '';
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+/**
+ * Packs files into a ZIP archive. Names should already be unique.
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = new Uint8Array(await entry.data.arrayBuffer());
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+
+    if (offset + 30 + name.length + data.length > ZIP_SIZE_LIMIT) {
+      throw new Error('The ZIP would be over 4 GB; download the files individually');
+    }
+
+    // Local file header
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);            // Version needed (2.0)
+    localView.setUint16(6, 0x0800, true);        // UTF-8 names
+    localView.setUint16(8, 0, true);             // Stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);  // Compressed size
+    localView.setUint32(22, data.length, true);  // Uncompressed size
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);            // Extra field length
+    local.set(name, 30);
+
+    // Central directory record
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014b50, true);
+    recordView.setUint16(4, 20, true);           // Version made by
+    recordView.setUint16(6, 20, true);           // Version needed
+    recordView.setUint16(8, 0x0800, true);
+    recordView.setUint16(10, 0, true);
+    recordView.setUint16(12, time, true);
+    recordView.setUint16(14, date, true);
+    recordView.setUint32(16, crc, true);
+    recordView.setUint32(20, data.length, true);
+    recordView.setUint32(24, data.length, true);
+    recordView.setUint16(28, name.length, true);
+    recordView.setUint32(42, offset, true);      // Offset of the local header
+    record.set(name, 46);
+
+    parts.push(local, data);
+    central.push(record);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, record) => sum + record.length, 0);
+
+  // End of central directory
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);    // Entries on this disk
+  endView.setUint16(10, entries.length, true);   // Total entries
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);           // Offset of the central directory
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+}
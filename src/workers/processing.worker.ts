@@ -0,0 +1,24 @@
+/**
+ * Processing worker: runs operation jobs on OffscreenCanvas off the main thread
+ */
+
+import { runOperations, WorkerRequest, WorkerResponse } from '../utils/operations';
+
+function reply(response: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, source, others, job } = event.data;
+
+  try {
+    const result = await runOperations(source, job, (progress) => reply({ id, type: 'progress', progress }), others);
+    const bitmap = result.canvas ? (result.canvas as OffscreenCanvas).transferToImageBitmap() : null;
+    reply({ id, type: 'done', result: { ...result, canvas: bitmap } }, bitmap ? [bitmap] : []);
+  } catch (err) {
+    reply({ id, type: 'error', message: err instanceof Error ? err.message : 'Processing failed' });
+  } finally {
+    source.close();
+    others.forEach((bitmap) => bitmap.close());
+  }
+};